@@ -1,81 +1,481 @@
-import * as path from "jsr:@std/path";
 import chalk from 'npm:chalk';
+import { stripVTControlCharacters } from "node:util";
+import { BASE_URL, RugplayClient } from "./src/client.ts";
+import {
+    ApiError,
+    AuthExpiredError,
+    NetworkError,
+    NoCookieError,
+    RateLimitedError,
+    ServerError,
+    UsageError,
+    TradeRefusedError,
+    ValidationError,
+    WrongPassphraseError,
+} from "./src/errors.ts";
+import { read_secret, redact } from "./src/credentials.ts";
+import type { MarketCoin, Notification, SettingsUpdate, Timeframe, TradeType, TransferResponse, TransferType, UserResponse } from "./src/types.ts";
+import { candle_chart, fmt_price, line_chart, TIMEFRAMES } from "./src/chart.ts";
+import { assess_risk, DEFAULT_RISK_SETTINGS, RISK_ACTIONS, type RiskAction, type RiskReport, type RiskSettings } from "./src/risk.ts";
+import {
+    base_url,
+    type Config,
+    defaultConfig,
+    getConfigPath,
+    getPluginDir,
+    is_locked,
+    readConfig,
+    serve_token,
+    set_passphrase,
+    take_profile_flag,
+    unlock_config,
+    writeConfig,
+} from "./src/config.ts";
+import { type Allocation, ALLOCATIONS, parse_symbols, parse_weights, plan_allocation, plan_rebalance } from "./src/allocation.ts";
+import { type Args, describe_args, join_tokens, parse_args, tokenize, usage } from "./src/args.ts";
+import { coin_price, find_coin } from "./src/market.ts";
+import { new_dashboard, run_dashboard } from "./src/dashboard.ts";
+import { add_order, cancel_order, type Order, type OrderResult, read_orders, run_orders } from "./src/orders.ts";
+import {
+    type Bettor,
+    type Game,
+    make_strategy,
+    run_session,
+    type SessionOptions,
+    simulate,
+    slot_record,
+    STRATEGIES,
+    type StrategyName,
+} from "./src/gambling.ts";
+import { append_journal, compute_pnl, type JournalEntry, read_journal } from "./src/journal.ts";
+import { get_format, is_text, render, set_format, take_format_flags, to_csv } from "./src/output.ts";
+import { all_transactions, filter_transactions, is_cash_transfer, normalize_transaction, parse_date } from "./src/transactions.ts";
+import { type Command, type LoadedPlugin, load_plugins } from "./src/plugins.ts";
+import {
+    check_limits,
+    DEFAULT_TRANSFER_LIMITS,
+    log_transfer,
+    read_transfer_log,
+    resolve_recipient,
+    sent_today,
+    type TransferLimits,
+} from "./src/transfers.ts";
+import {
+    acquire_lock,
+    daemon_log_path,
+    type DaemonTask,
+    log_daemon,
+    next_cron,
+    parse_schedule,
+    release_lock,
+    run_daemon,
+    touch_lock,
+} from "./src/daemon.ts";
+import {
+    all_notifications,
+    check_webhook,
+    filter_notifications,
+    type NotificationFilter,
+    type NotificationHooks,
+    post_webhook,
+    run_hook,
+} from "./src/notifications.ts";
+import { append_frame, BACKTEST_STRATEGIES, buy_and_hold, fetch_market, load_strategy, read_frames, recording_path, run_backtest } from "./src/backtest.ts";
+import { append_snapshot, compute_performance, read_snapshots, take_snapshot, transactions_since } from "./src/snapshots.ts";
+import { type CommandRun, is_loopback, log_serve, new_token, parse_output, start_api_server } from "./src/serve.ts";
+import {
+    check_spend,
+    DEFAULT_SAFETY_SETTINGS,
+    executed_price,
+    quote_trade,
+    type SafetySettings,
+    slippage,
+    spent_today,
+    SPENDING_COMMANDS,
+    type TradeQuote,
+} from "./src/safety.ts";
 
-function getConfigPath() {
-    // Use the user's home directory for config
-    const home = Deno.env.get("HOME") || Deno.env.get("USERPROFILE") || ".";
-    return path.join(home, "rugplay_api_saves.json");
+let config: Config = defaultConfig();
+try {
+    config = readConfig();
+} catch (err) {
+    console.log("Couldn't read configuration file:");
+    console.log(err);
+    console.log("Wrote default file.");
+    writeConfig(config);
 }
 
-function readConfig() {
-    const filePath = getConfigPath();
-    return JSON.parse(Deno.readTextFileSync(filePath));
+//? RUGPLAY_PASSPHRASE unlocks encrypted cookies without a prompt, for scripts and cron jobs
+function ask_passphrase(message: string): string {
+    const env = Deno.env.get("RUGPLAY_PASSPHRASE");
+    if (env != undefined && env != "") {
+        return env;
+    }
+    if (!Deno.stdin.isTerminal()) {
+        throw new Error("No terminal to ask for the passphrase in, set RUGPLAY_PASSPHRASE");
+    }
+    return read_secret(message);
 }
 
-function writeConfig(config: Record<string, any>) {
-    const filePath = getConfigPath();
-    // Ensure directory exists (should always exist for home, but just in case)
-    const dir = path.dirname(filePath);
+//? Three tries at the prompt, the environment variable either works or doesn't
+for (let tries = 1; is_locked(config); tries++) {
     try {
-        Deno.statSync(dir);
-    } catch (_) {
-        try {
-            Deno.mkdirSync(dir, { recursive: true });
-        } catch {
-            // ignore
+        unlock_config(config, ask_passphrase("Passphrase for your cookies:"));
+    } catch (err) {
+        console.log(`${chalk.redBright("Couldn't unlock your cookies")}: ${(err as Error).message}`);
+        if (!(err instanceof WrongPassphraseError) || tries >= 3 || Deno.env.get("RUGPLAY_PASSPHRASE")) {
+            Deno.exit(1);
         }
     }
-    return Deno.writeTextFileSync(filePath, JSON.stringify(config), {
-        create: true,
+}
+
+//? The profile commands currently run as, either the active one or whatever --profile picked
+let profile = config.active in config.profiles ? config.active : Object.keys(config.profiles)[0];
+const client = new RugplayClient(config.profiles[profile]?.cookie ?? "unknown", { ...config.http, baseUrl: base_url(config) });
+
+function cookies(): string[] {
+    return [client.cookie, ...Object.values(config.profiles).map((p) => p.cookie)];
+}
+
+//? Logs in with a cookie before it's saved. A logged out cookie still gets page data from Rugplay, me() then throws AuthExpiredError
+async function verify_cookie(cookie: string): Promise<string> {
+    const checker = new RugplayClient(cookie, { ...config.http, baseUrl: base_url(config) });
+    try {
+        return (await checker.me()).username;
+    } catch (err) {
+        if (err instanceof AuthExpiredError || err instanceof NoCookieError) {
+            throw new Error("Rugplay didn't accept that cookie, copy it again from a logged in rugplay.com tab (or use --no-verify)");
+        }
+        throw err;
+    }
+}
+
+function use_profile(name: string) {
+    if (!(name in config.profiles)) {
+        throw new Error(`Profile "${name}" does not exist, type 'profiles' to list them`);
+    }
+    profile = name;
+    client.cookie = config.profiles[name].cookie;
+}
+
+//? Renders anything thrown by a command, so the commands themselves don't have to check every response
+function render_error(err: unknown) {
+    //? Whatever Rugplay or fetch put in an error might hold a cookie, so it's hidden before anything is printed
+    const log = (text: unknown) => console.log(redact(typeof text == "string" ? text : Deno.inspect(text), cookies()));
+    if (!is_text()) {
+        log(JSON.stringify({
+            error: err instanceof Error ? err.name : "Error",
+            message: err instanceof Error ? err.message : String(err),
+            ...(err instanceof ApiError ? { status: err.status, body: err.body } : {}),
+            ...(err instanceof RateLimitedError ? { retryAfter: err.retryAfter } : {}),
+            ...(err instanceof UsageError ? { usage: err.usage } : {}),
+        }));
+        return;
+    }
+    if (err instanceof NoCookieError) {
+        log(`${chalk.redBright('You')} ${chalk.bold('must')} ${chalk.redBright('have a cookie set to use this.')}`);
+    } else if (err instanceof AuthExpiredError) {
+        log(`${chalk.redBright('Your session expired')} or the cookie for ${chalk.bold(profile)} is invalid. Set a new one with ${chalk.bold('set-cookie')}.`);
+    } else if (err instanceof RateLimitedError) {
+        log(`${chalk.redBright('Rate limited')} by Rugplay${err.retryAfter != undefined ? `, try again in ${Math.ceil(err.retryAfter)}s` : ''}.`);
+    } else if (err instanceof ValidationError) {
+        log(`${chalk.redBright('Rugplay rejected the request')}: ${err.message}`);
+    } else if (err instanceof ServerError) {
+        log(`${chalk.redBright('Rugplay had a server error')} (${err.status}): ${err.message}`);
+    } else if (err instanceof ApiError) {
+        log(`${chalk.redBright('API ERROR')}:`);
+        log(err.body);
+    } else if (err instanceof UsageError) {
+        log(`${chalk.redBright('Invalid command parameters')}: ${err.message}`);
+        if (err.usage != undefined) {
+            log(`Usage: ${chalk.bold(err.usage)}, type 'help ${err.usage.split(" ")[0]}' for details`);
+        }
+    } else if (err instanceof NetworkError) {
+        log(`${chalk.redBright('Network error')}: ${err.message}`);
+    } else if (err instanceof Error) {
+        log(`${chalk.redBright('ERROR')}: ${err.message}`);
+    } else {
+        log(`${chalk.redBright('ERROR')}:`);
+        log(err);
+    }
+}
+
+//? Appends an executed trade or bet to the journal. Not being able to write it shouldn't fail the trade itself
+function record(entry: Omit<JournalEntry, "time" | "profile">) {
+    try {
+        append_journal({ time: new Date().toISOString(), profile, ...entry });
+    } catch (err) {
+        console.error(`${chalk.yellow("Couldn't write to the journal")}: ${(err as Error).message}`);
+    }
+}
+
+function fmt_order(o: Order): string {
+    const price = (n: number) => `${chalk.yellow('$')}${chalk.yellowBright(Math.round(n*1000)/1000)}`;
+    const coins = o.amount == "all" ? "all" : `${o.amount}`;
+    switch (o.kind) {
+        case "limit-buy":
+            return `#${o.id} ${chalk.bgGreen('Buy')} ${price(o.amount as number)} of ${chalk.bgWhite(o.symbol)} at ${price(o.price as number)} or less`;
+        case "limit-sell":
+            return `#${o.id} ${chalk.bgRedBright('Sell')} ${coins} ${chalk.bgWhite(o.symbol)} at ${price(o.price as number)} or more`;
+        case "trailing-stop":
+            return `#${o.id} ${chalk.bgRedBright('Sell')} ${coins} ${chalk.bgWhite(o.symbol)} ${o.percent}% below its peak of ${price(o.peak as number)}`;
+        case "take-profit":
+            return `#${o.id} ${chalk.bgRedBright('Sell')} ${coins} ${chalk.bgWhite(o.symbol)} ${o.percent}% above ${price(o.basePrice as number)}`;
+    }
+}
+
+function show_order(o: Order) {
+    render({
+        data: o,
+        text: () => console.log(`Placed order ${fmt_order(o)}. It goes off while \`watch\` is running.`),
     });
 }
 
-interface Command {
-    desc: string;
-    args: string;
-    callback: (args: string[]) => Promise<void>;
+function fmt_notification(n: Notification): string {
+    const time = n.createdAt == undefined ? '' : ` ${chalk.gray(new Date(n.createdAt).toLocaleString())}`;
+    return `${n.isRead ? ' ' : chalk.redBright('*')} #${n.id} ${chalk.gray(n.type)} ${chalk.bold(n.title)}${time}\n  ${n.message}`;
 }
 
-let config = {cookie:"unknown"};
-try {
-    config = readConfig();
-} catch (err) {
-    console.log("Couldn't read configuration file:");
-    console.log(err);
-    console.log("Wrote default file.");
-    writeConfig(config);
+//? Polls for notifications that weren't there when it started, printing and forwarding each one. A failed poll or hook is only reported
+async function follow_notifications(filter: NotificationFilter, hooks: NotificationHooks, interval: number, ticks: number) {
+    const { webhook, command } = hooks;
+    const forward = async (n: Notification, name: string, f: () => Promise<void>) => {
+        try {
+            await f();
+        } catch (err) {
+            console.error(`${chalk.yellow(`Couldn't forward #${n.id} to the ${name}`)}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+    const seen = new Set((await client.notifications(50)).notifications.map((n) => n.id));
+    if (is_text()) {
+        console.log(`Following notifications every ${interval}s, press Ctrl+C to stop`);
+    }
+    for (let tick = 1; tick <= ticks; tick++) {
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+        let latest: Notification[] = [];
+        try {
+            latest = (await client.notifications(50)).notifications;
+        } catch (err) {
+            if (err instanceof AuthExpiredError) {
+                throw err;
+            }
+            console.error(`${chalk.yellow("Couldn't check notifications")}: ${redact(err instanceof Error ? err.message : String(err), cookies())}`);
+        }
+        //? Oldest first, the way they came in
+        const fresh = filter_notifications(latest.filter((n) => !seen.has(n.id)), filter).toReversed();
+        latest.forEach((n) => seen.add(n.id));
+        for (const n of fresh) {
+            console.log(is_text() ? fmt_notification(n) : JSON.stringify(n));
+            if (webhook != undefined) {
+                await forward(n, "webhook", () => post_webhook(webhook, n));
+            }
+            if (command != undefined) {
+                await forward(n, "hook", () => run_hook(command, n));
+            }
+        }
+    }
 }
 
-// deno-lint-ignore no-explicit-any
-export async function api_req(api: string, method: string, body?: any): Promise<Response|undefined> {
-    if (config.cookie == "unknown") {
-        console.log(`${chalk.redBright('You')} ${chalk.bold('must')} ${chalk.redBright('have a cookie set to use this.')}`);
-        return undefined;
-    }
-    return await fetch(
-        "https://rugplay.com/api/"+api,
-        {
-            method,
-            headers: {
-                //? Fake user agent I got from Gemini
-                "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/125.0.0.0 Safari/537.36",
-                "Cookie": config.cookie,
-                "Accept-Language": "en-US,en;q=0.9", //? Assuming English
-                "Origin": "https://rugplay.com", //? Make the Rugplay API think we're from the rugplay website
-            },
-            body,
-        }
-    );
-}
-
-const slot_record: Record<string, string> = {
-    wattesigma: "◻️",
-    webx: "⬛",
-    twoblade: "🟥",
-    lyntr: "🟪",
-    bussin: "🟧",
-    subterfuge: "🟩",
-};
+//? Runs a command for serve with its --json output parsed, what it printed to stderr is kept apart as warnings
+async function serve_command(name: string, argv: string[]): Promise<CommandRun> {
+    const out: string[] = [], warnings: string[] = [];
+    const text = (args: unknown[]) => args.map((a) => typeof a == "string" ? a : Deno.inspect(a)).join(" ");
+    const log = console.log, error = console.error;
+    console.log = (...args: unknown[]) => out.push(text(args));
+    console.error = (...args: unknown[]) => warnings.push(stripVTControlCharacters(text(args)));
+    let ok = false;
+    try {
+        ok = await run_command(name, ["--json", ...argv]);
+    } finally {
+        console.log = log;
+        console.error = error;
+    }
+    return { ok, result: parse_output(out), warnings };
+}
+
+//? Runs `f` with console output collected instead of printed, e.g. to show it inside the dashboard
+async function capture(f: () => Promise<unknown>): Promise<string[]> {
+    const lines: string[] = [];
+    const log = console.log, error = console.error;
+    console.log = console.error = (...args: unknown[]) => lines.push(args.map((a) => typeof a == "string" ? a : Deno.inspect(a)).join(" "));
+    try {
+        await f();
+    } finally {
+        console.log = log;
+        console.error = error;
+    }
+    return lines;
+}
+
+//? Commands that never finish or need a terminal can't be scheduled
+const UNSCHEDULABLE = ["daemon", "dashboard", "serve"];
+//? Commands that keep going until they're stopped unless they're given --ticks, notifications only with --follow
+const UNBOUNDED = ["watch", "record", "notifications"];
+//? All serve exposes: commands that only read, and trades and bets, which still need --yes above confirmAbove. Anything
+//? that changes settings, sends money away, writes where it's told, runs code or never finishes stays out of the token's reach
+const SERVABLE = [
+    "commands", "help", "plugins", "profiles", "summary", "me", "daily-reward", "notifications", "mark-read", "mark-all-read",
+    "view-user", "transfers", "contacts", "market", "watchlist", "coin", "risk", "safety", "orders", "daemon-tasks",
+    "journal", "pnl", "portfolio", "snapshot", "performance",
+    "buy-coin", "sell-coin", "invest", "rebalance", "coinflip", "slots",
+    "order-buy", "order-sell", "order-trail", "order-take-profit", "order-cancel",
+];
+
+/** Whether running `name` with `argv` would go on until it's stopped, see UNBOUNDED. */
+function runs_forever(name: string, argv: string[]): boolean {
+    if (!UNBOUNDED.includes(name)) {
+        return false;
+    }
+    const tokens = [...argv];
+    take_format_flags(tokens);
+    take_profile_flag(tokens);
+    const args = parse_args(name, commands.get(name) as Command, tokens);
+    return args.ticks == undefined && (name != "notifications" || args.follow == true);
+}
+
+function check_task(task: DaemonTask) {
+    parse_schedule(task.schedule);
+    const [name, ...argv] = tokenize(task.command);
+    if (name == undefined || !commands.has(name)) {
+        throw new Error(`Task "${task.name}" runs "${name ?? ''}", which isn't a command`);
+    }
+    if (UNSCHEDULABLE.includes(name)) {
+        throw new Error(`${name} can't be run by the daemon`);
+    }
+    //? The daemon runs one task at a time, one that never finishes would hold up every other
+    if (runs_forever(name, argv)) {
+        throw new Error(`${name} doesn't finish by itself, give it --ticks to run it from the daemon`);
+    }
+}
+
+function risk_settings(): RiskSettings {
+    return { ...DEFAULT_RISK_SETTINGS, ...config.risk };
+}
+
+function fmt_risk(report: RiskReport): string {
+    const color = { low: chalk.greenBright, medium: chalk.yellowBright, high: chalk.redBright, extreme: chalk.bgRed }[report.level];
+    return color(`${report.score}/100 (${report.level})`);
+}
+
+//? Scores a coin before buying it, as set up with set-risk. Warnings go to stderr so they don't get mixed into --json output
+async function check_risk(symbol: string, force: boolean): Promise<{ report?: RiskReport; refused: boolean }> {
+    const settings = risk_settings();
+    if (force || settings.action == "off") {
+        return { refused: false };
+    }
+    const report = await assess_risk(client, symbol.toUpperCase());
+    if (report.score < settings.threshold) {
+        return { report, refused: false };
+    }
+    if (settings.action == "warn") {
+        const worst = report.factors.toSorted((a, b) => b.score * b.weight - a.score * a.weight)[0];
+        console.error(`${chalk.yellow('Warning')}: ${chalk.bgWhite(report.symbol)} has a rug risk of ${fmt_risk(report)}, mostly because ${worst.detail}. Type 'risk ${report.symbol}' for details.`);
+    }
+    return { report, refused: settings.action == "refuse" };
+}
+
+//? Off while serving or running the daemon, requests and tasks must never wait on a prompt in its terminal
+let interactive = true;
+
+//? Asks before doing something that can't be undone. Scripts, cron jobs, the daemon and serve have nobody to ask, so they need --yes
+function confirm_action(question: string, yes: boolean): boolean {
+    if (yes) {
+        return true;
+    }
+    if (!interactive || !Deno.stdin.isTerminal()) {
+        throw new Error("There's no terminal to confirm this in, add --yes to go ahead without asking");
+    }
+    const answer = prompt(`${question} [y/N]`)?.trim().toLowerCase();
+    return answer == "y" || answer == "yes";
+}
+
+function transfer_limits(): TransferLimits {
+    return { ...DEFAULT_TRANSFER_LIMITS, ...config.transferLimits };
+}
+
+//? Checks a user exists before anything is sent to them
+async function find_user(username: string): Promise<UserResponse> {
+    try {
+        return await client.user(username);
+    } catch (err) {
+        if (err instanceof ValidationError && err.status == 404) {
+            throw new Error(`There's no Rugplay user named "${username}", usernames aren't display names`);
+        }
+        throw err;
+    }
+}
+
+function safety_settings(): SafetySettings {
+    return { ...DEFAULT_SAFETY_SETTINGS, ...config.safety };
+}
+
+//? Refuses spending `dollars` more when it would break a cap set with set-spend-cap or set-safety daily-cap. `spent` is what the command already spent this run
+function check_caps(source: string, dollars: number, spent = 0) {
+    const reason = check_spend(safety_settings(), source, dollars, spent, spent_today(read_journal(profile), profile));
+    if (reason != undefined) {
+        throw new TradeRefusedError(`Refusing to spend $${Math.round(dollars*100)/100}, ${reason}`);
+    }
+}
+
+//? Trades and bets worth more than confirmAbove ask first, see confirm_action
+function confirm_value(value: number, question: string, yes: boolean) {
+    const above = safety_settings().confirmAbove;
+    if (above != null && value > above && !confirm_action(question, yes)) {
+        throw new TradeRefusedError("Cancelled, nothing was traded");
+    }
+}
+
+async function quote(symbol: string, type: TradeType, amount: number): Promise<TradeQuote> {
+    return quote_trade((await client.coin(symbol)).coin, type, amount);
+}
+
+function fmt_quote(q: TradeQuote): string {
+    const money = (n: number) => `${chalk.yellow('$')}${chalk.yellowBright(Math.round(n*1000)/1000)}`;
+    const what = q.type == "BUY"
+        ? `${chalk.bgGreen('Buy')} ~${Math.round(q.coins*1000)/1000} ${chalk.bgWhite(q.symbol)} for ${money(q.value)}`
+        : `${chalk.bgRedBright('Sell')} ${q.coins} ${chalk.bgWhite(q.symbol)} for ~${money(q.value)}`;
+    return `${what} at ${money(q.avgPrice)} on average, moving the price ${Math.round(q.priceImpact*100)/100}% to ${money(q.newPrice)}`;
+}
+
+/**
+ * Makes a trade through the safety checks and journals it. The coin is quoted again right before trading and the trade
+ * is refused if that's more than maxSlippage worse than `expected`: the quote the user agreed to, compared by average
+ * price, or the price that set a watched order off, compared with the price now so the trade's own price impact doesn't
+ * count. Afterwards the price it actually got is compared with the quote, `exceeded` is set when it slipped too far so
+ * batches can stop.
+ */
+async function guarded_trade(source: string, symbol: string, type: TradeType, amount: number, expected?: TradeQuote | number) {
+    const max = safety_settings().maxSlippage;
+    const fresh = await quote(symbol, type, amount);
+    const [from, now] = typeof expected == "number" ? [expected, fresh.price] : [expected?.avgPrice, fresh.avgPrice];
+    const moved = from == undefined ? 0 : slippage({ ...fresh, avgPrice: from }, now);
+    if (max != null && moved > max) {
+        throw new TradeRefusedError(`Refusing to ${type.toLowerCase()} ${fresh.symbol}, it would trade ${Math.round(moved*100)/100}% worse than the $${fmt_price(from as number)} expected (max ${max}%)`);
+    }
+    const result = await client.trade(symbol, type, amount);
+    if (type == "BUY") {
+        record({ action: "BUY", source, symbol, amount, coins: result.coinsBought, value: result.totalCost ?? amount, price: result.newPrice, balance: result.newBalance });
+    } else {
+        record({ action: "SELL", source, symbol, amount, coins: result.coinsSold ?? amount, value: result.totalReceived ?? 0, price: result.newPrice, balance: result.newBalance });
+    }
+    const price = executed_price(result);
+    const slipped = price == undefined ? undefined : slippage(fresh, price);
+    const exceeded = max != null && slipped != undefined && slipped > max;
+    if (exceeded) {
+        console.error(`${chalk.yellow('Warning')}: ${chalk.bgWhite(fresh.symbol)} traded ${Math.round(slipped*100)/100}% worse than quoted, over your max slippage of ${max}%`);
+    }
+    return { result, quote: fresh, slippage: slipped, exceeded };
+}
+
+//? Colors a change percentage: green going up, gray when flat and red going down
+function fmt_change(change: number): string {
+    if (change > 0) {
+        return chalk.bgGreen('^ '+change);
+    } else if (change == 0) {
+        return chalk.bgGray('- '+change);
+    }
+    return chalk.bgRedBright('v '+change);
+}
 
 async function mk_file(path: string): Promise<File> {
     const fileBytes = await Deno.readFile(path);
@@ -89,604 +489,2164 @@ async function mk_file(path: string): Promise<File> {
     });
 }
 
-// deno-lint-ignore no-explicit-any
-async function me(): Promise<Record<any, any>|undefined> {
-    const req = await fetch(
-        "https://rugplay.com/__data.json?x-sveltekit-trailing-slash=1&x-sveltekit-invalidated=10",
-        {
-            method: "GET",
-            headers: {
-                //? Fake user agent I got from Gemini
-                "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/125.0.0.0 Safari/537.36",
-                "Cookie": config.cookie,
-                "Accept-Language": "en-US,en;q=0.9", //? Assuming English
-                "Origin": "https://rugplay.com", //? Make the Rugplay API think we're from the rugplay website
-            },
-        }
-    )
-    if (!req.ok) {
-        console.log(`${chalk.redBright('API ERROR')}:`);
-        console.log(await req.text());
-        return undefined;
-    }
-
-    return await req.json();
-}
-
-let commands: Map<string, Command> = new Map()
+export const commands: Map<string, Command> = new Map()
     .set("commands", {
-        desc: "lists commands",
-        args: [], callback: async (args: string[]): Promise<void> => {
-            console.log("Available commands:");
-            for (const [k,v] of commands) {
-                let args_buf = "";
-                for (let i=0; i<v.args.length; i++) {
-                    args_buf += v.args[i];
-                    if (i+1<v.args.length) {
-                        args_buf += ", ";
+        desc: "lists commands, type 'help <command>' to see how to use one",
+        args: [], callback: (_args: Args): void => {
+            render({
+                data: [...commands].map(([name, v]) => ({ name, usage: usage(name, v), args: v.args, options: v.options ?? [], desc: v.desc, plugin: v.plugin })),
+                rows: [...commands].map(([name, v]) => ({ name, usage: usage(name, v), desc: v.desc, plugin: v.plugin ?? "" })),
+                text: () => {
+                    console.log("Available commands:");
+                    for (const [k,v] of commands) {
+                        let args_buf = "";
+                        for (let i=0; i<v.args.length; i++) {
+                            args_buf += v.args[i].name;
+                            if (i+1<v.args.length) {
+                                args_buf += ", ";
+                            }
+                        }
+                        console.log(`${chalk.bold(k)}(${args_buf})${v.plugin ? chalk.gray(' ['+v.plugin+']') : ''}:`, v.desc);
                     }
-                }
-                console.log(`${chalk.bold(k)}(${args_buf}):`, v.desc);
+                },
+            });
+        }
+    })
+    .set("help", {
+        desc: "shows how to use a command, with its arguments, options and their defaults",
+        args: [{ name: "command", optional: true, desc: "lists every command when left out" }],
+        callback: async (args: Args): Promise<void> => {
+            const name = args.command as string | undefined;
+            if (name == undefined) {
+                await commands.get("commands")?.callback({});
+                return;
             }
+            const command = commands.get(name);
+            if (command == undefined) {
+                throw new Error(`Command "${name}" does not exist, type 'commands' to list commands`);
+            }
+            const lines = describe_args(command);
+            render({
+                data: { name, usage: usage(name, command), desc: command.desc, args: command.args, options: command.options ?? [] },
+                rows: lines,
+                text: () => {
+                    console.log(`Usage: ${chalk.bold(usage(name, command))}`);
+                    console.log(command.desc);
+                    const pad = Math.max(...lines.map((l) => l.name.length));
+                    for (const l of lines) {
+                        console.log(`  ${l.name.padEnd(pad)}  ${l.desc}`);
+                    }
+                },
+            });
+        }
+    })
+    .set("plugins", {
+        desc: "lists the plugins loaded from your plugin directory, the commands they added and why any failed to load",
+        args: [], callback: (_args: Args): void => {
+            render({
+                data: { dir: getPluginDir(config), plugins },
+                rows: plugins.map((p) => ({ name: p.name, file: p.file, commands: p.commands.join(" "), error: p.error ?? "" })),
+                text: () => {
+                    if (plugins.length == 0) {
+                        console.log(`No plugins in ${getPluginDir(config)}`);
+                        return;
+                    }
+                    for (const p of plugins) {
+                        if (p.error != undefined) {
+                            console.log(`${chalk.bold(p.name)} ${chalk.redBright('failed')}: ${p.error}`);
+                        } else {
+                            console.log(`${chalk.bold(p.name)}: ${p.commands.length == 0 ? 'no commands' : p.commands.join(', ')}`);
+                        }
+                    }
+                },
+            });
         }
     })
     .set("set-cookie", { 
-        desc: "sets your cookie for API requests, you can find this in the request headers on rugplay.com in network",
-        args: ["new-cookie"], callback: async (args: string[]): Promise<void> => {
-            let cookie = args.shift();
-            while (args.length >= 1) {
-                cookie += ` ${args.shift()}`;
-            }
-            config.cookie = cookie as string;
-            console.log(`Set cookie ${chalk.greenBright('successfully')}.`);
+        desc: "sets your cookie for API requests after checking it logs in, you can find this in the request headers on rugplay.com in network",
+        args: [{ name: "new-cookie", rest: true, desc: "the whole Cookie header, quoting it is optional" }],
+        options: [{ name: "no-verify", type: "flag", desc: "saves the cookie without logging in with it first" }],
+        callback: async (args: Args): Promise<void> => {
+            const cookie = (args["new-cookie"] as string[]).join(" ");
+            const username = args["no-verify"] ? undefined : await verify_cookie(cookie);
+            config.profiles[profile].cookie = cookie;
+            client.cookie = cookie;
             writeConfig(config);
+            render({
+                data: { success: true, profile, username },
+                text: () => console.log(`Set cookie for ${chalk.bold(profile)} ${chalk.greenBright('successfully')}${username == undefined ? '' : `, logged in as @${chalk.bold(username)}`}.`),
+            });
         }
     })
-    .set("coinflip", {
-        desc: "attempts a coinflip on your account with the given side (0=heads, 1=tails) and amount",
-        args: ["attempted-side", "amount"], callback: async (args: string[]): Promise<void> => {
-            const side = args.shift()=='1'?'tails':'heads';
-            const amount = parseFloat(args.shift()??'0.01');
-            const a = await api_req(
-                'gambling/coinflip',
-                'POST',
-                JSON.stringify({ side, amount })
-            );
-            if (a==undefined) {
-                return;
+    .set("set-base-url", {
+        desc: "points the CLI at another Rugplay server (like the mock in mock/server.ts), 'default' goes back to rugplay.com",
+        args: [{ name: "url", desc: "the server's address, or default" }],
+        callback: (args: Args): void => {
+            const url = args.url as string;
+            if (url == 'default') {
+                delete config.baseUrl;
+            } else {
+                new URL(url); //? Throws on anything that isn't a URL
+                config.baseUrl = url.replace(/\/+$/, "");
             }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
+            writeConfig(config);
+            client.baseUrl = base_url(config) ?? BASE_URL;
+            render({
+                data: { success: true, baseUrl: client.baseUrl },
+                text: () => console.log(`Now using ${chalk.bold(client.baseUrl)}.`),
+            });
+        }
+    })
+    .set("profiles", {
+        desc: "lists your account profiles, the active one is marked with *",
+        args: [], callback: (_args: Args): void => {
+            const rows = Object.entries(config.profiles).map(([name, p]) => ({
+                name,
+                active: name == config.active,
+                hasCookie: p.cookie != "unknown",
+            }));
+            render({
+                data: rows,
+                rows,
+                text: () => {
+                    console.log(chalk.bold('Profiles'));
+                    for (const r of rows) {
+                        console.log(`${r.active ? chalk.greenBright('*') : ' '} ${chalk.bold(r.name)}${r.hasCookie ? '' : chalk.italic(' (no cookie set)')}`);
+                    }
+                },
+            });
+        }
+    })
+    .set("profile-add", {
+        desc: "adds a new account profile with the given cookie",
+        args: [{ name: "name" }, { name: "cookie", rest: true, desc: "the whole Cookie header, quoting it is optional" }],
+        options: [{ name: "no-verify", type: "flag", desc: "saves the cookie without logging in with it first" }],
+        callback: async (args: Args): Promise<void> => {
+            const name = args.name as string;
+            if (name in config.profiles) {
+                throw new Error(`Profile "${name}" already exists, use 'set-cookie --profile ${name}' to change its cookie`);
             }
-            const json = await a.json();
-            if (!json.won) {
-                console.log(`You ${chalk.redBright('lost')}.`);
-                console.log(`New balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.newBalance*1000)/1000)} (-${chalk.redBright(amount)})`);
-            } else {
-                console.log(`You ${chalk.greenBright('won')}!`);
-                console.log(`New balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.newBalance*1000)/1000)} (+${chalk.yellowBright(json.payout)})`);
+            const cookie = (args.cookie as string[]).join(" ");
+            const username = args["no-verify"] ? undefined : await verify_cookie(cookie);
+            config.profiles[name] = { cookie };
+            writeConfig(config);
+            render({
+                data: { success: true, profile: name, username },
+                text: () => console.log(`Added profile ${chalk.bold(name)}${username == undefined ? '' : ` for @${chalk.bold(username)}`} ${chalk.greenBright('successfully')}. Type 'profile-use ${name}' to switch to it.`),
+            });
+        }
+    })
+    .set("profile-use", {
+        desc: "switches the active account profile",
+        args: [{ name: "name" }], callback: (args: Args): void => {
+            const name = args.name as string;
+            use_profile(name);
+            config.active = name;
+            writeConfig(config);
+            render({
+                data: { success: true, profile: name },
+                text: () => console.log(`Switched to ${chalk.bold(name)}.`),
+            });
+        }
+    })
+    .set("profile-remove", {
+        desc: "removes an account profile (you can't remove the active one)",
+        args: [{ name: "name" }], callback: (args: Args): void => {
+            const name = args.name as string;
+            if (!(name in config.profiles)) {
+                throw new Error(`Profile "${name}" does not exist, type 'profiles' to list them`);
+            }
+            if (name == config.active || name == profile) {
+                throw new Error(`Profile "${name}" is in use, switch to another profile first`);
+            }
+            delete config.profiles[name];
+            writeConfig(config);
+            render({
+                data: { success: true, profile: name },
+                text: () => console.log(`Removed profile ${chalk.bold(name)}.`),
+            });
+        }
+    })
+    .set("set-passphrase", {
+        desc: "encrypts the cookies of every profile with a passphrase, which is then asked for at startup (or read from RUGPLAY_PASSPHRASE). Run it again to change the passphrase",
+        args: [], callback: (_args: Args): void => {
+            const passphrase = ask_passphrase("New passphrase:");
+            if (passphrase.length < 8) {
+                throw new Error("The passphrase needs at least 8 characters");
+            }
+            if (!Deno.env.get("RUGPLAY_PASSPHRASE") && ask_passphrase("Again:") != passphrase) {
+                throw new Error("The passphrases don't match");
             }
+            set_passphrase(config, passphrase);
+            render({
+                data: { success: true, encrypted: true },
+                text: () => console.log(`Your cookies are ${chalk.greenBright('encrypted')}. Don't lose the passphrase, the cookies can't be recovered without it.`),
+            });
+        }
+    })
+    .set("remove-passphrase", {
+        desc: "stores your cookies unencrypted again",
+        args: [], callback: (_args: Args): void => {
+            if (config.vault == undefined) {
+                throw new Error("Your cookies aren't encrypted");
+            }
+            set_passphrase(config, undefined);
+            render({
+                data: { success: true, encrypted: false },
+                text: () => console.log(`Your cookies are stored ${chalk.yellowBright('unencrypted')} again.`),
+            });
+        }
+    })
+    .set("coinflip", {
+        desc: "attempts a coinflip on your account with the given side (heads or 0, tails or 1) and amount",
+        args: [{ name: "attempted-side", type: "side" }, { name: "amount", type: "amount", desc: "dollars to bet" }],
+        options: [{ name: "yes", type: "flag", desc: "doesn't ask before betting" }],
+        callback: async (args: Args): Promise<void> => {
+            const side = args["attempted-side"] as "heads" | "tails";
+            const amount = args.amount as number;
+            check_caps("coinflip", amount);
+            confirm_value(amount, `Bet $${amount} on ${side}?`, args.yes as boolean);
+            const json = await client.coinflip(side, amount);
+            record({ action: "COINFLIP", source: "coinflip", amount, value: json.payout, won: json.won, balance: json.newBalance });
+            render({
+                data: { side, amount, ...json },
+                text: () => {
+                    if (!json.won) {
+                        console.log(`You ${chalk.redBright('lost')}.`);
+                        console.log(`New balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.newBalance*1000)/1000)} (-${chalk.redBright(amount)})`);
+                    } else {
+                        console.log(`You ${chalk.greenBright('won')}!`);
+                        console.log(`New balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.newBalance*1000)/1000)} (+${chalk.yellowBright(json.payout)})`);
+                    }
+                },
+            });
         }
     })
     .set("slots", {
         desc: "attempts a slot machine roll on your account with the given amount",
-        args: ["amount"], callback: async (args: string[]): Promise<void> => {
-            const amount = parseFloat(args.shift()??'0.01');
-            const a = await api_req(
-                'gambling/slots',
-                'POST',
-                JSON.stringify({ amount })
-            );
-            if (a==undefined) {
-                return;
-            }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
+        args: [{ name: "amount", type: "amount", desc: "dollars to bet" }],
+        options: [{ name: "yes", type: "flag", desc: "doesn't ask before betting" }],
+        callback: async (args: Args): Promise<void> => {
+            const amount = args.amount as number;
+            check_caps("slots", amount);
+            confirm_value(amount, `Bet $${amount} on the slots?`, args.yes as boolean);
+            const json = await client.slots(amount);
+            record({ action: "SLOTS", source: "slots", amount, value: json.payout, won: json.won, balance: json.newBalance });
+            render({
+                data: { amount, ...json },
+                text: () => {
+                    console.log(slot_record[json.symbols[0]], slot_record[json.symbols[1]], slot_record[json.symbols[2]]);
+                    if (!json.won) {
+                        console.log(`You ${chalk.redBright('lost')}.`);
+                        console.log(`New balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.newBalance*1000)/1000)} (-${chalk.redBright(amount)})`);
+                    } else {
+                        console.log(`You ${chalk.greenBright('won')}!`);
+                        console.log(`New balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.newBalance*1000)/1000)} (+${chalk.yellowBright(json.payout)})`);
+                    }
+                },
+            });
+        }
+    })
+    .set("gamble-session", {
+        desc: "bets over many rounds with a strategy until --rounds, --stop-loss or --take-profit is hit, or try it without real money with --simulate",
+        args: [
+            { name: "game", choices: ["coinflip", "slots"] },
+            { name: "strategy", choices: STRATEGIES },
+            { name: "base-bet", type: "amount", desc: "the first bet, in dollars" },
+        ],
+        options: [
+            { name: "rounds", type: "integer", min: 1, default: 10, desc: "stop after this many bets" },
+            { name: "stop-loss", type: "amount", desc: "stop once this much is lost" },
+            { name: "take-profit", type: "amount", desc: "stop once this much is won" },
+            { name: "max-bet", type: "amount", desc: "never bet more than this" },
+            { name: "side", type: "side", default: "heads", desc: "what to call in coinflip" },
+            { name: "fraction", type: "number", min: 0, max: 1, default: 0.01, desc: "the share of the balance kelly bets" },
+            { name: "simulate", type: "flag", desc: "plays against a simulated house instead" },
+            { name: "seed", type: "integer", default: 1, desc: "random seed for --simulate" },
+            { name: "runs", type: "integer", min: 1, default: 1000, desc: "sessions to simulate" },
+            { name: "balance", type: "amount", default: 1000, desc: "starting balance of simulated sessions" },
+            { name: "yes", type: "flag", desc: "doesn't ask before betting" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const game = args.game as Game;
+            const strategy = args.strategy as StrategyName;
+            const seed = args.seed as number;
+            const runs = args.runs as number;
+            const sim_balance = args.balance as number;
+            const session: SessionOptions = {
+                game,
+                side: args.side as "heads" | "tails",
+                strategy: make_strategy(strategy, args.fraction as number),
+                base: args["base-bet"] as number,
+                maxRounds: args.rounds as number,
+                stopLoss: args["stop-loss"] as number | undefined,
+                takeProfit: args["take-profit"] as number | undefined,
+                maxBet: args["max-bet"] as number | undefined,
+            };
+
+            if (args.simulate) {
+                const sim = await simulate(session, sim_balance, seed, runs);
+                const money = (n: number) => `${n < 0 ? '-' : ''}${chalk.yellow('$')}${chalk.yellowBright(Math.round(Math.abs(n)*1000)/1000)}`;
+                render({
+                    data: sim,
+                    text: () => {
+                        console.log(`${chalk.bold('Simulated')} ${runs} ${strategy} ${game} sessions from ${money(sim_balance)} (seed ${seed})`);
+                        console.log(`Mean net: ${money(sim.meanNet)}, median net: ${money(sim.medianNet)}`);
+                        console.log(`Profitable: ${Math.round(sim.profitable*1000)/10}%, busted: ${Math.round(sim.ruined*1000)/10}%`);
+                        console.log(`Mean rounds: ${Math.round(sim.meanRounds*10)/10}, mean max drawdown: ${money(sim.meanDrawdown)}`);
+                        console.log(`Expected return per $1 bet: ${chalk.yellow('$')}${chalk.yellowBright(Math.round(sim.expectedReturn*10000)/10000)}`);
+                        if (sim.kellyFraction <= 0) {
+                            console.log(`${chalk.redBright('The house has the edge')} in ${game}, Kelly says the best bet is no bet.`);
+                        }
+                    },
+                });
                 return;
             }
-            const json = await a.json();
-            console.log(slot_record[json.symbols[0]], slot_record[json.symbols[1]], slot_record[json.symbols[2]]);
-            if (!json.won) {
-                console.log(`You ${chalk.redBright('lost')}.`);
-                console.log(`New balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.newBalance*1000)/1000)} (-${chalk.redBright(amount)})`);
-            } else {
-                console.log(`You ${chalk.greenBright('won')}!`);
-                console.log(`New balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.newBalance*1000)/1000)} (+${chalk.yellowBright(json.payout)})`);
-            }
+
+            const start = (await client.portfolioSummary()).baseCurrencyBalance;
+            //? Without a stop loss the whole balance is at stake
+            const exposure = session.stopLoss ?? start;
+            confirm_value(exposure, `Bet up to $${Math.round(exposure*100)/100} over ${session.maxRounds} rounds of ${game}?`, args.yes as boolean);
+            let spent = 0;
+            const bettor: Bettor = async (game, side, amount) => {
+                check_caps("gamble-session", amount, spent);
+                spent += amount;
+                if (game == "coinflip") {
+                    const json = await client.coinflip(side, amount);
+                    record({ action: "COINFLIP", source: "gamble-session", amount, value: json.payout, won: json.won, balance: json.newBalance });
+                    return json;
+                }
+                const json = await client.slots(amount);
+                record({ action: "SLOTS", source: "gamble-session", amount, value: json.payout, won: json.won, balance: json.newBalance });
+                return json;
+            };
+            const result = await run_session(session, bettor, start, (r) => {
+                if (is_text()) {
+                    console.log(`  #${r.round} bet ${chalk.yellow('$')}${chalk.yellowBright(r.bet)} ${r.won ? chalk.greenBright('won') : chalk.redBright('lost')}, balance ${chalk.yellow('$')}${chalk.yellowBright(Math.round(r.balance*1000)/1000)}`);
+                }
+            });
+            render({
+                data: result,
+                rows: result.rounds,
+                text: () => {
+                    const net = result.net >= 0 ? chalk.greenBright('+$'+Math.round(result.net*1000)/1000) : chalk.redBright('-$'+Math.round(-result.net*1000)/1000);
+                    console.log(`Stopped after ${result.rounds.length} rounds (${result.stopReason}), won ${result.wins}. Net: ${net}`);
+                },
+            });
         }
     })
     .set("summary", {
         desc: "returns a summary of your portfolio",
-        args: [], callback: async (_args: string[]): Promise<void> => {
-            const a = await api_req(
-                'portfolio/summary',
-                'GET'
-            );
-            if (a==undefined) {
-                return;
-            }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
-            }
-            const json = await a.json();
-            console.log(`${chalk.bold('Portfolio')} Summary`);
-            console.log(`Balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.baseCurrencyBalance*1000)/1000)}`);
-            console.log(`Total coin value: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.totalCoinValue*1000)/1000)}`);
-            console.log(`Total value: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.totalValue*1000)/1000)}`);
+        args: [], callback: async (_args: Args): Promise<void> => {
+            const json = await client.portfolioSummary();
+            render({
+                data: json,
+                text: () => {
+                    console.log(`${chalk.bold('Portfolio')} Summary`);
+                    console.log(`Balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.baseCurrencyBalance*1000)/1000)}`);
+                    console.log(`Total coin value: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.totalCoinValue*1000)/1000)}`);
+                    console.log(`Total value: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.totalValue*1000)/1000)}`);
+                },
+            });
         }
     })
     .set("redeem", {
         desc: "redeems promotion code",
-        args: ["code"], callback: async (args: string[]): Promise<void> => {
-            const a = await api_req(
-                'promo/verify',
-                'POST',
-                JSON.stringify({ code: args.shift() })
-            );
-            if (a==undefined) {
-                return;
-            }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
-            }
-            const json = await a.json();
-            console.log(json.message);
+        args: [{ name: "code" }], callback: async (args: Args): Promise<void> => {
+            const json = await client.redeemPromo(args.code as string);
+            render({
+                data: json,
+                text: () => console.log(json.message),
+            });
         }
     })
     .set("new-coin", {
-        desc: "attempts to create a new coin",
-        args: ["name", "symbol", "icon-path"], callback: async (args: string[]): Promise<void> => {
-            if (args.length != 3) {
-                console.log('Invalid argument length');
-                return;
-            }
-            const form = new FormData();
-            form.append('name', args.shift() as string);
-            form.append('symbol', args.shift() as string);
+        desc: "attempts to create a new coin, quote the name if it has spaces",
+        args: [{ name: "name" }, { name: "symbol", type: "symbol" }, { name: "icon-path", desc: "an image on your computer" }],
+        callback: async (args: Args): Promise<void> => {
+            const name = args.name as string;
+            const symbol = args.symbol as string;
+            let icon: File;
             try {
-                form.append('icon', await mk_file(args.shift() as string));
+                icon = await mk_file(args["icon-path"] as string);
             } catch (e) {
                 console.log(`${chalk.redBright('Error whilst creating logo file')}:`);
                 console.log(e);
                 return;
             }
-
-            const a = await api_req(
-                'coin/create',
-                'POST',
-                form
-            );
-            if (a==undefined) {
-                return;
-            }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
-            }
-            const json = await a.json();
-            console.log(`${chalk.greenBright('Created')} ${chalk.bgWhite(json.coin.symbol)} (-${chalk.redBright(json.feePaid)})\n${json.message}`);
+            const json = await client.createCoin(name, symbol, icon);
+            render({
+                data: json,
+                text: () => console.log(`${chalk.greenBright('Created')} ${chalk.bgWhite(json.coin.symbol)} (-${chalk.redBright(json.feePaid)})\n${json.message}`),
+            });
         }
     })
     .set("settings", {
         desc: "updates your user settings (set fields to 'none' if you don't want to update them) note: updating the profile picture is slow and takes 10-20 minutes for Rugplay to update it, also it takes a path on your computer",
-        args: ["name", "username", "avatar", "bio"], callback: async (args: string[]): Promise<void> => {
-            if (args.length < 4) {
-                console.log('Invalid command parameters');
-                return;
-            }
-
-            const u = await me();
-            if (u==undefined) {
-                return;
-            }
-            
-            const form = new FormData();
-            const name = args.shift() as string;
+        args: [
+            { name: "name", desc: "your display name, quoted if it has spaces" },
+            { name: "username" },
+            { name: "avatar", desc: "an image on your computer" },
+            { name: "bio", rest: true },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const settings: SettingsUpdate & { name: string } = { name: (await client.me()).name };
+            const name = args.name as string;
             if (name != 'none') {
-                form.append('name', name);
-            } else {
-                form.append('name', u.nodes[0].data[3]);
+                settings.name = name;
             }
-            const user = args.shift() as string;
+            const user = args.username as string;
             if (user != 'none') {
-                form.append('username', user);
+                settings.username = user;
             }
-            const filePath = args.shift() as string;
+            const filePath = args.avatar as string;
             if (filePath != 'none') {
                 try {
-                    form.append('avatar', await mk_file(filePath));
+                    settings.avatar = await mk_file(filePath);
                 } catch (err) {
                     console.log(`${chalk.redBright('Error whilst creating File:')}`);
                     console.log(err);
                     return;
                 }
             }
-            let bio = args.shift() as string;
+            const bio = (args.bio as string[]).join(" ");
             if (bio != 'none') {
-                while (args.length >= 1) {
-                    bio += ` ${args.shift()}`;
-                }
-                form.append('bio', bio);
-            }
-            const a = await api_req(
-                'settings',
-                'POST',
-                form
-            );
-            if (a==undefined) {
-                return;
+                settings.bio = bio;
             }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
-            }
-            console.log(chalk.greenBright('Updated settings'));
+            const json = await client.updateSettings(settings);
+            render({
+                data: json,
+                text: () => console.log(chalk.greenBright('Updated settings')),
+            });
         }
     })
     .set("me", {
-        desc: "returns things like your username, id, etc.",
-        args: [], callback: async (_args: string[]): Promise<void> => {
-            const json = await me();
-            if (json==undefined) {
-                return;
-            }
-            console.log(`${chalk.bold(json.nodes[0].data[3])} ${chalk.italic('(@'+json.nodes[0].data[4]+')')}\n${json.nodes[0].data[10]}`);
+        desc: "shows your account: name, username, id, balance, email, login streak, ...",
+        args: [], callback: async (_args: Args): Promise<void> => {
+            const user = await client.me();
+            render({
+                data: user,
+                text: () => {
+                    console.log(`${chalk.bold(user.name)} ${chalk.italic('(@'+user.username+')')}${user.isAdmin ? ' '+chalk.magentaBright('admin') : ''}`);
+                    if (user.bio != null && user.bio != '') {
+                        console.log(user.bio);
+                    }
+                    console.log(`Id: ${user.id}`);
+                    console.log(`Balance: ${chalk.yellow('$')}${chalk.yellowBright(user.baseCurrencyBalance)}`);
+                    if (user.email != null) {
+                        console.log(`Email: ${user.email}`);
+                    }
+                    if (user.loginStreak != null) {
+                        console.log(`Login streak: ${user.loginStreak} days`);
+                    }
+                    if (user.createdAt != null) {
+                        console.log(`Joined: ${new Date(user.createdAt).toLocaleDateString()}`);
+                    }
+                    if (user.image != null) {
+                        console.log(`Avatar: ${user.image}`);
+                    }
+                    if (user.isBanned) {
+                        console.log(chalk.redBright(`Banned${user.banReason ? ': '+user.banReason : ''}`));
+                    }
+                },
+            });
         }
     })
     .set("daily-reward", {
         desc: "attempts to claim daily reward",
-        args: [], callback: async (_args: string[]): Promise<void> => {
-            const a = await api_req(
-                'rewards/claim',
-                'POST'
-            );
-            if (a==undefined) {
-                return;
-            }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
-            }
-            const json = await a.json();
-            console.log(`${chalk.greenBright('Redeemed')} ${json.totalRewardsClaimed} rewards\nNew balance: ${chalk.yellow('$')}${chalk.yellowBright(json.newBalance)} (+${chalk.yellowBright(json.rewardAmount)})`);
+        args: [], callback: async (_args: Args): Promise<void> => {
+            const json = await client.claimReward();
+            render({
+                data: json,
+                text: () => console.log(`${chalk.greenBright('Redeemed')} ${json.totalRewardsClaimed} rewards\nNew balance: ${chalk.yellow('$')}${chalk.yellowBright(json.newBalance)} (+${chalk.yellowBright(json.rewardAmount)})`),
+            });
         },
     })
     .set("notifications", {
-        desc: "lists notifications",
-        args: [], callback: async (_args: string[]): Promise<void> => {
-            const a = await api_req(
-                'notifications',
-                'GET'
-            );
-            if (a==undefined) {
+        desc: "lists your notifications, newest first, a page at a time. --follow keeps polling and prints new ones as they come in, forwarding them to the hooks set with set-notification-hook",
+        args: [{ name: "page", type: "integer", min: 1, optional: true, default: 1 }],
+        options: [
+            { name: "type", value: "TYPE,TYPE", desc: "only these types, e.g. TRANSFER" },
+            { name: "unread", type: "flag", desc: "only unread ones" },
+            { name: "limit", type: "integer", min: 1, max: 50, default: 20, desc: "notifications per page" },
+            { name: "follow", type: "flag", desc: "keeps printing new notifications until stopped" },
+            { name: "interval", type: "number", min: 0, default: 30, desc: "seconds between polls with --follow" },
+            { name: "ticks", type: "integer", min: 1, desc: "stops --follow after this many polls" },
+            { name: "webhook", value: "url", desc: "POSTs new notifications to this local URL instead of the configured one" },
+            { name: "exec", value: "command", desc: "pipes new notifications into this shell command instead of the configured one" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const filter: NotificationFilter = { types: parse_symbols(args.type as string | undefined), unread: args.unread as boolean };
+            const limit = args.limit as number;
+            if (args.follow) {
+                const hooks: NotificationHooks = {
+                    webhook: (args.webhook as string | undefined) ?? config.notificationHooks?.webhook,
+                    command: (args.exec as string | undefined) ?? config.notificationHooks?.command,
+                };
+                if (hooks.webhook != undefined) {
+                    check_webhook(hooks.webhook);
+                }
+                await follow_notifications(filter, hooks, args.interval as number, (args.ticks as number | undefined) ?? Infinity);
                 return;
             }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
+
+            const page = args.page as number;
+            let notifications: Notification[], unreadCount: number, total: number | undefined;
+            //? Rugplay can't filter, so filtered pages are cut out of the whole list
+            if (filter.types.length == 0 && !filter.unread) {
+                ({ notifications, unreadCount } = await client.notifications(limit, (page - 1) * limit));
+            } else {
+                const all = await all_notifications(client);
+                const matching = filter_notifications(all, filter);
+                notifications = matching.slice((page - 1) * limit, page * limit);
+                unreadCount = all.filter((n) => !n.isRead).length;
+                total = matching.length;
             }
-            const json = await a.json();
-            console.log(`${chalk.bold("Notifications")} ${chalk.bgRedBright(json.unreadCount)}`);
-            console.log(`${chalk.italic('Unread')}`);
-            for (const notif of json.notifications) {
-                if (!notif.isRead) {
-                    console.log(`${chalk.bold(notif.title)}\n${notif.message}`);
-                }
+            render({
+                data: { notifications, unreadCount, page, limit, total },
+                rows: notifications,
+                text: () => {
+                    console.log(`${chalk.bold("Notifications")} ${chalk.bgRedBright(unreadCount)}`);
+                    if (notifications.length == 0) {
+                        console.log(page == 1 ? 'Nothing here.' : `Nothing on page ${page}.`);
+                    }
+                    for (const n of notifications) {
+                        console.log(fmt_notification(n));
+                    }
+                    if (total == undefined ? notifications.length == limit : page * limit < total) {
+                        console.log(chalk.gray(`More on page ${page + 1}`));
+                    }
+                },
+            });
+        }
+    })
+    .set("mark-read", {
+        desc: "marks notifications as read by their ids, as shown by notifications",
+        args: [{ name: "ids", type: "integer", rest: true }],
+        callback: async (args: Args): Promise<void> => {
+            const ids = args.ids as number[];
+            if (ids.length == 0) {
+                throw new UsageError("Give at least one notification id, or use mark-all-read");
             }
-            console.log(`${chalk.italic('Read')}`);
-            for (const notif of json.notifications) {
-                if (notif.isRead) {
-                    console.log(`${chalk.bold(notif.title)}\n${notif.message}`);
-                }
+            const json = await client.markNotificationsRead(ids);
+            render({
+                data: { ids, ...json },
+                text: () => console.log(`Marked ${ids.map((id) => '#'+id).join(", ")} as read.`),
+            });
+        }
+    })
+    .set("mark-all-read", {
+        desc: "marks every notification as read",
+        args: [], callback: async (_args: Args): Promise<void> => {
+            const json = await client.markNotificationsRead();
+            render({
+                data: json,
+                text: () => console.log('Marked every notification as read.'),
+            });
+        }
+    })
+    .set("set-notification-hook", {
+        desc: "sets where notifications --follow forwards new notifications as JSON: a webhook URL on this machine it's POSTed to, or a shell command it's piped into",
+        args: [
+            { name: "hook", choices: ["webhook", "command"] },
+            { name: "value", desc: "the URL or command, or none to remove it" },
+        ],
+        callback: (args: Args): void => {
+            const hook = args.hook as keyof NotificationHooks;
+            const raw = args.value as string;
+            const value = raw.toLowerCase() == "none" ? undefined : raw;
+            if (hook == "webhook" && value != undefined) {
+                check_webhook(value);
             }
+            config.notificationHooks = { ...config.notificationHooks, [hook]: value };
+            writeConfig(config);
+            render({
+                data: config.notificationHooks,
+                text: () => console.log(value == undefined ? `Removed the ${hook}.` : `New notifications will be forwarded to the ${hook} ${chalk.bold(value)} while following them.`),
+            });
         }
     })
     .set("invest", {
-        desc: "invests in the most possible coins with a given budget and amount to spend on each coin",
-        args: ["budget", "amt", "page"], callback: async (args: string[]): Promise<void> => {
-            if (args.length < 2) {
-                console.log("Invald paramteres to command");
+        desc: "invests the most possible coins with a given budget and average amount to spend on each coin, checking their rug risk first (see set-risk)",
+        args: [
+            { name: "budget", type: "amount" },
+            { name: "amt", type: "amount", desc: "dollars per coin on average" },
+            { name: "page", type: "integer", min: 1, optional: true, default: 1, desc: "the marketplace page to pick coins from" },
+        ],
+        options: [
+            { name: "strategy", choices: ALLOCATIONS, default: "equal", desc: "how the budget is split" },
+            { name: "exclude", value: "SYM,SYM", desc: "coins to leave out" },
+            { name: "dry-run", type: "flag", desc: "only prints the plan" },
+            { name: "force", type: "flag", desc: "skips the rug risk check" },
+            { name: "yes", type: "flag", desc: "doesn't ask before investing" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const allocation = args.strategy as Allocation;
+            const exclude = parse_symbols(args.exclude as string | undefined);
+            const dry_run = args["dry-run"] as boolean;
+            const force = args.force as boolean;
+            const amount = args.amt as number;
+            const limit = Math.floor((args.budget as number)/amount);
+            const page = args.page as number;
+            //? Momentum looks at the biggest gainers rather than the biggest coins
+            //? Twice as many coins as needed, so there are others to pick when some are refused for their rug risk
+            const json = await client.market(allocation == "momentum"
+                ? { page, limit: limit*2 + exclude.length, sortBy: "change24h", changeFilter: "gainers" }
+                : { page, limit: limit*2 + exclude.length });
+            const risky: string[] = [];
+            let accepted = 0;
+            for (const c of json.coins) {
+                if (accepted >= limit) {
+                    break;
+                }
+                if (exclude.includes(c.symbol.toUpperCase()) || (allocation == "momentum" && c.change24h <= 0)) {
+                    continue;
+                }
+                if ((await check_risk(c.symbol, force)).refused) {
+                    risky.push(c.symbol.toUpperCase());
+                } else {
+                    accepted++;
+                }
+            }
+            const plan = plan_allocation(json.coins, limit*amount, limit, allocation, [...exclude, ...risky]);
+            if (plan.length == 0) {
+                throw new Error("No coins to invest in");
+            }
+            if (dry_run) {
+                render({
+                    data: plan,
+                    rows: plan,
+                    text: () => {
+                        console.log(`Would invest ${chalk.yellow('$')}${chalk.yellowBright(Math.round(plan.reduce((a, p) => a + p.amount, 0)*100)/100)} in ${chalk.greenBright(plan.length)} coins (${allocation})`);
+                        for (const p of plan) {
+                            console.log(`  ${chalk.bgWhite(p.symbol)} ${chalk.yellow('$')}${chalk.yellowBright(p.amount)} (${Math.round(p.weight*1000)/10}%) at ${chalk.yellow('$')}${chalk.yellowBright(Math.round(p.price*1000)/1000)}`);
+                        }
+                    },
+                });
                 return;
             }
 
-            const budget = parseFloat(args.shift() as string);
-            if (Number.isNaN(budget)) {
-                return;
+            const total = plan.reduce((a, p) => a + p.amount, 0);
+            check_caps("invest", total);
+            confirm_value(total, `Invest $${Math.round(total*100)/100} in ${plan.length} coins?`, args.yes as boolean);
+
+            //? Trades print as they happen in text mode, the other formats get everything at once afterwards
+            if (is_text()) {
+                console.log(`Investing in ${chalk.greenBright(plan.length)} coins at the top of the marketplace (${allocation})`);
             }
-            const amount = parseFloat(args.shift() as string);
-            if (Number.isNaN(amount)) {
-                return;
+            const trades = [];
+            const failed: { symbol: string; amount: number; error: string }[] = [];
+            let balance: number | undefined;
+            //? A failed trade doesn't stop the rest of the basket, it's listed in the summary instead. Slipping too far does
+            for (const p of plan) {
+                try {
+                    const { result, exceeded } = await guarded_trade("invest", p.symbol, "BUY", p.amount);
+                    trades.push({ symbol: p.symbol, amount: p.amount, ...result });
+                    balance = result.newBalance;
+                    if (is_text()) {
+                        console.log(` Invested in ${chalk.bgWhite(p.symbol)} (-${chalk.redBright(p.amount)})`);
+                    }
+                    if (exceeded) {
+                        console.error(`Stopping before the other ${plan.length - trades.length - failed.length} coins`);
+                        break;
+                    }
+                } catch (err) {
+                    //? Every other trade would fail the same way
+                    if (err instanceof AuthExpiredError) {
+                        throw err;
+                    }
+                    const error = err instanceof Error ? err.message : String(err);
+                    failed.push({ symbol: p.symbol, amount: p.amount, error });
+                    if (is_text()) {
+                        console.log(` ${chalk.redBright('Failed')} to invest in ${chalk.bgWhite(p.symbol)}: ${error}`);
+                    }
+                }
             }
-            const limit = Math.floor(budget/amount);
-            const page = args.length == 0 ? "1" : args.shift();
-            let a = await api_req(
-                `market?search=&sortBy=marketCap&sortOrder=desc&priceFilter=all&changeFilter=all&page=${page}&limit=${limit}`,
-                'GET'
-            );
-            if (a==undefined) {
-                return;
+            const spent = trades.reduce((a, t) => a + (t.totalCost ?? t.amount), 0);
+            const summary = { strategy: allocation, planned: plan.length, bought: trades.length, spent, balance, trades, failed, refused: risky };
+            render({
+                data: summary,
+                rows: trades,
+                text: () => {
+                    console.log(`Bought ${chalk.greenBright(trades.length)}/${plan.length} coins for ${chalk.yellow('$')}${chalk.yellowBright(Math.round(spent*1000)/1000)}${balance == undefined ? '' : `, balance ${chalk.yellow('$')}${chalk.yellowBright(Math.round(balance*1000)/1000)}`}`);
+                    if (failed.length > 0) {
+                        console.log(`${chalk.redBright(failed.length)} failed: ${failed.map((f) => f.symbol).join(", ")}`);
+                    }
+                    if (risky.length > 0) {
+                        console.log(`Skipped ${risky.join(", ")} for being too risky`);
+                    }
+                },
+            });
+            if (trades.length == 0) {
+                throw new Error("Every trade failed");
             }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
+        }
+    })
+    .set("rebalance", {
+        desc: "trades your holdings toward target weights, e.g. rebalance BTCR=50 MOON=30 RUG=20",
+        args: [{ name: "weights", rest: true, desc: "SYMBOL=weight pairs, weights are relative" }],
+        options: [
+            { name: "cash", type: "number", min: 0, default: 0, desc: "more money to put in" },
+            { name: "threshold", type: "number", min: 0, default: 1, desc: "skips coins less than this many percent off target" },
+            { name: "sell-unlisted", type: "flag", desc: "sells every coin not listed" },
+            { name: "dry-run", type: "flag", desc: "only prints the plan" },
+            { name: "yes", type: "flag", desc: "doesn't ask before trading" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const cash = args.cash as number;
+            const threshold = (args.threshold as number) / 100;
+            const others = args["sell-unlisted"] as boolean;
+            const dry_run = args["dry-run"] as boolean;
+            const targets = parse_weights(args.weights as string[]);
+            const portfolio = await client.portfolioTotal();
+            if (cash > portfolio.baseCurrencyBalance) {
+                throw new Error(`--cash is more than your balance of $${portfolio.baseCurrencyBalance}`);
             }
-            const json = await a.json();
-            console.log(`Investing in ${chalk.greenBright(limit)} coins at the top of the marketplace`);
-            for (let i = 0; i<limit; i++){
-                const symbol = json.coins[i].symbol;
-                a = await api_req(
-                    `coin/${symbol}/trade`,
-                    'POST',
-                    JSON.stringify({ type: "BUY", amount })
-                );
-                if (a==undefined) {
-                    return;
+            //? Coins you don't hold yet need a price from the market
+            const prices: Record<string, number> = {};
+            for (const symbol of Object.keys(targets)) {
+                if (!portfolio.coinHoldings.some((h) => h.symbol.toUpperCase() == symbol)) {
+                    prices[symbol] = await coin_price(client, symbol);
                 }
-                if (!a.ok) {
-                    console.log(`${chalk.redBright('API ERROR')}:`);
-                    console.log(await a.text());
-                    return;
+            }
+            const plan = plan_rebalance(portfolio.coinHoldings, targets, prices, cash, threshold, others);
+            const show_plan = () => {
+                console.log(`Rebalancing ${chalk.yellow('$')}${chalk.yellowBright(Math.round(plan.total*1000)/1000)}`);
+                console.log('  Symbol | Value | Weight | Target');
+                for (const r of plan.rows) {
+                    console.log(`  ${chalk.bgWhite(r.symbol)} | ${chalk.yellow('$')}${chalk.yellowBright(Math.round(r.value*1000)/1000)} | ${Math.round(r.weight*1000)/10}% | ${Math.round(r.targetWeight*1000)/10}%`);
+                }
+                if (plan.trades.length == 0) {
+                    console.log('Already on target, nothing to trade');
+                }
+            };
+            if (dry_run) {
+                render({
+                    data: plan,
+                    rows: plan.trades,
+                    text: () => {
+                        show_plan();
+                        for (const t of plan.trades) {
+                            console.log(`  Would ${t.type == "BUY" ? chalk.bgGreen('Buy') : chalk.bgRedBright('Sell')} ${chalk.bgWhite(t.symbol)} worth ${chalk.yellow('$')}${chalk.yellowBright(Math.round(t.value*1000)/1000)}`);
+                        }
+                    },
+                });
+                return;
+            }
+
+            if (is_text()) {
+                show_plan();
+            }
+            check_caps("rebalance", plan.trades.filter((t) => t.type == "BUY").reduce((a, t) => a + t.value, 0));
+            const traded = plan.trades.reduce((a, t) => a + t.value, 0);
+            confirm_value(traded, `Make ${plan.trades.length} trades worth $${Math.round(traded*100)/100}?`, args.yes as boolean);
+            const done = [];
+            const failed: { symbol: string; type: string; error: string }[] = [];
+            for (const t of plan.trades) {
+                try {
+                    const { result, exceeded } = await guarded_trade("rebalance", t.symbol, t.type, t.amount);
+                    done.push({ ...t, ...result });
+                    if (is_text()) {
+                        console.log(` ${t.type == "BUY" ? chalk.bgGreen('Bought') : chalk.bgRedBright('Sold')} ${chalk.bgWhite(t.symbol)} worth ${chalk.yellow('$')}${chalk.yellowBright(Math.round(t.value*1000)/1000)}`);
+                    }
+                    if (exceeded) {
+                        console.error(`Stopping before the other ${plan.trades.length - done.length - failed.length} trades`);
+                        break;
+                    }
+                } catch (err) {
+                    if (err instanceof AuthExpiredError) {
+                        throw err;
+                    }
+                    const error = err instanceof Error ? err.message : String(err);
+                    failed.push({ symbol: t.symbol, type: t.type, error });
+                    if (is_text()) {
+                        console.log(` ${chalk.redBright('Failed')} to ${t.type.toLowerCase()} ${chalk.bgWhite(t.symbol)}: ${error}`);
+                    }
                 }
-                console.log(` Invested in ${chalk.bgWhite(symbol)} (-${chalk.redBright(amount)})`);
             }
+            render({
+                data: { ...plan, executed: done, failed },
+                rows: done,
+                text: () => {
+                    console.log(`Made ${chalk.greenBright(done.length)}/${plan.trades.length} trades`);
+                    if (failed.length > 0) {
+                        console.log(`${chalk.redBright(failed.length)} failed: ${failed.map((f) => f.symbol).join(", ")}`);
+                    }
+                },
+            });
         }
     })
-    .set("view-user", {
-        desc: "views a user's stats by username (not display name)",
-        args: ["user"], callback: async (args: string[]): Promise<void> => {
-            if (args.length != 1) {
-                console.log("Invalid parameters to command");
-                return;
+    .set("transfer", {
+        desc: "sends cash or coins to another user, after checking they exist, staying within your transfer limits (see set-transfer-limit) and asking you to confirm",
+        args: [
+            { name: "recipient", desc: "a username, an alias from your contacts, or @username to skip the contacts" },
+            { name: "amount", type: "quantity", desc: "dollars, or coins when a symbol is given (all sends every coin you hold)" },
+            { name: "symbol", type: "symbol", optional: true, desc: "the coin to send, cash when left out" },
+        ],
+        options: [{ name: "yes", type: "flag", desc: "sends without asking, needed when there's no terminal to ask in" }],
+        callback: async (args: Args): Promise<void> => {
+            const { username, alias } = resolve_recipient(config.addressBook ?? {}, args.recipient as string);
+            const symbol = args.symbol as string | undefined;
+            const type: TransferType = symbol == undefined ? "CASH" : "COIN";
+            if (type == "CASH" && args.amount == "all") {
+                throw new UsageError("Give an amount of dollars, all only works for coins");
             }
-            const a = await api_req(
-                `user/${args.shift()}`,
-                'GET'
-            );
-            if (a == undefined) {
-                return;
+            const recipient = await find_user(username);
+            const me = await client.me();
+            if (me.username == recipient.profile.username) {
+                throw new Error("You can't send anything to yourself");
+            }
+
+            let amount: number, value: number;
+            if (type == "CASH") {
+                amount = args.amount as number;
+                value = amount;
+                if (amount > me.baseCurrencyBalance) {
+                    throw new Error(`You only have $${Math.floor(me.baseCurrencyBalance*100)/100}`);
+                }
+            } else {
+                const holding = (await client.portfolioTotal()).coinHoldings.find((h) => h.symbol == symbol);
+                if (holding == undefined || holding.quantity <= 0) {
+                    throw new Error(`You don't hold any ${symbol}`);
+                }
+                amount = args.amount == "all" ? holding.quantity : args.amount as number;
+                if (amount > holding.quantity + 1e-9) {
+                    throw new Error(`You only hold ${holding.quantity} ${symbol}`);
+                }
+                value = amount * holding.currentPrice;
             }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
+
+            const base = { profile, recipient: recipient.profile.username, alias, type, symbol, amount, value };
+            const limits = transfer_limits();
+            const spent = sent_today(read_transfer_log(profile), profile);
+            const reason = check_limits(limits, value, spent);
+            if (reason != undefined) {
+                log_transfer({ ...base, event: "refused", error: reason });
+                throw new Error(`Refusing to send, ${reason}. Change the limits with set-transfer-limit`);
+            }
+
+            const what = type == "CASH" ? `$${amount}` : `${amount} ${symbol} (about $${Math.round(value*100)/100})`;
+            //? The summary goes to stderr outside of text mode, so --json output stays parseable
+            const show = is_text() ? console.log : console.error;
+            show(`${chalk.bold('Sending')} ${what} to ${chalk.bold(recipient.profile.name)} (@${recipient.profile.username}${alias == undefined ? '' : `, "${alias}" in your contacts`})`);
+            const joined = recipient.profile.createdAt == undefined ? '' : `joined ${new Date(recipient.profile.createdAt).toLocaleDateString()} and `;
+            show(`  They ${joined}hold $${Math.round(recipient.stats.totalPortfolioValue*100)/100}`);
+            if (limits.daily != null) {
+                show(`  You've sent $${Math.round(spent*100)/100} of your $${limits.daily} daily limit in the last 24 hours`);
+            }
+            if (!confirm_action("Send it?", args.yes as boolean)) {
+                log_transfer({ ...base, event: "cancelled" });
+                show("Cancelled, nothing was sent.");
                 return;
             }
-            const json = await a.json();
-            console.log(`${chalk.bold(json.profile.name)} (@${chalk.italic(json.profile.username)}) ${json.profile.isAdmin==true ? chalk.bgRedBright('ADMIN') : ''}`);
-            console.log(json.profile.bio);
-            console.log(`Total portfolio: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.stats.totalPortfolioValue*1000)/1000)}`);
-            console.log(`Illiquid value: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.stats.holdingsValue*1000)/1000)}`);
-            console.log(`Liquid value: ${chalk.yellowBright('$')}${chalk.yellow(Math.floor(json.profile.baseCurrencyBalance*1000)/1000)}`);
-            console.log(`Buy volume: ${chalk.yellowBright('$')}${chalk.yellow(Math.floor(json.stats.totalBuyVolume))}`);
-            console.log(`Sell volume: ${chalk.yellowBright('$')}${chalk.yellow(Math.floor(json.stats.totalSellVolume*1000)/1000)}`);
-            console.log(`${json.stats.coinsCreated} created coins`);
-            if (json.createdCoins > 0) {
-                console.log('  Symbol (Name) | Price | 24h Change | Market cap');
-            }
-            for (const c of json.createdCoins) {
-                let dayChange;
-                if (c.change24h > 0) {
-                    dayChange = `${chalk.bgGreen('^ '+c.change24h)}`
-                } else if (c.change24h == 0) {
-                    dayChange = `${chalk.bgGray('- '+c.change24h)}`
-                } else {
-                    dayChange = `${chalk.bgRedBright('v '+c.change24h)}`
-                }
-                console.log(`  ${chalk.bgWhite()} (${chalk.name}) | ${chalk.yellow('$')}${chalk.yellowBright(Math.round(c.currentPrice*1000)/1000)} | ${dayChange} | ${Math.floor(c.marketCap*1000)/1000}`);
+
+            let res: TransferResponse;
+            try {
+                res = await client.transfer(recipient.profile.username, type, amount, symbol);
+            } catch (err) {
+                log_transfer({ ...base, event: "failed", error: redact(err instanceof Error ? err.message : String(err), cookies()) });
+                throw err;
             }
-            console.log('Recent transactions');
-            for (const t of json.recentTransactions) {
-                switch (t.type) {
-                    case "BUY": {
-                        console.log(`  ${chalk.bgGreen('Buy')} ${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coinSymbol)} for ${chalk.yellow("$")}${chalk.yellowBright(t.totalBaseCurrencyAmount)}`);
-                        break;
+            const entry = log_transfer({ ...base, event: "sent", response: res });
+            render({
+                data: entry,
+                text: () => {
+                    console.log(`${chalk.greenBright('Sent')} ${what} to ${chalk.bold('@'+recipient.profile.username)}`);
+                    if (res.newBalance != undefined) {
+                        console.log(`New balance: ${chalk.yellow('$')}${chalk.yellowBright(Math.round(res.newBalance*1000)/1000)}`);
                     }
-                    case "TRANSFER_OUT": {
-                        console.log(`  ${chalk.bgBlue('Transferred')} ${t.coinName == "LINKCOIN" ? `${chalk.yellow('$')}${chalk.yellowBright(Math.round(t.totalBaseCurrencyAmount*1000)/1000)}` : `${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coinSymbol)}`} to ${chalk.bold(t.recipientUsername)} `);
-                        break;
+                },
+            });
+        }
+    })
+    .set("transfers", {
+        desc: "lists the latest transfers from the audit log of the current profile, including refused and cancelled ones",
+        args: [{ name: "count", type: "integer", min: 1, optional: true, default: 20 }],
+        callback: (args: Args): void => {
+            const entries = read_transfer_log(profile).slice(-(args.count as number));
+            render({
+                data: entries,
+                rows: entries.map(({ response: _, ...e }) => e),
+                text: () => {
+                    if (entries.length == 0) {
+                        console.log("No transfers yet.");
+                        return;
                     }
-                    case "SELL": {
-                        console.log(`  ${chalk.bgRedBright('Sell')} ${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coinSymbol)} for ${chalk.yellow("$")}${chalk.yellowBright(t.totalBaseCurrencyAmount)}`);
-                        break;
+                    for (const e of entries) {
+                        const what = e.type == "CASH" ? `$${e.amount}` : `${e.amount} ${e.symbol}`;
+                        const event = e.event == "sent" ? chalk.greenBright(e.event) : e.event == "cancelled" ? chalk.gray(e.event) : chalk.redBright(e.event);
+                        console.log(`${new Date(e.time).toLocaleString()} ${event} ${what} to @${e.recipient}${e.error == undefined ? '' : ` (${e.error})`}`);
                     }
-                    case "TRANSFER_IN": {
-                        console.log(`  ${chalk.bgBlue('Received')} ${t.coinName == "LINKCOIN" ? `${chalk.yellow('$')}${chalk.yellowBright(Math.round(t.totalBaseCurrencyAmount*1000)/1000)}` : `${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coinSymbol)}`} from ${chalk.bold(t.senderUsername)}`);
+                },
+            });
+        }
+    })
+    .set("set-transfer-limit", {
+        desc: "sets how many dollars transfer may send at once (per-transfer, $1000 by default) or in 24 hours (daily, $5000 by default)",
+        args: [
+            { name: "limit", choices: ["per-transfer", "daily"] },
+            { name: "amount", desc: "dollars, or none to turn the limit off" },
+        ],
+        callback: (args: Args): void => {
+            const raw = args.amount as string;
+            const amount = raw.toLowerCase() == "none" ? null : Number(raw);
+            if (amount != null && !(amount > 0)) {
+                throw new UsageError(`<amount> must be a positive number or none, got "${raw}"`);
+            }
+            const key = args.limit == "daily" ? "daily" : "perTransfer";
+            config.transferLimits = { ...config.transferLimits, [key]: amount };
+            writeConfig(config);
+            const limits = transfer_limits();
+            render({
+                data: limits,
+                text: () => console.log(`Transfers are limited to ${limits.perTransfer == null ? 'any amount' : '$'+limits.perTransfer} at once and ${limits.daily == null ? 'any amount' : '$'+limits.daily} a day.`),
+            });
+        }
+    })
+    .set("contacts", {
+        desc: "lists your address book, the aliases you can give transfer instead of usernames",
+        args: [], callback: (_args: Args): void => {
+            const contacts = Object.entries(config.addressBook ?? {}).map(([alias, username]) => ({ alias, username }));
+            render({
+                data: contacts,
+                rows: contacts,
+                text: () => {
+                    if (contacts.length == 0) {
+                        console.log("Your address book is empty, add someone with contact-add");
                     }
-                }
+                    for (const c of contacts) {
+                        console.log(`${chalk.bold(c.alias)}: @${c.username}`);
+                    }
+                },
+            });
+        }
+    })
+    .set("contact-add", {
+        desc: "adds a username to your address book under an alias, after checking the user exists",
+        args: [{ name: "alias" }, { name: "username" }],
+        options: [{ name: "no-verify", type: "flag", desc: "adds them without checking" }],
+        callback: async (args: Args): Promise<void> => {
+            const alias = args.alias as string;
+            const username = (args.username as string).replace(/^@/, "");
+            if (alias.startsWith("@")) {
+                throw new UsageError("Aliases can't start with @, that's how usernames are told apart from them");
+            }
+            if (!args["no-verify"]) {
+                await find_user(username);
+            }
+            config.addressBook = { ...config.addressBook, [alias]: username };
+            writeConfig(config);
+            render({
+                data: { alias, username },
+                text: () => console.log(`${chalk.greenBright('Added')} ${chalk.bold(alias)} (@${username}) to your contacts`),
+            });
+        }
+    })
+    .set("contact-remove", {
+        desc: "removes an alias from your address book",
+        args: [{ name: "alias" }],
+        callback: (args: Args): void => {
+            const alias = args.alias as string;
+            if (!Object.hasOwn(config.addressBook ?? {}, alias)) {
+                throw new Error(`"${alias}" isn't in your contacts, type 'contacts' to list them`);
             }
+            const { [alias]: _, ...rest } = config.addressBook ?? {};
+            config.addressBook = rest;
+            writeConfig(config);
+            render({
+                data: { removed: alias },
+                text: () => console.log(`${chalk.greenBright('Removed')} ${chalk.bold(alias)}`),
+            });
+        }
+    })
+    .set("view-user", {
+        desc: "views a user's stats by username (not display name)",
+        args: [{ name: "user" }], callback: async (args: Args): Promise<void> => {
+            const json = await client.user(args.user as string);
+            render({
+                data: json,
+                rows: [{ ...json.profile, ...json.stats }],
+                text: () => {
+                    console.log(`${chalk.bold(json.profile.name)} (@${chalk.italic(json.profile.username)}) ${json.profile.isAdmin==true ? chalk.bgRedBright('ADMIN') : ''}`);
+                    console.log(json.profile.bio);
+                    console.log(`Total portfolio: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.stats.totalPortfolioValue*1000)/1000)}`);
+                    console.log(`Illiquid value: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.stats.holdingsValue*1000)/1000)}`);
+                    console.log(`Liquid value: ${chalk.yellowBright('$')}${chalk.yellow(Math.floor(json.profile.baseCurrencyBalance*1000)/1000)}`);
+                    console.log(`Buy volume: ${chalk.yellowBright('$')}${chalk.yellow(Math.floor(json.stats.totalBuyVolume))}`);
+                    console.log(`Sell volume: ${chalk.yellowBright('$')}${chalk.yellow(Math.floor(json.stats.totalSellVolume*1000)/1000)}`);
+                    console.log(`${json.stats.coinsCreated} created coins`);
+                    if (json.createdCoins.length > 0) {
+                        console.log('  Symbol (Name) | Price | 24h Change | Market cap');
+                    }
+                    for (const c of json.createdCoins) {
+                        console.log(`  ${chalk.bgWhite(c.symbol)} (${c.name}) | ${chalk.yellow('$')}${chalk.yellowBright(Math.round(c.currentPrice*1000)/1000)} | ${fmt_change(c.change24h)} | ${Math.floor(c.marketCap*1000)/1000}`);
+                    }
+                    console.log('Recent transactions');
+                    for (const t of json.recentTransactions) {
+                        switch (t.type) {
+                            case "BUY": {
+                                console.log(`  ${chalk.bgGreen('Buy')} ${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coinSymbol)} for ${chalk.yellow("$")}${chalk.yellowBright(t.totalBaseCurrencyAmount)}`);
+                                break;
+                            }
+                            case "TRANSFER_OUT": {
+                                console.log(`  ${chalk.bgBlue('Transferred')} ${t.coinName == "LINKCOIN" ? `${chalk.yellow('$')}${chalk.yellowBright(Math.round(t.totalBaseCurrencyAmount*1000)/1000)}` : `${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coinSymbol)}`} to ${chalk.bold(t.recipientUsername)} `);
+                                break;
+                            }
+                            case "SELL": {
+                                console.log(`  ${chalk.bgRedBright('Sell')} ${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coinSymbol)} for ${chalk.yellow("$")}${chalk.yellowBright(t.totalBaseCurrencyAmount)}`);
+                                break;
+                            }
+                            case "TRANSFER_IN": {
+                                console.log(`  ${chalk.bgBlue('Received')} ${t.coinName == "LINKCOIN" ? `${chalk.yellow('$')}${chalk.yellowBright(Math.round(t.totalBaseCurrencyAmount*1000)/1000)}` : `${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coinSymbol)}`} from ${chalk.bold(t.senderUsername)}`);
+                            }
+                        }
+                    }
+                },
+            });
         }
     })
     .set("market", {
         desc: "searches the market for the given search term or lists the top coins",
-        args: ["page", "search-item"], callback: async (args: string[]): Promise<void> => {
-            const page = args.shift() ?? '1';
-            let item = args.shift() ?? '';
-            while (args.length >= 1) {
-                item += ` ${args.shift()}`;
-            }
-            item = encodeURIComponent(item);
-            const a = await api_req(
-                `market?search=${item}&sortBy=marketCap&sortOrder=desc&priceFilter=all&changeFilter=all&page=${page}&limit=6`,
-                'GET'
-            );
-            if (a==undefined) {
-                return;
+        args: [
+            { name: "page", type: "integer", min: 1, optional: true, default: 1 },
+            { name: "search-item", rest: true, optional: true },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const page = args.page as number;
+            const search = ((args["search-item"] ?? []) as string[]).join(" ");
+            const json = await client.market({ search, page });
+            render({
+                data: json,
+                rows: json.coins,
+                text: () => {
+                    console.log(`${chalk.bold('Market')} (page ${page} of ${json.totalPages})`);
+                    console.log('  Symbol (Name) | Current price | Change 24h | Market cap | Creator name');
+                    for (const c of json.coins) {
+                        console.log(`  ${chalk.bgWhite(c.symbol)} (${c.name}) | ${chalk.yellowBright('$')}${chalk.yellow(Math.round(c.currentPrice*1000)/1000)} | ${fmt_change(c.change24h)} | ${c.marketCap} | @${chalk.bold(c.creatorName)}`);
+                    }
+                },
+            });
+        }
+    })
+    .set("dashboard", {
+        desc: "full-screen market dashboard with your watchlist, top movers and holdings. Arrow keys move, tab switches section, enter opens a coin, b/s buy or sell it, w (un)watches it, o/p/f change the sort, price and change filters, q quits",
+        args: [],
+        options: [
+            { name: "interval", type: "number", min: 1, default: 10, desc: "seconds between refreshes" },
+            { name: "rows", type: "integer", min: 1, default: 10, desc: "market rows to show" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            if (!is_text()) {
+                throw new Error("The dashboard only has a text format");
             }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
+            const state = new_dashboard(config.profiles[profile].watchlist ?? [], args.rows as number);
+            await run_dashboard(client, state, {
+                interval: args.interval as number,
+                //? The dashboard already asked before trading
+                trade: (side, symbol, amount) => capture(() => run_command(side == "BUY" ? "buy-coin" : "sell-coin", [symbol, amount, "--yes"])),
+                toggle_watch: (symbol) => {
+                    const list = config.profiles[profile].watchlist ?? [];
+                    const updated = list.includes(symbol) ? list.filter((s) => s != symbol) : [...list, symbol];
+                    config.profiles[profile].watchlist = updated;
+                    writeConfig(config);
+                    return updated;
+                },
+            });
+        }
+    })
+    .set("watchlist", {
+        desc: "lists the coins on this profile's watchlist, which the dashboard shows",
+        args: [], callback: async (_args: Args): Promise<void> => {
+            const coins: MarketCoin[] = [];
+            for (const symbol of config.profiles[profile].watchlist ?? []) {
+                coins.push(await find_coin(client, symbol));
             }
-            const json = await a.json();
-            console.log(`${chalk.bold('Market')} (page ${page} of ${json.totalPages})`);
-            console.log('  Symbol (Name) | Current price | Change 24h | Market cap | Creator name');
-            for (const c of json.coins) {
-                let dayChange;
-                if (c.change24h > 0) {
-                    dayChange = `${chalk.bgGreen('^ '+c.change24h)}`
-                } else if (c.change24h == 0) {
-                    dayChange = `${chalk.bgGray('- '+c.change24h)}`
-                } else {
-                    dayChange = `${chalk.bgRedBright('v '+c.change24h)}`
+            render({
+                data: coins,
+                rows: coins,
+                text: () => {
+                    console.log(`${chalk.bold('Watchlist')} (${profile})`);
+                    if (coins.length == 0) {
+                        console.log('  Empty, add coins with watchlist-add');
+                    }
+                    for (const c of coins) {
+                        console.log(`  ${chalk.bgWhite(c.symbol)} (${c.name}) | ${chalk.yellowBright('$')}${chalk.yellow(Math.round(c.currentPrice*1000)/1000)} | ${fmt_change(c.change24h)} | ${c.marketCap}`);
+                    }
+                },
+            });
+        }
+    })
+    .set("watchlist-add", {
+        desc: "adds coins (by symbol) to this profile's watchlist",
+        args: [{ name: "symbol", type: "symbol", rest: true }], callback: async (args: Args): Promise<void> => {
+            const list = config.profiles[profile].watchlist ?? [];
+            for (const arg of args.symbol as string[]) {
+                const coin = await find_coin(client, arg);
+                if (!list.includes(coin.symbol)) {
+                    list.push(coin.symbol);
                 }
-                console.log(`  ${chalk.bgWhite(c.symbol)} (${c.name}) | ${chalk.yellowBright('$')}${chalk.yellow(Math.round(c.currentPrice*1000)/1000)} | ${dayChange} | ${c.marketCap} | @${chalk.bold(c.creatorName)}`);
             }
+            config.profiles[profile].watchlist = list;
+            writeConfig(config);
+            render({
+                data: list,
+                text: () => console.log(`Watching ${list.map((s) => chalk.bgWhite(s)).join(' ')}`),
+            });
+        }
+    })
+    .set("watchlist-remove", {
+        desc: "removes coins (by symbol) from this profile's watchlist",
+        args: [{ name: "symbol", type: "symbol", rest: true }], callback: (args: Args): void => {
+            const remove = args.symbol as string[];
+            const list = (config.profiles[profile].watchlist ?? []).filter((s) => !remove.includes(s.toUpperCase()));
+            config.profiles[profile].watchlist = list;
+            writeConfig(config);
+            render({
+                data: list,
+                text: () => console.log(list.length == 0 ? 'Your watchlist is empty.' : `Watching ${list.map((s) => chalk.bgWhite(s)).join(' ')}`),
+            });
+        }
+    })
+    .set("coin", {
+        desc: "shows a coin's price, market cap, pool, creator and top holders with a price chart",
+        args: [{ name: "symbol", type: "symbol" }],
+        options: [
+            { name: "timeframe", choices: TIMEFRAMES, default: "1m", desc: "how long each point of the chart covers" },
+            { name: "candles", type: "flag", desc: "draws a candlestick chart instead of a line" },
+            { name: "holders", type: "integer", min: 1, default: 10, desc: "top holders to list" },
+            { name: "width", type: "integer", min: 1, default: 60, desc: "chart columns" },
+            { name: "height", type: "integer", min: 2, default: 12, desc: "chart rows" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const timeframe = args.timeframe as Timeframe;
+            const candles = args.candles as boolean;
+            const width = args.width as number;
+            const height = args.height as number;
+            const symbol = args.symbol as string;
+            const json = await client.coin(symbol, timeframe);
+            const holders = await client.holders(symbol, args.holders as number);
+            const c = json.coin;
+            render({
+                data: { ...json, holders },
+                rows: json.candlestickData,
+                text: () => {
+                    const money = (n: number) => `${chalk.yellow('$')}${chalk.yellowBright(fmt_price(n))}`;
+                    console.log(`${chalk.bold(c.name)} (${chalk.bgWhite(c.symbol)})`);
+                    console.log(`Price: ${money(c.currentPrice)} ${fmt_change(c.change24h)}`);
+                    console.log(`Market cap: ${money(c.marketCap)} | Volume 24h: ${c.volume24h == undefined ? '?' : money(c.volume24h)}`);
+                    console.log(`Pool: ${money(c.poolBaseCurrencyAmount)} and ${fmt_price(c.poolCoinAmount)} ${c.symbol} | Circulating supply: ${fmt_price(c.circulatingSupply)}`);
+                    console.log(`Created by ${chalk.bold(c.creatorName)}${c.creatorUsername ? ` (@${chalk.italic(c.creatorUsername)})` : ''}${c.createdAt ? ` on ${c.createdAt.slice(0, 10)}` : ''}`);
+                    const history = json.candlestickData;
+                    console.log('');
+                    const chart = candles ? candle_chart(history, width, height) : line_chart(history.map((h) => h.close), width, height);
+                    for (const line of chart) {
+                        console.log(line);
+                    }
+                    if (history.length > 0) {
+                        const first = history[0].open, last = history[history.length - 1].close;
+                        const change = first == 0 ? 0 : Math.round((last - first) / first * 10000) / 100;
+                        console.log(`${history.length} ${timeframe} candles since ${new Date(history[0].time * 1000).toLocaleString()}, ${money(first)} to ${money(last)} ${fmt_change(change)}`);
+                    }
+                    console.log('');
+                    console.log(`${chalk.bold('Top holders')} (${holders.holders.length} of ${holders.totalHolders})`);
+                    for (const h of holders.holders) {
+                        console.log(`  #${h.rank} ${chalk.bold(h.name)} (@${chalk.italic(h.username)}) ${fmt_price(h.quantity)} ${c.symbol} (${fmt_price(h.percentage)}%) worth ${money(h.liquidationValue)} if sold`);
+                    }
+                },
+            });
+        }
+    })
+    .set("risk", {
+        desc: "scores how likely a coin is to be rugged from 0 to 100, from the creator's share, holder concentration, pool liquidity, age and the creator's history",
+        args: [{ name: "symbol", type: "symbol" }], callback: async (args: Args): Promise<void> => {
+            const report = await assess_risk(client, args.symbol as string);
+            render({
+                data: report,
+                rows: report.factors,
+                text: () => {
+                    console.log(`${chalk.bgWhite(report.symbol)} risk: ${fmt_risk(report)}`);
+                    for (const f of report.factors) {
+                        console.log(`  ${f.name} ${f.score}/100: ${f.detail}`);
+                    }
+                },
+            });
+        }
+    })
+    .set("set-risk", {
+        desc: "sets what buy-coin and invest do with coins at or above a risk score: off, warn (the default, at 70) or refuse. --force on either command skips the check",
+        args: [
+            { name: "threshold", type: "number", min: 0, max: 100 },
+            { name: "action", choices: RISK_ACTIONS, optional: true, desc: "keeps the current action when left out" },
+        ],
+        callback: (args: Args): void => {
+            const threshold = args.threshold as number;
+            const action = (args.action ?? risk_settings().action) as RiskAction;
+            config.risk = { threshold, action };
+            writeConfig(config);
+            render({
+                data: risk_settings(),
+                text: () => console.log(action == "off" ? 'Risk checks are off.' : `Coins with a risk score of ${chalk.bold(threshold)} or more will ${action == "warn" ? 'get a warning' : 'be refused'}.`),
+            });
+        }
+    })
+    .set("safety", {
+        desc: "shows the safety checks every trade and bet goes through and what you spent in the last 24 hours",
+        args: [], callback: (_args: Args): void => {
+            const settings = safety_settings();
+            const spent = spent_today(read_journal(profile), profile);
+            const dollars = (n: number | null) => n == null ? chalk.gray('off') : `${chalk.yellow('$')}${chalk.yellowBright(n)}`;
+            render({
+                data: { ...settings, spentToday: spent },
+                rows: Object.entries(settings.commandCaps).map(([command, cap]) => ({ command, cap })),
+                text: () => {
+                    console.log(`Asks before trades and bets over ${dollars(settings.confirmAbove)}, add --yes to skip that`);
+                    console.log(`Max slippage: ${settings.maxSlippage == null ? chalk.gray('off') : chalk.yellowBright(settings.maxSlippage+'%')}`);
+                    console.log(`Daily cap: ${dollars(settings.dailyCap)}, spent in the last 24 hours: ${chalk.yellow('$')}${chalk.yellowBright(Math.round(spent*100)/100)}`);
+                    for (const [command, cap] of Object.entries(settings.commandCaps)) {
+                        console.log(`  ${command} may spend ${dollars(cap)} at a time`);
+                    }
+                },
+            });
+        }
+    })
+    .set("set-safety", {
+        desc: "sets above how many dollars trades and bets ask first (confirm-above, $100 by default), how many percent worse than quoted a trade may go (max-slippage, 5% by default) or how much may be spent in 24 hours (daily-cap, off by default)",
+        args: [
+            { name: "setting", choices: ["confirm-above", "max-slippage", "daily-cap"] },
+            { name: "value", desc: "a number, or none to turn the check off" },
+        ],
+        callback: (args: Args): void => {
+            const raw = args.value as string;
+            const value = raw.toLowerCase() == "none" ? null : Number(raw);
+            if (value != null && !(value >= 0)) {
+                throw new UsageError(`<value> must be a number of at least 0 or none, got "${raw}"`);
+            }
+            const keys = { "confirm-above": "confirmAbove", "max-slippage": "maxSlippage", "daily-cap": "dailyCap" } as const;
+            const key = keys[args.setting as keyof typeof keys];
+            config.safety = { ...config.safety, [key]: value };
+            writeConfig(config);
+            render({
+                data: safety_settings(),
+                text: () => console.log(`${args.setting} is ${value == null ? 'off' : key == "maxSlippage" ? value+'%' : '$'+value} now.`),
+            });
+        }
+    })
+    .set("set-spend-cap", {
+        desc: `sets how many dollars one run of a command may spend, for ${SPENDING_COMMANDS.join(", ")}`,
+        args: [
+            { name: "command", choices: SPENDING_COMMANDS },
+            { name: "amount", desc: "dollars, or none to remove the cap" },
+        ],
+        callback: (args: Args): void => {
+            const command = args.command as string;
+            const raw = args.amount as string;
+            const amount = raw.toLowerCase() == "none" ? null : Number(raw);
+            if (amount != null && !(amount > 0)) {
+                throw new UsageError(`<amount> must be a positive number or none, got "${raw}"`);
+            }
+            const caps = { ...config.safety?.commandCaps };
+            if (amount == null) {
+                delete caps[command];
+            } else {
+                caps[command] = amount;
+            }
+            config.safety = { ...config.safety, commandCaps: caps };
+            writeConfig(config);
+            render({
+                data: safety_settings(),
+                text: () => console.log(amount == null ? `${command} may spend any amount again.` : `${command} may spend $${amount} at a time now.`),
+            });
         }
     })
     .set("buy-coin", {
-        desc: "buys the given coin (by symbol) with the given amount",
-        args: ["symbol", "amount"], callback: async (args: string[]): Promise<void> => {
-            if (args.length != 2) {
-                console.log('Invalid command parameters');
-                return;
+        desc: "buys the given coin (by symbol) with the given amount, checking its rug risk first (see set-risk) and asking first above your confirm limit (see safety)",
+        args: [{ name: "symbol", type: "symbol" }, { name: "amount", type: "amount", desc: "dollars to spend" }],
+        options: [
+            { name: "force", type: "flag", desc: "skips the rug risk check" },
+            { name: "dry-run", type: "flag", desc: "only prints what the trade should get" },
+            { name: "yes", type: "flag", desc: "doesn't ask before buying" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const coin = args.symbol as string;
+            const amount = args.amount as number;
+            if ((await check_risk(coin, args.force as boolean)).refused) {
+                throw new Error(`Refusing to buy ${coin}, its risk score is over your limit of ${risk_settings().threshold}. Use --force to buy anyway`);
             }
-            const coin = args.shift();
-            const amount = args.shift();
-            const a = await api_req(
-                `coin/${coin}/trade`,
-                'POST',
-                JSON.stringify({ type: "BUY", amount: parseFloat(amount as string) })
-            );
-            if (a==undefined) {
+            const q = await quote(coin, "BUY", amount);
+            if (args["dry-run"]) {
+                render({ data: q, text: () => console.log(`Would ${fmt_quote(q)}`) });
                 return;
             }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
+            check_caps("buy-coin", amount);
+            if (is_text()) {
+                console.log(fmt_quote(q));
             }
-            const result = await a.json();
-            console.log(`Bought ${result.coinsSold} ${chalk.bgWhite(coin)} ${chalk.greenBright('successfully')}.`);
-            console.log(`New balance: ${chalk.yellow('$')}${chalk.yellowBright(result.newBalance)} (-${chalk.redBright(amount)})`);
+            confirm_value(amount, `Spend $${amount} on ${q.symbol}?`, args.yes as boolean);
+            const { result, slippage: slipped } = await guarded_trade("buy-coin", coin, "BUY", amount, q);
+            render({
+                data: { symbol: coin, amount, ...result, quote: q, slippage: slipped },
+                text: () => {
+                    console.log(`Bought ${result.coinsBought} ${chalk.bgWhite(coin)} ${chalk.greenBright('successfully')}.`);
+                    console.log(`New balance: ${chalk.yellow('$')}${chalk.yellowBright(result.newBalance)} (-${chalk.redBright(result.totalCost ?? amount)})`);
+                },
+            });
         }
     })
     .set("sell-coin", {
-        desc: "buys the given coin (by symbol) with the given amount",
-        args: ["symbol", "amount"], callback: async (args: string[]): Promise<void> => {
-            if (args.length != 2) {
-                console.log('Invalid command parameters');
+        desc: "sells the given amount of a coin (by symbol), asking first above your confirm limit (see safety)",
+        args: [{ name: "symbol", type: "symbol" }, { name: "amount", type: "amount", desc: "coins to sell" }],
+        options: [
+            { name: "dry-run", type: "flag", desc: "only prints what the trade should get" },
+            { name: "yes", type: "flag", desc: "doesn't ask before selling" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const coin = args.symbol as string;
+            const amount = args.amount as number;
+            const q = await quote(coin, "SELL", amount);
+            if (args["dry-run"]) {
+                render({ data: q, text: () => console.log(`Would ${fmt_quote(q)}`) });
                 return;
             }
-            const coin = args.shift();
-            const amount = args.shift();
-            const a = await api_req(
-                `coin/${coin}/trade`,
-                'POST',
-                JSON.stringify({ type: "SELL", amount: parseFloat(amount as string) })
-            );
-            if (a==undefined) {
-                return;
+            if (is_text()) {
+                console.log(fmt_quote(q));
             }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
+            confirm_value(q.value, `Sell ${amount} ${q.symbol} for about $${Math.round(q.value*100)/100}?`, args.yes as boolean);
+            const { result, slippage: slipped } = await guarded_trade("sell-coin", coin, "SELL", amount, q);
+            const received = result.totalReceived ?? 0;
+            render({
+                data: { symbol: coin, amount, ...result, quote: q, slippage: slipped },
+                text: () => {
+                    console.log(`Sold ${result.coinsSold} ${chalk.bgWhite(coin)} ${chalk.greenBright('successfully')}.`);
+                    console.log(`New balance: ${chalk.yellow('$')}${chalk.yellowBright(result.newBalance)} (+${chalk.greenBright(Math.round(received*1000)/1000)})`);
+                },
+            });
+        }
+    })
+    .set("order-buy", {
+        desc: "places a limit buy: spends the amount on the coin once its price is at or below the given price (needs `watch` running)",
+        args: [
+            { name: "symbol", type: "symbol" },
+            { name: "amount", type: "amount", desc: "dollars to spend" },
+            { name: "price", type: "amount" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const symbol = args.symbol as string;
+            const amount = args.amount as number;
+            const price = args.price as number;
+            await coin_price(client, symbol);
+            show_order(add_order(profile, { kind: "limit-buy", symbol, amount, price }));
+        }
+    })
+    .set("order-sell", {
+        desc: "places a limit sell: sells the amount of coins (or all) once the price is at or above the given price (needs `watch` running)",
+        args: [
+            { name: "symbol", type: "symbol" },
+            { name: "amount", type: "quantity", desc: "coins to sell" },
+            { name: "price", type: "amount" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const symbol = args.symbol as string;
+            const amount = args.amount as number | "all";
+            const price = args.price as number;
+            await coin_price(client, symbol);
+            show_order(add_order(profile, { kind: "limit-sell", symbol, amount, price }));
+        }
+    })
+    .set("order-trail", {
+        desc: "places a trailing stop: sells the amount of coins (default all) once the price drops the given percent from its highest point (needs `watch` running)",
+        args: [
+            { name: "symbol", type: "symbol" },
+            { name: "percent", type: "amount", max: 100 },
+            { name: "amount", type: "quantity", optional: true, default: "all", desc: "coins to sell" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const symbol = args.symbol as string;
+            const percent = args.percent as number;
+            const amount = args.amount as number | "all";
+            const peak = await coin_price(client, symbol);
+            show_order(add_order(profile, { kind: "trailing-stop", symbol, amount, percent, peak }));
+        }
+    })
+    .set("order-take-profit", {
+        desc: "places a take profit: sells the amount of coins (default all) once the price is the given percent above what you paid on average, or --from <price> (needs `watch` running)",
+        args: [
+            { name: "symbol", type: "symbol" },
+            { name: "percent", type: "amount" },
+            { name: "amount", type: "quantity", optional: true, default: "all", desc: "coins to sell" },
+        ],
+        options: [{ name: "from", type: "amount", desc: "the price to measure from instead of your average purchase price" }],
+        callback: async (args: Args): Promise<void> => {
+            const symbol = args.symbol as string;
+            const percent = args.percent as number;
+            const amount = args.amount as number | "all";
+            //? Without --from, measured from the average purchase price, or the current price for coins bought outside the site's records
+            let basePrice = args.from as number | undefined;
+            if (basePrice == undefined) {
+                const held = (await client.portfolioTotal()).coinHoldings.find((h) => h.symbol.toUpperCase() == symbol);
+                basePrice = held?.avgPurchasePrice || await coin_price(client, symbol);
             }
-            const result = await a.json();
-            console.log(`Sold ${result.coinsSold} ${chalk.bgWhite(coin)} ${chalk.greenBright('successfully')}.`);
-            console.log(`New balance: ${chalk.yellow('$')}${chalk.yellowBright(result.newBalance)} (+${chalk.greenBright(amount)})`);
+            show_order(add_order(profile, { kind: "take-profit", symbol, amount, percent, basePrice }));
         }
     })
-    .set("portfolio", {
-        desc: "returns all your portfolio information",
-        args: [], callback: async (_args: string[]): Promise<void> => {
-            const a = await api_req(
-                'portfolio/total',
-                'GET'
-            );
-            const b = await api_req(
-                'transactions',
-                'GET'
-            );
-            if (a==undefined || b==undefined) {
-                return;
+    .set("orders", {
+        desc: "lists the open conditional orders of the current profile",
+        args: [],
+        options: [{ name: "all", type: "flag", desc: "lists filled, failed and cancelled orders too" }],
+        callback: (args: Args): void => {
+            const all = args.all as boolean;
+            const orders = read_orders().filter((o) => o.profile == profile && (all || o.status == "open"));
+            render({
+                data: orders,
+                rows: orders,
+                text: () => {
+                    console.log(`${chalk.bold('Orders')} (${profile})`);
+                    if (orders.length == 0) {
+                        console.log('  No orders');
+                    }
+                    for (const o of orders) {
+                        console.log(`  ${fmt_order(o)}${o.status == "open" ? '' : ` ${chalk.gray(o.status)}`}${o.error ? ` (${o.error})` : ''}`);
+                    }
+                },
+            });
+        }
+    })
+    .set("order-cancel", {
+        desc: "cancels an open conditional order by its id",
+        args: [{ name: "id", type: "integer", min: 1 }], callback: (args: Args): void => {
+            const order = cancel_order(profile, args.id as number);
+            render({
+                data: order,
+                text: () => console.log(`Cancelled order #${order.id}.`),
+            });
+        }
+    })
+    .set("watch", {
+        desc: "polls prices and executes conditional orders as they trigger, until no open orders are left",
+        args: [],
+        options: [
+            { name: "interval", type: "number", min: 0, default: 30, desc: "seconds between polls" },
+            { name: "ticks", type: "integer", min: 1, desc: "stops after this many polls" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const interval = args.interval as number;
+            const ticks = (args.ticks as number | undefined) ?? Infinity;
+            if (is_text()) {
+                console.log(`Watching orders for ${chalk.bold(profile)} every ${interval}s, press Ctrl+C to stop`);
             }
-            if (!a.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await a.text());
-                return;
+            //? Orders are placed ahead of time, so nothing asks before they trade and confirmAbove doesn't apply. Spend caps
+            //? and maxSlippage do, measured from the price that set the order off
+            let spent = 0;
+            for (let tick = 1; tick <= ticks; tick++) {
+                if (!read_orders().some((o) => o.profile == profile && o.status == "open")) {
+                    if (is_text()) {
+                        console.log('No open orders left to watch.');
+                    }
+                    break;
+                }
+                let results: OrderResult[] = [];
+                //? A failed poll is only reported, the next one may well work
+                try {
+                    results = await run_orders(client, profile, async (order, type, amount, price) => {
+                        if (type == "BUY") {
+                            check_caps("watch", amount, spent);
+                        }
+                        const { result } = await guarded_trade("watch", order.symbol, type, amount, price);
+                        if (type == "BUY") {
+                            spent += amount;
+                        }
+                        return result;
+                    }, (symbol, err) => {
+                        console.error(`${chalk.yellow(`Couldn't check the price of ${symbol}, its orders wait for the next poll`)}: ${redact(err instanceof Error ? err.message : String(err), cookies())}`);
+                    });
+                } catch (err) {
+                    if (err instanceof AuthExpiredError) {
+                        throw err;
+                    }
+                    console.error(`${chalk.yellow("Couldn't check prices")}: ${redact(err instanceof Error ? err.message : String(err), cookies())}`);
+                }
+                for (const r of results) {
+                    //? Printed as they happen, one JSON object per line outside of text mode
+                    if (is_text()) {
+                        console.log(`${new Date().toLocaleTimeString()} ${fmt_order(r.order)} went off at ${chalk.yellow('$')}${chalk.yellowBright(Math.round(r.price*1000)/1000)}: ${r.error == undefined ? chalk.greenBright('filled') : r.refused ? `${chalk.yellow('refused')} (${r.error}), still open` : `${chalk.redBright('failed')} (${r.error})`}`);
+                    } else {
+                        console.log(JSON.stringify(r));
+                    }
+                }
+                if (tick < ticks) {
+                    await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+                }
             }
-            if (!b.ok) {
-                console.log(`${chalk.redBright('API ERROR')}:`);
-                console.log(await b.text());
-                return;
+        }
+    })
+    .set("daemon", {
+        desc: "runs the tasks scheduled with daemon-add until stopped, logging every run to ~/rugplay_api/daemon.log.ndjson. Only one daemon runs per profile",
+        args: [],
+        options: [{ name: "once", type: "flag", desc: "runs the tasks that are due right away, then exits" }],
+        callback: async (args: Args): Promise<void> => {
+            const tasks = config.tasks ?? [];
+            if (tasks.length == 0) {
+                throw new Error("No tasks are scheduled, add some with daemon-add");
             }
-            const json = await a.json();
-            console.log(`${chalk.bold('Portfolio')}`);
-            console.log(`Balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.baseCurrencyBalance*1000)/1000)}`);
-            console.log(`Total coin value: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.totalCoinValue*1000)/1000)}`);
-            console.log(`Total value: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.totalValue*1000)/1000)}`);
-            console.log(`Coin holdings`);
-            console.log('  Symbol | Quantity Owned | Price | P&L% | 24h Change | Value');
-            for (const holding of json.coinHoldings) {
-                let percentageChange;
-                if (holding.percentageChange > 0) {
-                    percentageChange = `${chalk.bgGreen('^ '+holding.percentageChange)}`
-                } else if (holding.percentageChange == 0) {
-                    percentageChange = `${chalk.bgGray('- '+holding.percentageChange)}`
-                } else {
-                    percentageChange = `${chalk.bgRedBright('v '+holding.percentageChange)}`
+            //? The config may have been edited by hand
+            tasks.forEach(check_task);
+            const lock = acquire_lock(profile);
+            const daemon_profile = profile;
+            //? Ctrl+C lets a running task finish, then stops the daemon and releases the lock
+            let stopping = false;
+            let wake = () => {};
+            const on_signal = () => {
+                stopping = true;
+                wake();
+            };
+            Deno.addSignalListener("SIGINT", on_signal);
+            interactive = false;
+            if (is_text() && !args.once) {
+                console.log(`Running ${tasks.length} task${tasks.length == 1 ? '' : 's'} for ${chalk.bold(profile)}, logging to ${daemon_log_path()}, press Ctrl+C to stop`);
+            }
+            try {
+                await run_daemon({
+                    tasks,
+                    once: args.once as boolean,
+                    run: async (task) => {
+                        let ok = false;
+                        const output = await capture(async () => {
+                            ok = await run_line(task.command);
+                        });
+                        return { ok, output: output.map((l) => stripVTControlCharacters(l)) };
+                    },
+                    reward_at: async () => Date.now() + (await client.rewardStatus()).timeRemaining,
+                    log: (entry) => {
+                        log_daemon({ profile: daemon_profile, ...entry });
+                        if (entry.task == undefined) {
+                            return;
+                        }
+                        //? Printed as they happen, one JSON object per line outside of text mode
+                        if (!is_text()) {
+                            console.log(JSON.stringify(entry));
+                            return;
+                        }
+                        const next = entry.next == undefined ? '' : `, next at ${new Date(entry.next).toLocaleString()}`;
+                        if (entry.event == "ran") {
+                            console.log(`${new Date().toLocaleTimeString()} ${chalk.bold(entry.task)} ${chalk.greenBright('ran')}${next}`);
+                        } else {
+                            console.log(`${new Date().toLocaleTimeString()} ${chalk.bold(entry.task)} ${chalk.redBright('failed')} (${redact(entry.error ?? '', cookies())})${next}`);
+                        }
+                    },
+                    heartbeat: () => touch_lock(lock),
+                    stop: () => stopping,
+                    sleep: (ms) => new Promise<void>((resolve) => {
+                        const id = setTimeout(resolve, ms);
+                        wake = () => {
+                            clearTimeout(id);
+                            resolve();
+                        };
+                    }),
+                });
+            } finally {
+                interactive = true;
+                Deno.removeSignalListener("SIGINT", on_signal);
+                release_lock(lock);
+            }
+        }
+    })
+    .set("serve", {
+        desc: "serves commands as JSON over HTTP for other tools until stopped: GET /commands, POST /commands/<name> and JSON-RPC on POST /rpc. Requests need the serve token and are logged to ~/rugplay_api/serve.log.ndjson",
+        args: [],
+        options: [
+            { name: "host", default: "127.0.0.1", desc: "address to listen on, anything but localhost lets other machines in" },
+            { name: "port", type: "integer", min: 0, max: 65535, default: 8788 },
+            { name: "allow", value: "command,command", desc: "only serves these commands" },
+            { name: "new-token", type: "flag", desc: "replaces the token in the config with a new one" },
+            { name: "max-requests", type: "integer", min: 1, desc: "stops after answering this many requests" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const host = args.host as string;
+            const allow = ((args.allow as string | undefined) ?? "").split(",").map((c) => c.trim()).filter((c) => c != "");
+            for (const name of allow) {
+                if (!commands.has(name) || !SERVABLE.includes(name)) {
+                    throw new UsageError(`${name} isn't a command serve can expose`);
                 }
-                let dayChange;
-                if (holding.change24h > 0) {
-                    dayChange = `${chalk.bgGreen('^ '+holding.change24h)}`
-                } else if (holding.change24h == 0) {
-                    dayChange = `${chalk.bgGray('- '+holding.change24h)}`
+            }
+            const served = [...commands]
+                .filter(([name]) => SERVABLE.includes(name) && (allow.length == 0 || allow.includes(name)))
+                .map(([name, c]) => ({ name, desc: c.desc, usage: usage(name, c), args: c.args, options: c.options ?? [] }));
+            const fresh = args["new-token"] || config.serveToken == undefined;
+            if (fresh) {
+                config.serveToken = new_token();
+                writeConfig(config);
+            }
+            const token = serve_token(config) as string;
+            if (!is_loopback(host)) {
+                console.error(`${chalk.yellow('Warning')}: listening on ${host} lets other machines send requests, the token is all that keeps them out`);
+            }
+
+            const serve_profile = profile;
+            //? Saved before any command runs, serve_command swaps console.log out while one does
+            const print = console.log;
+            const server = start_api_server({
+                hostname: host,
+                port: args.port as number,
+                token,
+                commands: served,
+                maxRequests: args["max-requests"] as number | undefined,
+                run: serve_command,
+                log: (entry) => {
+                    const logged = log_serve({
+                        profile: serve_profile,
+                        ...entry,
+                        args: entry.args?.map((a) => redact(a, cookies())),
+                        error: entry.error == undefined ? undefined : redact(entry.error, cookies()),
+                    });
+                    if (!is_text()) {
+                        print(JSON.stringify(logged));
+                        return;
+                    }
+                    const status = logged.ok ? chalk.greenBright(logged.status) : chalk.redBright(logged.status);
+                    print(`${new Date(logged.time).toLocaleTimeString()} ${logged.method} ${logged.path} ${status} ${logged.ms}ms${logged.error == undefined ? '' : ` (${logged.error})`}`);
+                },
+            });
+            const on_signal = () => server.shutdown();
+            Deno.addSignalListener("SIGINT", on_signal);
+            interactive = false;
+            if (is_text()) {
+                console.log(`Serving ${served.length} commands for ${chalk.bold(profile)} on ${chalk.bold(server.url)}, press Ctrl+C to stop`);
+                if (Deno.env.get("RUGPLAY_SERVE_TOKEN")) {
+                    console.log('Requests need the token in RUGPLAY_SERVE_TOKEN.');
+                } else if (fresh) {
+                    console.log(`Requests need this token, it's saved as serveToken in ${getConfigPath()}: ${chalk.bold(token)}`);
                 } else {
-                    dayChange = `${chalk.bgRedBright('v '+holding.change24h)}`
+                    console.log(`Requests need the token saved as serveToken in ${getConfigPath()}.`);
                 }
-                console.log(`  ${chalk.bgWhite(holding.symbol)} | ${Math.round(holding.quantity*1000)/1000} | ${chalk.yellow('$')}${chalk.yellowBright(holding.currentPrice)} | ${percentageChange} | ${dayChange} | ${chalk.yellow('$')}${chalk.yellowBright(Math.round(holding.value*1000)/1000)}`);
-            }
-            console.log('Transactions');
-            const trans = await b.json();
-            for (const t of trans.transactions) {
-                switch (t.type) {
-                    case "BUY": {
-                        console.log(`  ${chalk.bgGreen('Buy')} ${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coin.symbol)} for ${chalk.yellow("$")}${chalk.yellowBright(t.totalBaseCurrencyAmount)}`);
-                        break;
+            }
+            try {
+                await server.finished;
+            } finally {
+                interactive = true;
+                Deno.removeSignalListener("SIGINT", on_signal);
+            }
+        }
+    })
+    .set("daemon-add", {
+        desc: "schedules a command for the daemon, e.g. daemon-add reward reward daily-reward or daemon-add cash \"every 1h\" summary",
+        args: [
+            { name: "name" },
+            { name: "schedule", desc: "\"every <duration>\" (like 30s, 10m or 1h), reward (as soon as the daily reward can be claimed) or a quoted cron expression like \"0 * * * *\"" },
+            { name: "command", rest: true, desc: "the command to run with its arguments" },
+        ],
+        callback: (args: Args): void => {
+            const task: DaemonTask = { name: args.name as string, schedule: args.schedule as string, command: join_tokens(args.command as string[]) };
+            if ((config.tasks ?? []).some((t) => t.name == task.name)) {
+                throw new Error(`A task named "${task.name}" already exists, remove it first with daemon-remove`);
+            }
+            check_task(task);
+            config.tasks = [...config.tasks ?? [], task];
+            writeConfig(config);
+            render({
+                data: task,
+                text: () => console.log(`${chalk.greenBright('Scheduled')} ${chalk.bold(task.name)}: ${task.command} (${task.schedule}), start it with 'daemon'`),
+            });
+        }
+    })
+    .set("daemon-remove", {
+        desc: "removes a task from the daemon's schedule",
+        args: [{ name: "name" }],
+        callback: (args: Args): void => {
+            const name = args.name as string;
+            if (!(config.tasks ?? []).some((t) => t.name == name)) {
+                throw new Error(`There's no task named "${name}", type 'daemon-tasks' to list them`);
+            }
+            config.tasks = (config.tasks ?? []).filter((t) => t.name != name);
+            writeConfig(config);
+            render({
+                data: { removed: name },
+                text: () => console.log(`${chalk.greenBright('Removed')} ${chalk.bold(name)}`),
+            });
+        }
+    })
+    .set("daemon-tasks", {
+        desc: "lists the tasks the daemon runs and when",
+        args: [], callback: (_args: Args): void => {
+            const tasks = (config.tasks ?? []).map((t) => {
+                const schedule = parse_schedule(t.schedule);
+                const next = schedule.kind == "cron" ? next_cron(schedule.cron, new Date()).toISOString() : undefined;
+                return { ...t, next };
+            });
+            render({
+                data: tasks,
+                rows: tasks.map((t) => ({ ...t, next: t.next ?? "" })),
+                text: () => {
+                    if (tasks.length == 0) {
+                        console.log("No tasks are scheduled, add some with daemon-add");
+                        return;
                     }
-                    case "TRANSFER_OUT": {
-                        console.log(`  ${chalk.bgBlue('Transferred')} ${t.coin.id == 1 ? `${chalk.yellow('$')}${chalk.yellowBright(Math.round(t.totalBaseCurrencyAmount*1000)/1000)}` : `${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coin.symbol)}`} to ${chalk.bold(t.recipientUser.username)} `);
-                        break;
+                    for (const t of tasks) {
+                        const when = t.next != undefined ? `next at ${new Date(t.next).toLocaleString()}` : t.schedule.trim().toLowerCase() == "reward" ? "whenever the daily reward can be claimed" : "right away when the daemon starts";
+                        console.log(`${chalk.bold(t.name)}: ${t.command} ${chalk.gray(`(${t.schedule}, ${when})`)}`);
                     }
-                    case "SELL": {
-                        console.log(`  ${chalk.bgRedBright('Sell')} ${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coin.symbol)} for ${chalk.yellow("$")}${chalk.yellowBright(t.totalBaseCurrencyAmount)}`);
-                        break;
+                },
+            });
+        }
+    })
+    .set("journal", {
+        desc: "lists the most recent trades and bets made from this CLI on the current profile",
+        args: [{ name: "count", type: "integer", min: 1, optional: true, default: 20 }], callback: (args: Args): void => {
+            const count = args.count as number;
+            const entries = read_journal(profile).slice(-count);
+            render({
+                data: entries,
+                rows: entries,
+                text: () => {
+                    console.log(`${chalk.bold('Journal')} (${profile})`);
+                    if (entries.length == 0) {
+                        console.log(chalk.italic('  Nothing yet, trades and bets show up here once you make them'));
+                    }
+                    for (const e of entries) {
+                        const time = e.time.replace('T', ' ').slice(0, 19);
+                        const balance = `balance ${chalk.yellow('$')}${chalk.yellowBright(Math.round(e.balance*1000)/1000)}`;
+                        switch (e.action) {
+                            case "BUY": {
+                                console.log(`  ${time} ${chalk.bgGreen('Buy')} ${Math.round((e.coins ?? 0)*1000)/1000} ${chalk.bgWhite(e.symbol)} for ${chalk.yellow('$')}${chalk.yellowBright(Math.round(e.value*1000)/1000)}, ${balance}`);
+                                break;
+                            }
+                            case "SELL": {
+                                console.log(`  ${time} ${chalk.bgRedBright('Sell')} ${Math.round((e.coins ?? 0)*1000)/1000} ${chalk.bgWhite(e.symbol)} for ${chalk.yellow('$')}${chalk.yellowBright(Math.round(e.value*1000)/1000)}, ${balance}`);
+                                break;
+                            }
+                            default: {
+                                console.log(`  ${time} ${chalk.bold(e.action.toLowerCase())} ${chalk.yellow('$')}${chalk.yellowBright(e.amount)} ${e.won ? chalk.greenBright('won') : chalk.redBright('lost')}, ${balance}`);
+                            }
+                        }
+                    }
+                },
+            });
+        }
+    })
+    .set("pnl", {
+        desc: "reports realized and unrealized P&L per coin and net gambling results per game and day, from the journal",
+        args: [], callback: async (_args: Args): Promise<void> => {
+            const entries = read_journal(profile);
+            const prices: Record<string, number> = {};
+            if (entries.some((e) => e.action == "BUY" || e.action == "SELL")) {
+                for (const h of (await client.portfolioTotal()).coinHoldings) {
+                    prices[h.symbol.toUpperCase()] = h.currentPrice;
+                }
+            }
+            const report = compute_pnl(entries, prices);
+            const money = (n: number) => n >= 0
+                ? `${chalk.greenBright('+$'+Math.round(n*1000)/1000)}`
+                : `${chalk.redBright('-$'+Math.round(-n*1000)/1000)}`;
+            const rate = (r?: number) => r == undefined ? '-' : `${Math.round(r*1000)/10}%`;
+            render({
+                data: report,
+                rows: report.coins,
+                text: () => {
+                    console.log(`${chalk.bold('P&L')} (${profile})`);
+                    console.log(`Realized: ${money(report.realized)}`);
+                    console.log(`Unrealized: ${money(report.unrealized)}`);
+                    console.log(`Gambling: ${money(report.gambling)}`);
+                    console.log(`Win rate: ${rate(report.tradeWinRate)} of sells, ${rate(report.betWinRate)} of bets`);
+                    if (report.coins.length > 0) {
+                        console.log('  Symbol | Held | Cost basis | Realized | Unrealized | Sells won');
+                    }
+                    for (const c of report.coins) {
+                        console.log(`  ${chalk.bgWhite(c.symbol)} | ${Math.round(c.held*1000)/1000} | ${chalk.yellow('$')}${chalk.yellowBright(Math.round(c.costBasis*1000)/1000)} | ${money(c.realized)} | ${money(c.unrealized)} | ${c.winningSells}/${c.sells}`);
+                    }
+                    if (report.games.length > 0) {
+                        console.log('  Game | Bets | Won | Wagered | Net');
+                    }
+                    for (const g of [...report.games, ...report.days]) {
+                        console.log(`  ${g.day ? g.day+' ' : ''}${chalk.bold(g.game)} | ${g.bets} | ${g.wins} | ${chalk.yellow('$')}${chalk.yellowBright(Math.round(g.wagered*1000)/1000)} | ${money(g.net)}`);
+                    }
+                },
+            });
+        }
+    })
+    .set("export-transactions", {
+        desc: "exports your whole transaction history, oldest first, to a .csv, .json or .ndjson file (or prints it in the output format without one)",
+        args: [{ name: "file", optional: true }],
+        options: [
+            { name: "from", value: "YYYY-MM-DD", desc: "skips transactions before this day" },
+            { name: "to", value: "YYYY-MM-DD", desc: "skips transactions after this day" },
+            { name: "symbol", value: "SYM,SYM", desc: "only these coins, CASH for money transfers" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const from = args.from as string | undefined;
+            const to = args.to as string | undefined;
+            const symbols = parse_symbols(args.symbol as string | undefined);
+            const file = args.file as string | undefined;
+            const kind = file?.match(/\.(csv|json|ndjson)$/i)?.[1].toLowerCase();
+            if (file != undefined && kind == undefined) {
+                throw new Error("The file has to end in .csv, .json or .ndjson");
+            }
+            const filter = {
+                from: from == undefined ? undefined : parse_date(from),
+                to: to == undefined ? undefined : parse_date(to, true),
+                symbols,
+            };
+            const rows = filter_transactions((await all_transactions(client)).map(normalize_transaction), filter).reverse();
+            if (file == undefined) {
+                render({
+                    data: rows,
+                    rows,
+                    text: () => {
+                        for (const r of rows) {
+                            console.log(`  ${r.date.slice(0, 19).replace('T', ' ')} ${r.type.padEnd(12)} ${r.asset.padEnd(6)} ${r.quantity} ${r.counterparty ? `(${r.counterparty})` : ''} cash ${r.cashFlow >= 0 ? '+' : ''}${Math.round(r.cashFlow*1000)/1000}`);
+                        }
+                        console.log(`${rows.length} transactions`);
+                    },
+                });
+                return;
+            }
+            const text = kind == "csv" ? to_csv(rows) : kind == "json" ? JSON.stringify(rows, null, 2) : rows.map((r) => JSON.stringify(r)).join("\n");
+            await Deno.writeTextFile(file, text + "\n");
+            render({
+                data: { success: true, file, count: rows.length },
+                text: () => console.log(`Exported ${chalk.bold(rows.length)} transactions to ${chalk.bold(file)}.`),
+            });
+        }
+    })
+    .set("portfolio", {
+        desc: "returns all your portfolio information",
+        args: [], callback: async (_args: Args): Promise<void> => {
+            const json = await client.portfolioTotal();
+            const trans = await client.transactions();
+            render({
+                data: { ...json, transactions: trans.transactions },
+                rows: json.coinHoldings,
+                text: () => {
+                    console.log(`${chalk.bold('Portfolio')}`);
+                    console.log(`Balance: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.baseCurrencyBalance*1000)/1000)}`);
+                    console.log(`Total coin value: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.totalCoinValue*1000)/1000)}`);
+                    console.log(`Total value: ${chalk.yellowBright('$')}${chalk.yellow(Math.round(json.totalValue*1000)/1000)}`);
+                    console.log(`Coin holdings`);
+                    console.log('  Symbol | Quantity Owned | Price | P&L% | 24h Change | Value');
+                    for (const holding of json.coinHoldings) {
+                        console.log(`  ${chalk.bgWhite(holding.symbol)} | ${Math.round(holding.quantity*1000)/1000} | ${chalk.yellow('$')}${chalk.yellowBright(holding.currentPrice)} | ${fmt_change(holding.percentageChange)} | ${fmt_change(holding.change24h)} | ${chalk.yellow('$')}${chalk.yellowBright(Math.round(holding.value*1000)/1000)}`);
                     }
-                    case "TRANSFER_IN": {
-                        console.log(`  ${chalk.bgBlue('Received')} ${t.coin.id == 1 ? `${chalk.yellow('$')}${chalk.yellowBright(Math.round(t.totalBaseCurrencyAmount*1000)/1000)}` : `${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coin.symbol)}`} from ${chalk.bold(t.senderUser.username)}`);
+                    console.log('Transactions');
+                    for (const t of trans.transactions) {
+                        switch (t.type) {
+                            case "BUY": {
+                                console.log(`  ${chalk.bgGreen('Buy')} ${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coin.symbol)} for ${chalk.yellow("$")}${chalk.yellowBright(t.totalBaseCurrencyAmount)}`);
+                                break;
+                            }
+                            case "TRANSFER_OUT": {
+                                console.log(`  ${chalk.bgBlue('Transferred')} ${is_cash_transfer(t) ? `${chalk.yellow('$')}${chalk.yellowBright(Math.round(t.totalBaseCurrencyAmount*1000)/1000)}` : `${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coin.symbol)}`} to ${chalk.bold(t.recipientUser?.username)} `);
+                                break;
+                            }
+                            case "SELL": {
+                                console.log(`  ${chalk.bgRedBright('Sell')} ${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coin.symbol)} for ${chalk.yellow("$")}${chalk.yellowBright(t.totalBaseCurrencyAmount)}`);
+                                break;
+                            }
+                            case "TRANSFER_IN": {
+                                console.log(`  ${chalk.bgBlue('Received')} ${is_cash_transfer(t) ? `${chalk.yellow('$')}${chalk.yellowBright(Math.round(t.totalBaseCurrencyAmount*1000)/1000)}` : `${Math.round(t.quantity*1000)/1000} ${chalk.bgWhite(t.coin.symbol)}`} from ${chalk.bold(t.senderUser?.username)}`);
+                            }
+                        }
                     }
+                },
+            });
+        }
+    })
+    .set("snapshot", {
+        desc: "saves your portfolio as it is now, so performance can compare it later. Schedule it with daemon-add to take one every day",
+        args: [], callback: async (_args: Args): Promise<void> => {
+            const previous = read_snapshots(profile).at(-1);
+            const transactions = await transactions_since(client, previous?.lastTransaction);
+            const snapshot = take_snapshot(await client.portfolioTotal(), profile, transactions, previous);
+            append_snapshot(snapshot);
+            render({
+                data: snapshot,
+                rows: snapshot.holdings,
+                text: () => {
+                    const money = (n: number) => `${chalk.yellow('$')}${chalk.yellowBright(Math.round(n*1000)/1000)}`;
+                    console.log(`Saved a snapshot of ${chalk.bold(profile)}: ${money(snapshot.totalValue)} (${money(snapshot.cash)} cash, ${money(snapshot.coinValue)} in ${snapshot.holdings.length} coins)`);
+                    if (snapshot.flows != 0) {
+                        console.log(`Net transfers since the last one: ${snapshot.flows > 0 ? '+' : '-'}${money(Math.abs(snapshot.flows))}`);
+                    }
+                },
+            });
+        }
+    })
+    .set("performance", {
+        desc: "shows how your portfolio did between snapshots: time-weighted return, max drawdown, best and worst coins, allocation drift and an equity curve",
+        args: [],
+        options: [
+            { name: "from", value: "YYYY-MM-DD", desc: "skips snapshots before this day" },
+            { name: "to", value: "YYYY-MM-DD", desc: "skips snapshots after this day" },
+            { name: "width", type: "integer", min: 1, default: 60, desc: "chart columns" },
+            { name: "height", type: "integer", min: 2, default: 10, desc: "chart rows" },
+        ],
+        callback: (args: Args): void => {
+            const from = args.from == undefined ? -Infinity : parse_date(args.from as string).getTime();
+            const to = args.to == undefined ? Infinity : parse_date(args.to as string, true).getTime();
+            const snapshots = read_snapshots(profile).filter((s) => Date.parse(s.time) >= from && Date.parse(s.time) <= to);
+            if (snapshots.length < 2) {
+                throw new Error(`${profile} has ${snapshots.length} snapshot${snapshots.length == 1 ? '' : 's'} in that range, take at least two with 'snapshot' first`);
+            }
+            const perf = compute_performance(snapshots);
+            render({
+                data: perf,
+                rows: perf.curve,
+                text: () => {
+                    const money = (n: number) => `${chalk.yellow('$')}${chalk.yellowBright(Math.round(n*1000)/1000)}`;
+                    const pct = (n: number) => Math.round(n * 10000) / 100;
+                    const day = (t: string) => t.slice(0, 16).replace('T', ' ');
+                    console.log(`${chalk.bold('Performance')} of ${chalk.bold(profile)}, ${perf.snapshots} snapshots from ${day(perf.from)} to ${day(perf.to)}`);
+                    console.log(`Value: ${money(perf.startValue)} to ${money(perf.endValue)}, net transfers ${perf.netFlows >= 0 ? '+' : '-'}${money(Math.abs(perf.netFlows))}`);
+                    console.log(`Profit: ${perf.profit >= 0 ? chalk.greenBright('+$'+Math.round(perf.profit*1000)/1000) : chalk.redBright('-$'+Math.round(-perf.profit*1000)/1000)}`);
+                    console.log(`Time-weighted return: ${fmt_change(pct(perf.timeWeightedReturn))}`);
+                    console.log(`Max drawdown: ${chalk.redBright(pct(perf.maxDrawdown)+'%')}${perf.drawdownPeak ? ` (${day(perf.drawdownPeak)} to ${day(perf.drawdownTrough!)})` : ''}`);
+                    if (perf.holdings.length > 0) {
+                        const best = perf.holdings.slice(0, 3);
+                        const worst = perf.holdings.slice(-3).reverse().filter((h) => !best.includes(h));
+                        for (const [title, list] of [['Best', best], ['Worst', worst]] as const) {
+                            if (list.length > 0) {
+                                console.log(`${title}: ${list.map((h) => `${chalk.bgWhite(h.symbol)} ${fmt_change(pct(h.return))}`).join(', ')}`);
+                            }
+                        }
+                    }
+                    console.log(`Allocation drift: ${pct(perf.totalDrift)}% of the portfolio moved`);
+                    for (const d of perf.drift.filter((d) => Math.abs(d.drift) >= 0.0001)) {
+                        console.log(`  ${d.symbol == 'CASH' ? chalk.bold('Cash') : chalk.bgWhite(d.symbol)} ${pct(d.startWeight)}% to ${pct(d.endWeight)}% (${d.drift >= 0 ? '+' : ''}${pct(d.drift)})`);
+                    }
+                    console.log('');
+                    for (const line of line_chart(perf.curve.map((p) => p.value), args.width as number, args.height as number)) {
+                        console.log(line);
+                    }
+                },
+            });
+        }
+    })
+    .set("record", {
+        desc: "saves the whole market (prices, 24h changes and market caps) to a local dataset every so often, for backtest to replay",
+        args: [],
+        options: [
+            { name: "dataset", default: "default", desc: "the dataset to add to" },
+            { name: "interval", type: "number", min: 0, default: 300, desc: "seconds between recordings" },
+            { name: "pages", type: "integer", min: 1, desc: "only records this many pages of 100 coins" },
+            { name: "ticks", type: "integer", min: 1, desc: "stops after this many recordings" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const dataset = args.dataset as string;
+            const interval = args.interval as number;
+            const ticks = (args.ticks as number | undefined) ?? Infinity;
+            //? Checks the name before the first fetch
+            recording_path(dataset);
+            if (is_text()) {
+                console.log(`Recording the market into ${chalk.bold(dataset)} every ${interval}s, press Ctrl+C to stop`);
+            }
+            for (let tick = 1; tick <= ticks; tick++) {
+                //? A failed recording is only reported, the next one may well work
+                try {
+                    const frame = { time: new Date().toISOString(), coins: await fetch_market(client, (args.pages as number | undefined) ?? Infinity) };
+                    append_frame(dataset, frame);
+                    console.log(is_text() ? `${new Date(frame.time).toLocaleTimeString()} recorded ${chalk.bold(frame.coins.length)} coins` : JSON.stringify({ dataset, time: frame.time, coins: frame.coins.length }));
+                } catch (err) {
+                    if (err instanceof AuthExpiredError) {
+                        throw err;
+                    }
+                    console.error(`${chalk.yellow("Couldn't record the market")}: ${redact(err instanceof Error ? err.message : String(err), cookies())}`);
+                }
+                if (tick < ticks) {
+                    await new Promise((resolve) => setTimeout(resolve, interval * 1000));
                 }
             }
         }
+    })
+    .set("backtest", {
+        desc: "replays a recorded dataset through a strategy with simulated trades and compares it to buying and holding the top coins",
+        args: [],
+        options: [
+            { name: "strategy", default: "equal", desc: `${BACKTEST_STRATEGIES.join(", ")} or the path to a strategy module` },
+            { name: "dataset", default: "default", desc: "the dataset record saved" },
+            { name: "cash", type: "number", min: 0.01, default: 1000, desc: "dollars to start with" },
+            { name: "top", type: "integer", min: 1, default: 5, desc: "coins the built-in strategies and buy-and-hold hold" },
+            { name: "every", type: "integer", min: 1, default: 1, desc: "the built-in strategies rebalance every this many recordings" },
+            { name: "slippage", type: "number", min: 0, default: 1, desc: "percent each fill is worse than the recorded price" },
+            { name: "from", value: "YYYY-MM-DD", desc: "skips recordings before this day" },
+            { name: "to", value: "YYYY-MM-DD", desc: "skips recordings after this day" },
+            { name: "width", type: "integer", min: 1, default: 60, desc: "chart columns" },
+            { name: "height", type: "integer", min: 2, default: 10, desc: "chart rows" },
+        ],
+        callback: async (args: Args): Promise<void> => {
+            const dataset = args.dataset as string;
+            const from = args.from == undefined ? -Infinity : parse_date(args.from as string).getTime();
+            const to = args.to == undefined ? Infinity : parse_date(args.to as string, true).getTime();
+            const frames = read_frames(dataset).filter((f) => Date.parse(f.time) >= from && Date.parse(f.time) <= to);
+            if (frames.length < 2) {
+                throw new Error(`The ${dataset} dataset has ${frames.length} recording${frames.length == 1 ? '' : 's'} in that range, save at least two with 'record --dataset ${dataset}' first`);
+            }
+            const name = args.strategy as string;
+            const options = {
+                cash: args.cash as number,
+                top: args.top as number,
+                every: args.every as number,
+                slippage: (args.slippage as number) / 100,
+            };
+            const result = await run_backtest(frames, await load_strategy(name), name, options);
+            const benchmark = await run_backtest(frames, buy_and_hold, "buy-and-hold", options);
+            render({
+                data: { strategy: result, benchmark },
+                rows: [result, benchmark].map(({ fills: _f, curve: _c, holdings: _h, ...row }) => row),
+                text: () => {
+                    const money = (n: number) => `${chalk.yellow('$')}${chalk.yellowBright(Math.round(n*1000)/1000)}`;
+                    const pct = (n: number) => Math.round(n * 10000) / 100;
+                    console.log(`${chalk.bold('Backtest')} of ${chalk.bold(name)} on ${frames.length} recordings from ${result.from.slice(0, 16).replace('T', ' ')} to ${result.to.slice(0, 16).replace('T', ' ')}`);
+                    console.log('  Strategy | Final value | Return | Trades | Max drawdown');
+                    for (const r of [result, benchmark]) {
+                        console.log(`  ${chalk.bold(r.strategy)} | ${money(r.endValue)} | ${fmt_change(pct(r.return))} | ${r.trades}${r.skipped > 0 ? ` (${r.skipped} skipped)` : ''} | ${chalk.redBright(pct(r.maxDrawdown)+'%')}`);
+                    }
+                    const diff = result.return - benchmark.return;
+                    console.log(`${chalk.bold(name)} ${diff >= 0 ? chalk.greenBright('beat') : chalk.redBright('trailed')} buying and holding the top ${options.top} by ${Math.abs(pct(diff))} points.`);
+                    console.log('');
+                    for (const line of line_chart(result.curve.map((p) => p.value), args.width as number, args.height as number)) {
+                        console.log(line);
+                    }
+                },
+            });
+        }
     });
 
-console.log(chalk.bold(chalk.yellow("Rugplay")+" API"));
-await commands.get("commands")?.callback([]);
+//? Plugin commands are added after the built-in ones, so a plugin can't replace those. One that fails is reported and skipped
+let plugins: LoadedPlugin[] = [];
+try {
+    plugins = await load_plugins(getPluginDir(config), commands, {
+        client,
+        config,
+        profile: () => profile,
+        save_config: () => writeConfig(config),
+        render,
+        is_text,
+    });
+} catch (err) {
+    console.error(`${chalk.yellowBright("Couldn't read the plugin directory")}: ${(err as Error).message}`);
+}
+for (const p of plugins) {
+    if (p.error != undefined) {
+        console.error(`${chalk.yellowBright(`Plugin "${p.name}" wasn't loaded`)}: ${p.error}`);
+    }
+}
 
-while (true) {
-    const input_raw = prompt(">");
-    if (input_raw == null) {
-        break;
+//? Runs a single command, returns false if it doesn't exist or failed so non-interactive runs can exit nonzero
+export async function run_command(name: string, args: string[]): Promise<boolean> {
+    if (!commands.has(name)) {
+        console.log(`${chalk.redBright('Command')} ${chalk.green('"'+name+'"')} ${chalk.redBright('does not exist')}. Type 'commands' to list commands.`);
+        return false;
     }
-    const stream = input_raw.split(" ");
-    if (stream.length < 1) {
-        continue;
+    //? `--json`/`--format`/`--profile` after a command only apply to that command
+    const previous = get_format();
+    const previous_profile = profile;
+    try {
+        const format = take_format_flags(args);
+        if (format != undefined) {
+            set_format(format);
+        }
+        const p = take_profile_flag(args);
+        if (p != undefined) {
+            use_profile(p);
+        }
+        const command = commands.get(name) as Command;
+        await command.callback(parse_args(name, command, args));
+    } catch (err) {
+        render_error(err);
+        return false;
+    } finally {
+        set_format(previous);
+        if (previous_profile in config.profiles) {
+            use_profile(previous_profile);
+        }
     }
-    if (!commands.has(stream[0])) {
-        console.log(`${chalk.redBright('Command')} ${chalk.green('"'+stream[0]+'"')} ${chalk.redBright('does not exist')}. Type 'commands' to list commands.`);
-        continue;
+    return true;
+}
+
+export async function run_line(input_raw: string): Promise<boolean> {
+    let tokens: string[];
+    try {
+        tokens = tokenize(input_raw);
+    } catch (err) {
+        render_error(err);
+        return false;
+    }
+    if (tokens.length == 0) {
+        return true;
+    }
+    return await run_command(tokens[0], tokens.slice(1));
+}
+
+//? Scripts are one command per line, blank lines and lines starting with # are skipped. Like `set -e`, we stop at the first failure
+async function run_script(text: string): Promise<boolean> {
+    for (const line of text.split(/\r?\n/)) {
+        if (line.trim().startsWith("#")) {
+            continue;
+        }
+        if (!await run_line(line)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+//? Only start the CLI when run directly, tests import this file for the commands Map
+if (import.meta.main) {
+    //? Global flags may come before the command and then apply to everything that runs, e.g. `deno run main.ts --profile alt --json market`
+    const cli_args = [...Deno.args];
+    let lead = 0;
+    while (lead < cli_args.length && cli_args[lead].startsWith("--") && cli_args[lead] != "--script") {
+        lead += cli_args[lead] == "--format" || cli_args[lead] == "--profile" ? 2 : 1;
+    }
+    const leading = cli_args.splice(0, lead);
+    try {
+        const format = take_format_flags(leading);
+        if (format != undefined) {
+            set_format(format);
+        }
+        const p = take_profile_flag(leading);
+        if (p != undefined) {
+            use_profile(p);
+        }
+        if (leading.length > 0) {
+            throw new Error(`Unknown option ${leading[0]}`);
+        }
+    } catch (err) {
+        console.log((err as Error).message);
+        Deno.exit(2);
+    }
+
+    if (cli_args.length > 0) {
+        //? deno run main.ts --script morning.rug
+        if (cli_args[0] == "--script") {
+            if (cli_args.length != 2) {
+                console.log(`Usage: ${chalk.bold('--script')} <path>`);
+                Deno.exit(2);
+            }
+            let text: string;
+            try {
+                text = await Deno.readTextFile(cli_args[1]);
+            } catch (err) {
+                console.log(`${chalk.redBright("Couldn't read script")}:`);
+                console.log(err);
+                Deno.exit(1);
+            }
+            Deno.exit(await run_script(text) ? 0 : 1);
+        }
+        //? deno run main.ts summary
+        Deno.exit(await run_command(cli_args[0], cli_args.slice(1)) ? 0 : 1);
     }
-    await commands.get(stream[0])?.callback(stream.slice(1));
-}
\ No newline at end of file
+
+    //? echo summary | deno run main.ts
+    if (!Deno.stdin.isTerminal()) {
+        const text = await new Response(Deno.stdin.readable).text();
+        Deno.exit(await run_script(text) ? 0 : 1);
+    }
+
+    console.log(chalk.bold(chalk.yellow("Rugplay")+" API"));
+    await commands.get("commands")?.callback({});
+
+    while (true) {
+        const input_raw = prompt(">");
+        if (input_raw == null) {
+            break;
+        }
+        await run_line(input_raw);
+    }
+}
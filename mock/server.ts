@@ -0,0 +1,667 @@
+//? A local stand-in for rugplay.com implementing the endpoints the CLI uses, so commands can be tried and tested
+//? without a real account. Run it with `deno run -A mock/server.ts [port] [seed]` and point the CLI at it with
+//? RUGPLAY_BASE_URL=http://localhost:8787, the cookie is "mock-session".
+import { seeded_rng } from "../src/gambling.ts";
+import {
+    COIN_CREATION_FEE,
+    devalue,
+    LINKCOIN_ID,
+    MOCK_COOKIE,
+    MockState,
+    type MockCoin,
+    type MockTransaction,
+    type MockUser,
+    REWARD_AMOUNT,
+    REWARD_COOLDOWN,
+    SLOT_SYMBOLS,
+} from "./state.ts";
+
+export interface MockServer {
+    url: string;
+    state: MockState;
+    shutdown: () => Promise<void>;
+}
+
+//? The market's priceFilter values, as [lowest, highest) prices
+const PRICE_FILTERS: Record<string, [number, number]> = {
+    all: [0, Infinity],
+    under1: [0, 1],
+    "1to10": [1, 10],
+    "10to100": [10, 100],
+    over100: [100, Infinity],
+};
+
+function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+function error(message: string, status = 400): Response {
+    return json({ error: message }, status);
+}
+
+function iso(t: number): string {
+    return new Date(t).toISOString();
+}
+
+function round(n: number): number {
+    return Math.round(n * 1e8) / 1e8;
+}
+
+function market_coin(state: MockState, c: MockCoin) {
+    return {
+        symbol: c.symbol,
+        name: c.name,
+        icon: c.icon,
+        currentPrice: state.price(c),
+        marketCap: state.market_cap(c),
+        volume24h: c.volume24h,
+        change24h: c.change24h,
+        createdAt: iso(c.createdAt),
+        creatorName: state.users.find((u) => u.id == c.creatorId)?.name ?? "unknown",
+    };
+}
+
+const TIMEFRAME_MS: Record<string, number> = { "1m": 60_000, "5m": 300_000, "15m": 900_000, "1h": 3_600_000, "4h": 14_400_000, "1d": 86_400_000 };
+
+//? Made-up but reproducible price history: a random walk backwards from the current price, seeded by the coin and timeframe
+function coin_page(state: MockState, c: MockCoin, timeframe: string) {
+    const step = TIMEFRAME_MS[timeframe];
+    const rng = seeded_rng(c.id * 31 + Object.keys(TIMEFRAME_MS).indexOf(timeframe));
+    const end = Math.floor(state.clock / step) * step;
+    const candlestickData = [];
+    const volumeData = [];
+    let close = state.price(c);
+    for (let i = 0; i < 60; i++) {
+        const open = close / (1 + (rng() - 0.5) * 0.06);
+        const time = (end - i * step) / 1000;
+        candlestickData.unshift({
+            time,
+            open: round(open),
+            high: round(Math.max(open, close) * (1 + rng() * 0.01)),
+            low: round(Math.min(open, close) * (1 - rng() * 0.01)),
+            close: round(close),
+        });
+        volumeData.unshift({ time, volume: round(c.volume24h * rng() / 24) });
+        close = open;
+    }
+    const creator = state.users.find((u) => u.id == c.creatorId);
+    return {
+        coin: {
+            ...market_coin(state, c),
+            id: c.id,
+            poolCoinAmount: c.poolCoinAmount,
+            poolBaseCurrencyAmount: c.poolBaseCurrencyAmount,
+            circulatingSupply: c.circulatingSupply,
+            initialSupply: c.circulatingSupply,
+            isListed: true,
+            creatorId: c.creatorId,
+            creatorUsername: creator?.username,
+            creatorBio: creator?.bio,
+            creatorImage: creator?.image,
+        },
+        candlestickData,
+        volumeData,
+        timeframe,
+    };
+}
+
+function holders(state: MockState, c: MockCoin, limit: number) {
+    const all = state.users
+        .filter((u) => (u.holdings[c.symbol]?.quantity ?? 0) > 0)
+        .map((u) => ({ user: u, quantity: u.holdings[c.symbol].quantity }))
+        .sort((a, b) => b.quantity - a.quantity);
+    return {
+        coinSymbol: c.symbol,
+        totalHolders: all.length,
+        circulatingSupply: c.circulatingSupply,
+        poolInfo: {
+            currentPrice: state.price(c),
+            baseCurrencyLiquidity: c.poolBaseCurrencyAmount,
+            coinLiquidity: c.poolCoinAmount,
+        },
+        holders: all.slice(0, limit).map((h, i) => ({
+            rank: i + 1,
+            userId: h.user.id,
+            username: h.user.username,
+            name: h.user.name,
+            image: h.user.image,
+            quantity: h.quantity,
+            percentage: round(h.quantity / c.circulatingSupply * 100),
+            //? What selling everything into the pool would pay out
+            liquidationValue: round(c.poolBaseCurrencyAmount * h.quantity / (c.poolCoinAmount + h.quantity)),
+        })),
+    };
+}
+
+function portfolio(state: MockState, user: MockUser) {
+    const coinHoldings = Object.entries(user.holdings)
+        .filter(([_, h]) => h.quantity > 0)
+        .map(([symbol, h]) => {
+            const c = state.coin_by_symbol(symbol) as MockCoin;
+            const currentPrice = state.price(c);
+            const value = h.quantity * currentPrice;
+            return {
+                symbol,
+                icon: c.icon,
+                quantity: h.quantity,
+                currentPrice,
+                value,
+                change24h: c.change24h,
+                avgPurchasePrice: h.costBasis / h.quantity,
+                percentageChange: h.costBasis == 0 ? 0 : round((value - h.costBasis) / h.costBasis * 100),
+                costBasis: h.costBasis,
+            };
+        });
+    const totalCoinValue = coinHoldings.reduce((a, h) => a + h.value, 0);
+    return {
+        baseCurrencyBalance: user.balance,
+        totalCoinValue,
+        totalValue: user.balance + totalCoinValue,
+        coinHoldings,
+        currency: "$",
+    };
+}
+
+function transaction(state: MockState, t: MockTransaction) {
+    const c = state.coins.find((c) => c.id == t.coinId) as MockCoin;
+    const user = (id?: number) => {
+        const u = state.users.find((u) => u.id == id);
+        return u == undefined ? null : { id: u.id, username: u.username };
+    };
+    return {
+        id: t.id,
+        type: t.type,
+        quantity: t.quantity,
+        pricePerCoin: t.pricePerCoin,
+        totalBaseCurrencyAmount: t.totalBaseCurrencyAmount,
+        timestamp: iso(t.timestamp),
+        coin: { id: c.id, name: c.name, symbol: c.symbol, icon: c.icon },
+        senderUser: user(t.senderUserId),
+        recipientUser: user(t.recipientUserId),
+    };
+}
+
+function user_page(state: MockState, user: MockUser) {
+    const p = portfolio(state, user);
+    const txs = state.transactions.filter((t) => t.userId == user.id);
+    const created = state.coins.filter((c) => c.creatorId == user.id && c.id != LINKCOIN_ID);
+    return {
+        profile: {
+            id: user.id,
+            name: user.name,
+            username: user.username,
+            bio: user.bio,
+            image: user.image,
+            createdAt: iso(user.createdAt),
+            baseCurrencyBalance: user.balance,
+            isAdmin: user.isAdmin,
+        },
+        stats: {
+            totalPortfolioValue: p.totalValue,
+            holdingsValue: p.totalCoinValue,
+            holdingsCount: p.coinHoldings.length,
+            coinsCreated: created.length,
+            totalTransactions: txs.length,
+            totalBuyVolume: txs.filter((t) => t.type == "BUY").reduce((a, t) => a + t.totalBaseCurrencyAmount, 0),
+            totalSellVolume: txs.filter((t) => t.type == "SELL").reduce((a, t) => a + t.totalBaseCurrencyAmount, 0),
+        },
+        createdCoins: created.map((c) => ({ id: c.id, ...market_coin(state, c) })),
+        recentTransactions: txs.toSorted((a, b) => b.timestamp - a.timestamp).slice(0, 10).map((t) => {
+            const c = state.coins.find((c) => c.id == t.coinId) as MockCoin;
+            return {
+                id: t.id,
+                type: t.type,
+                coinSymbol: c.symbol,
+                coinName: c.name,
+                coinIcon: c.icon,
+                quantity: t.quantity,
+                pricePerCoin: t.pricePerCoin,
+                totalBaseCurrencyAmount: t.totalBaseCurrencyAmount,
+                timestamp: iso(t.timestamp),
+                senderUsername: state.users.find((u) => u.id == t.senderUserId)?.username ?? null,
+                recipientUsername: state.users.find((u) => u.id == t.recipientUserId)?.username ?? null,
+            };
+        }),
+    };
+}
+
+//? The page data the real site returns: the root layout holds the user (null when logged out), the page node is skipped
+//? since x-sveltekit-invalidated=10 only asks for the layout. Like the real site, the balance is a numeric column sent as a string
+function layout_data(user: MockUser | undefined) {
+    return {
+        type: "data",
+        nodes: [{
+            type: "data",
+            data: devalue({
+                userSession: user == undefined ? null : {
+                    id: user.id,
+                    name: user.name,
+                    username: user.username,
+                    isAdmin: user.isAdmin,
+                    image: user.image,
+                    isBanned: false,
+                    banReason: null,
+                    email: user.email,
+                    createdAt: new Date(user.createdAt),
+                    baseCurrencyBalance: String(user.balance),
+                    bio: user.bio,
+                    loginStreak: user.loginStreak,
+                },
+            }),
+            uid: null,
+        }, { type: "skip" }],
+    };
+}
+
+function trade(state: MockState, user: MockUser, c: MockCoin, type: string, amount: number): Response {
+    if (!(amount > 0)) {
+        return error("Invalid amount");
+    }
+    const oldPrice = state.price(c);
+    const k = c.poolCoinAmount * c.poolBaseCurrencyAmount;
+    const holding = user.holdings[c.symbol] ?? { quantity: 0, costBasis: 0 };
+    let quantity: number, total: number;
+    if (type == "BUY") {
+        if (amount > user.balance) {
+            return error("Insufficient funds");
+        }
+        total = amount;
+        quantity = c.poolCoinAmount - k / (c.poolBaseCurrencyAmount + amount);
+        c.poolBaseCurrencyAmount += amount;
+        c.poolCoinAmount -= quantity;
+        user.balance -= amount;
+        holding.quantity += quantity;
+        holding.costBasis += amount;
+    } else if (type == "SELL") {
+        if (amount > holding.quantity + 1e-9) {
+            return error("Insufficient coins");
+        }
+        quantity = amount;
+        total = c.poolBaseCurrencyAmount - k / (c.poolCoinAmount + amount);
+        c.poolCoinAmount += amount;
+        c.poolBaseCurrencyAmount -= total;
+        user.balance += total;
+        holding.costBasis -= holding.costBasis * (amount / holding.quantity);
+        holding.quantity -= amount;
+    } else {
+        return error("Invalid trade type");
+    }
+    user.holdings[c.symbol] = holding;
+    c.volume24h += total;
+    state.transactions.push({
+        id: state.id(),
+        userId: user.id,
+        type,
+        coinId: c.id,
+        quantity,
+        pricePerCoin: total / quantity,
+        totalBaseCurrencyAmount: total,
+        timestamp: state.tick(),
+    });
+    const newPrice = state.price(c);
+    return json({
+        success: true,
+        type,
+        ...(type == "BUY" ? { coinsBought: quantity, totalCost: total } : { coinsSold: quantity, totalReceived: total }),
+        newPrice,
+        priceImpact: (newPrice - oldPrice) / oldPrice * 100,
+        newBalance: user.balance,
+    });
+}
+
+function gamble_check(user: MockUser, amount: unknown): Response | undefined {
+    if (typeof amount != "number" || !(amount > 0)) {
+        return error("Invalid bet amount");
+    }
+    if (amount > user.balance) {
+        return error("Insufficient funds");
+    }
+    return undefined;
+}
+
+/** Routes one request, exported so tests can call it without binding a port. */
+export async function handle(state: MockState, req: Request): Promise<Response> {
+    state.requests++;
+    const fault = state.faults.shift();
+    if (fault?.delay) {
+        await new Promise((resolve) => setTimeout(resolve, fault.delay));
+    }
+    if (fault?.status) {
+        return new Response(fault.body ?? JSON.stringify({ error: `Injected ${fault.status}` }), {
+            status: fault.status,
+            headers: { "Content-Type": "application/json", ...fault.headers },
+        });
+    }
+    const url = new URL(req.url);
+    const p = url.pathname;
+    const user = state.user_by_cookie(req.headers.get("Cookie"));
+
+    if (p == "/__data.json") {
+        return json(layout_data(user));
+    }
+    if (!p.startsWith("/api/")) {
+        return error("Not found", 404);
+    }
+    const route = p.slice("/api/".length);
+
+    //? Public endpoints
+    if (req.method == "GET" && route == "market") {
+        const q = url.searchParams;
+        const search = (q.get("search") ?? "").toLowerCase();
+        const sortBy = q.get("sortBy") ?? "marketCap";
+        const order = q.get("sortOrder") == "asc" ? 1 : -1;
+        const page = Math.max(1, parseInt(q.get("page") ?? "1") || 1);
+        const limit = Math.max(1, parseInt(q.get("limit") ?? "12") || 12);
+        const changeFilter = q.get("changeFilter") ?? "all";
+        const [low, high] = PRICE_FILTERS[q.get("priceFilter") ?? "all"] ?? PRICE_FILTERS.all;
+        const coins = state.coins
+            .filter((c) => c.id != LINKCOIN_ID)
+            .map((c) => market_coin(state, c))
+            .filter((c) => search == "" || c.symbol.toLowerCase().includes(search) || c.name.toLowerCase().includes(search))
+            .filter((c) => c.currentPrice >= low && c.currentPrice < high)
+            .filter((c) => changeFilter == "gainers" ? c.change24h > 0 : changeFilter == "losers" ? c.change24h < 0 : true)
+            .sort((a, b) => {
+                const x = a[sortBy as keyof typeof a] ?? 0, y = b[sortBy as keyof typeof b] ?? 0;
+                return (x < y ? -1 : x > y ? 1 : 0) * order;
+            });
+        return json({
+            coins: coins.slice((page - 1) * limit, page * limit),
+            total: coins.length,
+            page,
+            limit,
+            totalPages: Math.max(1, Math.ceil(coins.length / limit)),
+        });
+    }
+    let m = route.match(/^user\/([^/]+)$/);
+    if (req.method == "GET" && m) {
+        const u = state.user_by_name(decodeURIComponent(m[1]));
+        return u == undefined ? error("User not found", 404) : json(user_page(state, u));
+    }
+
+    m = route.match(/^coin\/([^/]+)$/);
+    if (req.method == "GET" && m) {
+        const c = state.coin_by_symbol(decodeURIComponent(m[1]));
+        const timeframe = url.searchParams.get("timeframe") ?? "1m";
+        if (c == undefined) {
+            return error("Coin not found", 404);
+        }
+        return timeframe in TIMEFRAME_MS ? json(coin_page(state, c, timeframe)) : error("Invalid timeframe");
+    }
+    m = route.match(/^coin\/([^/]+)\/holders$/);
+    if (req.method == "GET" && m) {
+        const c = state.coin_by_symbol(decodeURIComponent(m[1]));
+        const limit = Math.max(1, parseInt(url.searchParams.get("limit") ?? "50") || 50);
+        return c == undefined ? error("Coin not found", 404) : json(holders(state, c, limit));
+    }
+
+    if (user == undefined) {
+        return error("Unauthorized", 401);
+    }
+
+    if (req.method == "GET" && route == "portfolio/summary") {
+        const { coinHoldings: _, ...summary } = portfolio(state, user);
+        return json(summary);
+    }
+    if (req.method == "GET" && route == "portfolio/total") {
+        return json(portfolio(state, user));
+    }
+    if (req.method == "GET" && route == "transactions") {
+        const page = Math.max(1, parseInt(url.searchParams.get("page") ?? "1") || 1);
+        const limit = Math.max(1, parseInt(url.searchParams.get("limit") ?? "20") || 20);
+        const txs = state.transactions.filter((t) => t.userId == user.id).toSorted((a, b) => b.timestamp - a.timestamp);
+        return json({
+            transactions: txs.slice((page - 1) * limit, page * limit).map((t) => transaction(state, t)),
+            total: txs.length,
+            page,
+            limit,
+        });
+    }
+    if (req.method == "GET" && route == "notifications") {
+        const limit = Math.min(50, Math.max(1, parseInt(url.searchParams.get("limit") ?? "20") || 20));
+        const offset = Math.max(0, parseInt(url.searchParams.get("offset") ?? "0") || 0);
+        const notifs = state.notifications.filter((n) => n.userId == user.id).toSorted((a, b) => b.createdAt - a.createdAt || b.id - a.id);
+        return json({
+            notifications: notifs.slice(offset, offset + limit).map(({ userId: _, createdAt, ...n }) => ({ ...n, createdAt: iso(createdAt) })),
+            unreadCount: notifs.filter((n) => !n.isRead).length,
+        });
+    }
+    if (req.method == "PATCH" && route == "notifications") {
+        const body = await req.json();
+        if (body.markAsRead !== true || (body.ids != undefined && !Array.isArray(body.ids))) {
+            return json({ error: "Invalid request" }, 400);
+        }
+        for (const n of state.notifications) {
+            if (n.userId == user.id && (body.ids == undefined || body.ids.includes(n.id))) {
+                n.isRead = true;
+            }
+        }
+        return json({ success: true });
+    }
+    if (req.method == "POST" && route == "gambling/coinflip") {
+        const body = await req.json();
+        const invalid = gamble_check(user, body.amount);
+        if (invalid) {
+            return invalid;
+        }
+        if (body.side != "heads" && body.side != "tails") {
+            return error("Invalid side");
+        }
+        const won = state.rng() < 0.5;
+        const payout = won ? body.amount * 2 : 0;
+        user.balance += payout - body.amount;
+        state.tick();
+        return json({
+            won,
+            result: won ? body.side : (body.side == "heads" ? "tails" : "heads"),
+            newBalance: user.balance,
+            payout,
+            amountWagered: body.amount,
+        });
+    }
+    if (req.method == "POST" && route == "gambling/slots") {
+        const body = await req.json();
+        const invalid = gamble_check(user, body.amount);
+        if (invalid) {
+            return invalid;
+        }
+        const symbols = [0, 1, 2].map(() => SLOT_SYMBOLS[Math.floor(state.rng() * SLOT_SYMBOLS.length)]);
+        //? Three of a kind pays 5x, a pair pays 2x
+        const matches = Math.max(...symbols.map((s) => symbols.filter((x) => x == s).length));
+        const payout = matches == 3 ? body.amount * 5 : matches == 2 ? body.amount * 2 : 0;
+        user.balance += payout - body.amount;
+        state.tick();
+        return json({
+            won: payout > 0,
+            symbols,
+            newBalance: user.balance,
+            payout,
+            amountWagered: body.amount,
+            winningSymbol: matches > 1 ? symbols.find((s) => symbols.filter((x) => x == s).length == matches) : null,
+        });
+    }
+    m = route.match(/^coin\/([^/]+)\/trade$/);
+    if (req.method == "POST" && m) {
+        const c = state.coin_by_symbol(decodeURIComponent(m[1]));
+        if (c == undefined) {
+            return error("Coin not found", 404);
+        }
+        const body = await req.json();
+        return trade(state, user, c, body.type, body.amount);
+    }
+    if (req.method == "POST" && route == "coin/create") {
+        const form = await req.formData();
+        const name = form.get("name"), symbol = form.get("symbol");
+        if (typeof name != "string" || typeof symbol != "string" || name == "" || !/^[A-Za-z0-9]{2,10}$/.test(symbol)) {
+            return error("Invalid name or symbol");
+        }
+        if (state.coin_by_symbol(symbol)) {
+            return error("A coin with this symbol already exists");
+        }
+        if (user.balance < COIN_CREATION_FEE) {
+            return error("Insufficient funds");
+        }
+        user.balance -= COIN_CREATION_FEE;
+        const c: MockCoin = {
+            id: state.id(),
+            symbol: symbol.toUpperCase(),
+            name,
+            icon: form.get("icon") instanceof File ? `coins/${symbol.toLowerCase()}.png` : null,
+            creatorId: user.id,
+            poolCoinAmount: 1_000_000_000,
+            poolBaseCurrencyAmount: COIN_CREATION_FEE,
+            circulatingSupply: 1_000_000_000,
+            change24h: 0,
+            volume24h: 0,
+            createdAt: state.tick(),
+        };
+        state.coins.push(c);
+        return json({
+            success: true,
+            coin: { id: c.id, name: c.name, symbol: c.symbol, icon: c.icon },
+            feePaid: COIN_CREATION_FEE,
+            message: "Coin created successfully!",
+        });
+    }
+    if (req.method == "GET" && route == "rewards/claim") {
+        const remaining = user.lastRewardClaim == null ? 0 : Math.max(0, user.lastRewardClaim + REWARD_COOLDOWN - state.clock);
+        return json({
+            canClaim: remaining == 0,
+            rewardAmount: REWARD_AMOUNT,
+            timeRemaining: remaining,
+            nextClaimTime: remaining == 0 ? null : iso(state.clock + remaining),
+            totalRewardsClaimed: user.totalRewardsClaimed,
+            lastRewardClaim: user.lastRewardClaim == null ? null : iso(user.lastRewardClaim),
+            loginStreak: user.loginStreak,
+        });
+    }
+    if (req.method == "POST" && route == "rewards/claim") {
+        if (user.lastRewardClaim != null && state.clock - user.lastRewardClaim < REWARD_COOLDOWN) {
+            return error("Daily reward already claimed");
+        }
+        user.lastRewardClaim = state.tick();
+        user.balance += REWARD_AMOUNT;
+        user.totalRewardsClaimed += REWARD_AMOUNT;
+        return json({
+            success: true,
+            rewardAmount: REWARD_AMOUNT,
+            newBalance: user.balance,
+            totalRewardsClaimed: user.totalRewardsClaimed,
+            loginStreak: user.loginStreak,
+            nextClaimTime: iso(user.lastRewardClaim + REWARD_COOLDOWN),
+        });
+    }
+    if (req.method == "POST" && route == "promo/verify") {
+        const body = await req.json();
+        const code = String(body.code ?? "").toUpperCase();
+        if (!(code in state.promoCodes)) {
+            return error("Invalid promo code");
+        }
+        if (user.redeemedCodes.includes(code)) {
+            return error("You have already redeemed this code");
+        }
+        user.redeemedCodes.push(code);
+        user.balance += state.promoCodes[code];
+        state.tick();
+        return json({
+            success: true,
+            message: `Successfully redeemed! You received $${state.promoCodes[code]}`,
+            rewardAmount: state.promoCodes[code],
+            newBalance: user.balance,
+        });
+    }
+    if (req.method == "POST" && route == "transfer") {
+        const body = await req.json();
+        const amount = Number(body.amount);
+        const recipient = state.user_by_name(String(body.recipientUsername ?? ""));
+        if (recipient == undefined) {
+            return error("Recipient not found", 404);
+        }
+        if (recipient.id == user.id) {
+            return error("Cannot transfer to yourself");
+        }
+        if (!(amount > 0)) {
+            return error("Invalid amount");
+        }
+        const timestamp = state.tick();
+        const entry = (userId: number, type: "TRANSFER_IN" | "TRANSFER_OUT", coinId: number, quantity: number, price: number, total: number) =>
+            state.transactions.push({ id: state.id(), userId, type, coinId, quantity, pricePerCoin: price, totalBaseCurrencyAmount: total, timestamp, senderUserId: user.id, recipientUserId: recipient.id });
+        const notify = (message: string) =>
+            state.notifications.push({ id: state.id(), userId: recipient.id, type: "TRANSFER", title: "Money received", message, isRead: false, createdAt: timestamp });
+        if (body.type == "CASH") {
+            if (amount > user.balance) {
+                return error("Insufficient funds");
+            }
+            user.balance -= amount;
+            recipient.balance += amount;
+            //? Like the real site, cash moves against the LINKCOIN placeholder
+            entry(user.id, "TRANSFER_OUT", LINKCOIN_ID, 0, 0, amount);
+            entry(recipient.id, "TRANSFER_IN", LINKCOIN_ID, 0, 0, amount);
+            notify(`${user.username} sent you $${amount}`);
+            return json({ success: true, type: "CASH", amount, recipient: recipient.username, newBalance: user.balance, message: `Successfully sent $${amount} to @${recipient.username}` });
+        }
+        if (body.type == "COIN") {
+            const c = state.coin_by_symbol(String(body.coinSymbol ?? ""));
+            if (c == undefined) {
+                return error("Coin not found", 404);
+            }
+            const holding = user.holdings[c.symbol];
+            if (holding == undefined || amount > holding.quantity + 1e-9) {
+                return error("Insufficient coins");
+            }
+            const price = state.price(c);
+            const basis = holding.costBasis * (amount / holding.quantity);
+            holding.costBasis -= basis;
+            holding.quantity -= amount;
+            const theirs = recipient.holdings[c.symbol] ?? { quantity: 0, costBasis: 0 };
+            recipient.holdings[c.symbol] = { quantity: theirs.quantity + amount, costBasis: theirs.costBasis + amount * price };
+            entry(user.id, "TRANSFER_OUT", c.id, amount, price, amount * price);
+            entry(recipient.id, "TRANSFER_IN", c.id, amount, price, amount * price);
+            notify(`${user.username} sent you ${amount} ${c.symbol}`);
+            return json({ success: true, type: "COIN", amount, coinSymbol: c.symbol, estimatedValue: amount * price, recipient: recipient.username, message: `Successfully sent ${amount} ${c.symbol} to @${recipient.username}` });
+        }
+        return error("Invalid transfer type");
+    }
+    if (req.method == "POST" && route == "settings") {
+        const form = await req.formData();
+        const name = form.get("name"), username = form.get("username"), bio = form.get("bio");
+        if (typeof name != "string" || name == "") {
+            return error("Name is required");
+        }
+        if (typeof username == "string") {
+            if (state.users.some((u) => u.username == username && u.id != user.id)) {
+                return error("Username is already taken");
+            }
+            user.username = username;
+        }
+        user.name = name;
+        if (typeof bio == "string") {
+            user.bio = bio;
+        }
+        if (form.get("avatar") instanceof File) {
+            user.image = `avatars/${user.id}.png`;
+        }
+        state.tick();
+        return json({ success: true });
+    }
+    return error("Not found", 404);
+}
+
+/** Starts the mock on `port` (0 picks a free one) with a fresh state built from `seed`. */
+export function start_mock_server(port = 0, seed = 1): MockServer {
+    const state = new MockState(seed);
+    const server = Deno.serve({ port, hostname: "127.0.0.1", onListen: () => {} }, (req) => handle(state, req));
+    return {
+        url: `http://127.0.0.1:${server.addr.port}`,
+        state,
+        shutdown: () => server.shutdown(),
+    };
+}
+
+if (import.meta.main) {
+    const server = start_mock_server(parseInt(Deno.args[0] ?? "8787"), parseInt(Deno.args[1] ?? "1"));
+    console.log(`Mock Rugplay listening on ${server.url}`);
+    console.log(`Use it with RUGPLAY_BASE_URL=${server.url} and the cookie "${MOCK_COOKIE}"`);
+}
@@ -0,0 +1,227 @@
+//? In-memory state behind the mock Rugplay server. Everything is derived from a seed and a fake clock so
+//? test runs are reproducible: the clock only moves when something happens or when a test calls advance().
+
+import { seeded_rng } from "../src/gambling.ts";
+
+export const MOCK_COOKIE = "mock-session";
+export const LINKCOIN_ID = 1; //? Rugplay records cash transfers against this placeholder coin
+export const COIN_CREATION_FEE = 100;
+export const REWARD_AMOUNT = 1000;
+export const REWARD_COOLDOWN = 12 * 60 * 60 * 1000;
+export const SLOT_SYMBOLS = ["wattesigma", "webx", "twoblade", "lyntr", "bussin", "subterfuge"];
+
+export interface MockUser {
+    id: number;
+    name: string;
+    username: string;
+    email: string;
+    bio: string;
+    image: string | null;
+    isAdmin: boolean;
+    balance: number;
+    createdAt: number;
+    holdings: Record<string, { quantity: number; costBasis: number }>;
+    loginStreak: number;
+    totalRewardsClaimed: number;
+    lastRewardClaim: number | null;
+    redeemedCodes: string[];
+}
+
+export interface MockCoin {
+    id: number;
+    symbol: string;
+    name: string;
+    icon: string | null;
+    creatorId: number;
+    poolCoinAmount: number;
+    poolBaseCurrencyAmount: number;
+    circulatingSupply: number;
+    change24h: number;
+    volume24h: number;
+    createdAt: number;
+}
+
+export interface MockTransaction {
+    id: number;
+    userId: number;
+    type: "BUY" | "SELL" | "TRANSFER_IN" | "TRANSFER_OUT";
+    coinId: number;
+    quantity: number;
+    pricePerCoin: number;
+    totalBaseCurrencyAmount: number;
+    timestamp: number;
+    senderUserId?: number;
+    recipientUserId?: number;
+}
+
+export interface MockNotification {
+    id: number;
+    userId: number;
+    type: string;
+    title: string;
+    message: string;
+    isRead: boolean;
+    createdAt: number;
+}
+
+/** Makes the mock misbehave for one request: wait `delay` ms first, then answer with `status` instead of handling it. */
+export interface MockFault {
+    delay?: number;
+    status?: number;
+    headers?: Record<string, string>;
+    body?: string;
+}
+
+export class MockState {
+    users: MockUser[] = [];
+    coins: MockCoin[] = [];
+    transactions: MockTransaction[] = [];
+    notifications: MockNotification[] = [];
+    //? cookie -> user id
+    sessions: Record<string, number> = {};
+    promoCodes: Record<string, number> = { WELCOME: 500 };
+    //? Consumed one per request, see MockFault
+    faults: MockFault[] = [];
+    requests = 0;
+    clock: number;
+    rng: () => number;
+    private next_id = 100;
+
+    constructor(seed = 1) {
+        this.rng = seeded_rng(seed);
+        this.clock = Date.UTC(2025, 5, 1);
+        const t = this.clock - 7 * 24 * 60 * 60 * 1000;
+
+        const user = (id: number, name: string, username: string, balance: number): MockUser => ({
+            id, name, username, balance,
+            email: `${username}@example.com`,
+            bio: `Hi, I'm ${name}`,
+            image: null,
+            isAdmin: false,
+            createdAt: t,
+            holdings: {},
+            loginStreak: 1,
+            totalRewardsClaimed: 0,
+            lastRewardClaim: null,
+            redeemedCodes: [],
+        });
+        this.users.push(user(1, "Mock Trader", "mock", 10000), user(2, "Alice", "alice", 50000), user(3, "Bob", "bob", 2000));
+        this.sessions[MOCK_COOKIE] = 1;
+
+        const coin = (id: number, symbol: string, name: string, creatorId: number, poolBase: number, change24h: number, age: number): MockCoin => ({
+            id, symbol, name, creatorId, change24h,
+            icon: null,
+            poolCoinAmount: 1_000_000,
+            poolBaseCurrencyAmount: poolBase,
+            circulatingSupply: 1_000_000_000,
+            volume24h: poolBase / 10,
+            createdAt: this.clock - age,
+        });
+        this.coins.push(
+            coin(LINKCOIN_ID, "LINK", "LINKCOIN", 2, 1, 0, 30 * 86400000),
+            coin(2, "BTCR", "Bitcoin Rug", 2, 50000, 12.5, 6 * 86400000),
+            coin(3, "MOON", "Moon Shot", 2, 20000, -4.2, 5 * 86400000),
+            coin(4, "RUG", "Rug Pull", 3, 8000, 0, 4 * 86400000),
+            coin(5, "DOGE2", "Doge Two", 3, 5000, 33.3, 3 * 86400000),
+            coin(6, "PUMP", "Pump It", 2, 3000, -50, 2 * 86400000),
+            coin(7, "SAFE", "Safe Moon", 3, 1000, 1.5, 86400000),
+            coin(8, "HODL", "Hold On", 2, 500, -0.5, 3600000),
+        );
+
+        //? Some history so portfolio and view-user have every transaction type to render
+        this.users[0].holdings["BTCR"] = { quantity: 100, costBasis: 4000 };
+        this.users[0].holdings["MOON"] = { quantity: 50, costBasis: 1200 };
+        //? bob kept a big share of his own RUG and has been selling it, so risk scoring has a bad coin to find
+        this.users[2].holdings["RUG"] = { quantity: 400_000_000, costBasis: 0 };
+        this.transactions.push(
+            { id: 1, userId: 1, type: "BUY", coinId: 2, quantity: 100, pricePerCoin: 40, totalBaseCurrencyAmount: 4000, timestamp: t + 1000 },
+            { id: 2, userId: 1, type: "BUY", coinId: 3, quantity: 60, pricePerCoin: 20, totalBaseCurrencyAmount: 1200, timestamp: t + 2000 },
+            { id: 3, userId: 1, type: "TRANSFER_OUT", coinId: 3, quantity: 10, pricePerCoin: 20, totalBaseCurrencyAmount: 200, timestamp: t + 3000, senderUserId: 1, recipientUserId: 2 },
+            { id: 4, userId: 2, type: "TRANSFER_IN", coinId: 3, quantity: 10, pricePerCoin: 20, totalBaseCurrencyAmount: 200, timestamp: t + 3000, senderUserId: 1, recipientUserId: 2 },
+            { id: 5, userId: 1, type: "TRANSFER_IN", coinId: LINKCOIN_ID, quantity: 0, pricePerCoin: 0, totalBaseCurrencyAmount: 250, timestamp: t + 4000, senderUserId: 3, recipientUserId: 1 },
+            { id: 6, userId: 3, type: "TRANSFER_OUT", coinId: LINKCOIN_ID, quantity: 0, pricePerCoin: 0, totalBaseCurrencyAmount: 250, timestamp: t + 4000, senderUserId: 3, recipientUserId: 1 },
+            { id: 7, userId: 2, type: "SELL", coinId: 2, quantity: 500, pricePerCoin: 45, totalBaseCurrencyAmount: 22500, timestamp: t + 5000 },
+            { id: 8, userId: 3, type: "SELL", coinId: 4, quantity: 1000, pricePerCoin: 0.008, totalBaseCurrencyAmount: 8, timestamp: t + 6000 },
+        );
+        this.notifications.push(
+            { id: 1, userId: 1, type: "SYSTEM", title: "Welcome", message: "Welcome to Rugplay!", isRead: true, createdAt: t },
+            { id: 2, userId: 1, type: "TRANSFER", title: "Money received", message: "bob sent you $250", isRead: false, createdAt: t + 4000 },
+        );
+    }
+
+    id(): number {
+        return this.next_id++;
+    }
+
+    /** Moves the fake clock, e.g. past the daily reward cooldown. */
+    advance(ms: number) {
+        this.clock += ms;
+    }
+
+    //? Every state change happens a second after the last one, so ordering by timestamp is stable
+    tick(): number {
+        this.clock += 1000;
+        return this.clock;
+    }
+
+    user_by_cookie(cookie: string | null): MockUser | undefined {
+        if (cookie == null) {
+            return undefined;
+        }
+        const id = this.sessions[cookie.trim()];
+        return this.users.find((u) => u.id == id);
+    }
+
+    user_by_name(username: string): MockUser | undefined {
+        return this.users.find((u) => u.username == username);
+    }
+
+    coin_by_symbol(symbol: string): MockCoin | undefined {
+        return this.coins.find((c) => c.symbol == symbol.toUpperCase() && c.id != LINKCOIN_ID);
+    }
+
+    price(c: MockCoin): number {
+        return c.poolBaseCurrencyAmount / c.poolCoinAmount;
+    }
+
+    market_cap(c: MockCoin): number {
+        return this.price(c) * c.circulatingSupply;
+    }
+}
+
+/**
+ * A minimal encoder for devalue, the format SvelteKit's __data.json uses: every value is flattened into one
+ * array and objects refer to their members by index. Primitives are deduplicated, like the real thing does, and
+ * Dates are written as ["Date", iso].
+ */
+export function devalue(value: unknown): unknown[] {
+    const out: unknown[] = [];
+    const indexes = new Map<unknown, number>();
+    const flatten = (v: unknown): number => {
+        if (v === undefined) {
+            return -1;
+        }
+        if (indexes.has(v)) {
+            return indexes.get(v) as number;
+        }
+        const index = out.length;
+        indexes.set(v, index);
+        out.push(undefined);
+        if (v instanceof Date) {
+            out[index] = ["Date", v.toISOString()];
+        } else if (Array.isArray(v)) {
+            out[index] = v.map(flatten);
+        } else if (v != null && typeof v == "object") {
+            const obj: Record<string, number> = {};
+            for (const [k, child] of Object.entries(v)) {
+                obj[k] = flatten(child);
+            }
+            out[index] = obj;
+        } else {
+            out[index] = v;
+        }
+        return index;
+    };
+    flatten(value);
+    return out;
+}
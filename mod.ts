@@ -0,0 +1,20 @@
+//? Library entry point, import this instead of main.ts (which starts the REPL) to use the client from your own scripts.
+export { BASE_URL, DEFAULT_MARKET_QUERY, DEFAULT_REQUEST_OPTIONS, RugplayClient } from "./src/client.ts";
+export type { ClientOptions, RequestOptions } from "./src/client.ts";
+export {
+    ApiError,
+    AuthExpiredError,
+    NetworkError,
+    NoCookieError,
+    RateLimitedError,
+    ServerError,
+    TimeoutError,
+    TradeRefusedError,
+    UnexpectedResponseError,
+    ValidationError,
+} from "./src/errors.ts";
+export { current_user, page_data, unflatten } from "./src/sveltekit.ts";
+export type * from "./src/types.ts";
+export type { ArgSpec, Args, ArgType, CommandSpec } from "./src/args.ts";
+export type { Command, Plugin, PluginContext } from "./src/plugins.ts";
+export type { MarketFrame, RecordedCoin, SimOrder, Strategy, StrategyContext } from "./src/backtest.ts";
@@ -0,0 +1,144 @@
+import type { CoinHolding, MarketCoin, TradeType } from "./types.ts";
+
+export const ALLOCATIONS = ["equal", "market-cap", "momentum"] as const;
+export type Allocation = typeof ALLOCATIONS[number];
+
+//? What plan_allocation and plan_rebalance look at, so recorded market listings can be planned with too
+export type AllocationCoin = Pick<MarketCoin, "symbol" | "currentPrice" | "marketCap" | "change24h">;
+export type RebalanceHolding = Pick<CoinHolding, "symbol" | "quantity" | "currentPrice" | "value">;
+
+export interface PlannedBuy {
+    symbol: string;
+    weight: number;
+    amount: number;
+    price: number;
+}
+
+//? Trades are in cents, rounding down keeps the plan within budget
+function cents(n: number): number {
+    return Math.floor(n * 100) / 100;
+}
+
+/** Splits a comma separated list of symbols, e.g. from `--exclude RUG,PUMP`. */
+export function parse_symbols(list: string | undefined): string[] {
+    return (list ?? "").split(",").map((s) => s.trim().toUpperCase()).filter((s) => s != "");
+}
+
+/**
+ * Picks up to `count` coins out of `coins` and splits `total` dollars between them.
+ * equal gives each the same share, market-cap weighs them by market cap and momentum only takes coins that went up
+ * in the last 24h, weighing them by how much.
+ */
+export function plan_allocation(coins: AllocationCoin[], total: number, count: number, allocation: Allocation, exclude: string[] = []): PlannedBuy[] {
+    let picked = coins.filter((c) => !exclude.includes(c.symbol.toUpperCase()));
+    if (allocation == "momentum") {
+        picked = picked.filter((c) => c.change24h > 0).toSorted((a, b) => b.change24h - a.change24h);
+    }
+    picked = picked.slice(0, count);
+    const score = (c: AllocationCoin) => allocation == "equal" ? 1 : allocation == "market-cap" ? c.marketCap : c.change24h;
+    const sum = picked.reduce((a, c) => a + score(c), 0);
+    if (sum <= 0) {
+        return [];
+    }
+    return picked
+        .map((c) => ({ symbol: c.symbol, weight: score(c) / sum, amount: cents(total * score(c) / sum), price: c.currentPrice }))
+        .filter((p) => p.amount > 0);
+}
+
+/** Parses `SYMBOL=weight` pairs into weights that add up to 1. */
+export function parse_weights(pairs: string[]): Record<string, number> {
+    const weights: Record<string, number> = {};
+    for (const pair of pairs) {
+        const m = pair.match(/^([^=]+)=([\d.]+)%?$/);
+        const w = m ? parseFloat(m[2]) : NaN;
+        if (!m || Number.isNaN(w)) {
+            throw new Error(`Expected SYMBOL=weight, got "${pair}"`);
+        }
+        weights[m[1].toUpperCase()] = (weights[m[1].toUpperCase()] ?? 0) + w;
+    }
+    const sum = Object.values(weights).reduce((a, w) => a + w, 0);
+    if (sum <= 0) {
+        throw new Error("The target weights add up to nothing");
+    }
+    for (const s in weights) {
+        weights[s] /= sum;
+    }
+    return weights;
+}
+
+export interface RebalanceRow {
+    symbol: string;
+    price: number;
+    value: number;
+    target: number;
+    weight: number;
+    targetWeight: number;
+}
+
+export interface RebalanceTrade {
+    symbol: string;
+    type: TradeType;
+    //? Dollars for a BUY, coins for a SELL, same as what the trade endpoint takes
+    amount: number;
+    value: number;
+}
+
+export interface RebalancePlan {
+    total: number;
+    rows: RebalanceRow[];
+    trades: RebalanceTrade[];
+}
+
+/**
+ * Works out the trades that move `holdings` toward `targets` (weights adding up to 1). Only targeted coins count
+ * toward the total unless `others` is set, which sells everything else. `cash` adds dollars to spend, and coins
+ * that are less than `threshold` (a share of the total) away from their target are left alone.
+ * Sells come first so their proceeds can pay for the buys.
+ */
+export function plan_rebalance(
+    holdings: RebalanceHolding[],
+    targets: Record<string, number>,
+    prices: Record<string, number>,
+    cash = 0,
+    threshold = 0.01,
+    others = false,
+): RebalancePlan {
+    const held = new Map(holdings.map((h) => [h.symbol.toUpperCase(), h]));
+    const symbols = new Set(Object.keys(targets));
+    if (others) {
+        held.forEach((_, s) => symbols.add(s));
+    }
+    const total = [...symbols].reduce((a, s) => a + (held.get(s)?.value ?? 0), 0) + cash;
+    const rows: RebalanceRow[] = [...symbols].map((symbol) => {
+        const value = held.get(symbol)?.value ?? 0;
+        const targetWeight = targets[symbol] ?? 0;
+        return {
+            symbol,
+            price: held.get(symbol)?.currentPrice ?? prices[symbol] ?? 0,
+            value,
+            target: total * targetWeight,
+            weight: total == 0 ? 0 : value / total,
+            targetWeight,
+        };
+    });
+
+    const trades: RebalanceTrade[] = [];
+    for (const r of rows) {
+        const diff = r.target - r.value;
+        if (total == 0 || Math.abs(diff) < total * threshold) {
+            continue;
+        }
+        if (diff < 0) {
+            //? Selling a coin out entirely uses the exact quantity so no dust is left behind
+            const quantity = r.targetWeight == 0 ? (held.get(r.symbol) as RebalanceHolding).quantity : -diff / r.price;
+            trades.push({ symbol: r.symbol, type: "SELL", amount: quantity, value: -diff });
+        } else {
+            if (r.price <= 0) {
+                throw new Error(`No price for ${r.symbol}`);
+            }
+            trades.push({ symbol: r.symbol, type: "BUY", amount: cents(diff), value: cents(diff) });
+        }
+    }
+    trades.sort((a, b) => a.type == b.type ? 0 : a.type == "SELL" ? -1 : 1);
+    return { total, rows, trades };
+}
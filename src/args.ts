@@ -0,0 +1,283 @@
+import { UsageError } from "./errors.ts";
+
+//? amount is a positive number, quantity a positive number or "all", symbol a coin symbol (uppercased) and side heads or tails.
+//? flag is only for options, which are then true when given and false otherwise
+export type ArgType = "string" | "number" | "integer" | "amount" | "quantity" | "symbol" | "side" | "flag";
+export type ArgValue = string | number | boolean | (string | number)[] | undefined;
+export type Args = Record<string, ArgValue>;
+
+/** One positional argument or `--option` of a command. */
+export interface ArgSpec {
+    name: string;
+    //? Defaults to string
+    type?: ArgType;
+    desc?: string;
+    //? Positionals only, options are always optional
+    optional?: boolean;
+    //? What an optional positional or an option is when it isn't given
+    default?: ArgValue;
+    //? The last positional only, takes every remaining token as a list
+    rest?: boolean;
+    choices?: readonly string[];
+    min?: number;
+    max?: number;
+    //? What the value looks like in the usage line, e.g. YYYY-MM-DD, the type when not set
+    value?: string;
+}
+
+export interface CommandSpec {
+    args: ArgSpec[];
+    options?: ArgSpec[];
+}
+
+const NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i;
+
+/**
+ * Splits a line into tokens on whitespace. Single or double quotes keep spaces in a token (`new-coin "Moon Shot" MOON icon.png`),
+ * and outside of single quotes a backslash escapes a quote, a space or another backslash. Other backslashes are kept, so Windows paths work.
+ */
+export function tokenize(line: string): string[] {
+    const tokens: string[] = [];
+    let current = "";
+    let quote: string | undefined;
+    //? Tells an empty quoted token ("") apart from no token at all
+    let started = false;
+    for (let i = 0; i < line.length; i++) {
+        const c = line[i];
+        if (c == "\\" && quote != "'" && /[\s"'\\]/.test(line[i+1] ?? "")) {
+            current += line[++i];
+            started = true;
+        } else if (quote != undefined) {
+            if (c == quote) {
+                quote = undefined;
+            } else {
+                current += c;
+            }
+        } else if (c == '"' || c == "'") {
+            quote = c;
+            started = true;
+        } else if (/\s/.test(c)) {
+            if (started) {
+                tokens.push(current);
+                current = "";
+                started = false;
+            }
+        } else {
+            current += c;
+            started = true;
+        }
+    }
+    if (quote != undefined) {
+        throw new UsageError(`Missing the closing ${quote}`);
+    }
+    if (started) {
+        tokens.push(current);
+    }
+    return tokens;
+}
+
+/** The other way around from tokenize, quoting tokens that need it so the line splits back into the same tokens. */
+export function join_tokens(tokens: string[]): string {
+    return tokens.map((t) => t != "" && !/[\s"'\\]/.test(t) ? t : `"${t.replace(/["\\]/g, "\\$&")}"`).join(" ");
+}
+
+/** What values of an argument look like, for error messages and help. */
+export function describe_type(spec: ArgSpec): string {
+    if (spec.choices != undefined) {
+        return `one of ${spec.choices.join(", ")}`;
+    }
+    switch (spec.type ?? "string") {
+        case "number":
+            return "a number";
+        case "integer":
+            return "a whole number";
+        case "amount":
+            return "a positive number";
+        case "quantity":
+            return "a positive number or all";
+        case "symbol":
+            return "a coin symbol";
+        case "side":
+            return "heads, tails, 0 or 1";
+        case "flag":
+            return "a switch";
+        default:
+            return "text";
+    }
+}
+
+function label(spec: ArgSpec, option: boolean): string {
+    return option ? `--${spec.name}` : `<${spec.name}>`;
+}
+
+function parse_value(spec: ArgSpec, raw: string, option: boolean): string | number {
+    const type = spec.type ?? "string";
+    const invalid = () => new UsageError(`${label(spec, option)} must be ${describe_type(spec)}, got "${raw}"`);
+    let value: string | number = raw;
+    switch (type) {
+        case "number":
+        case "integer":
+        case "amount":
+        case "quantity": {
+            if (type == "quantity" && raw.toLowerCase() == "all") {
+                return "all";
+            }
+            if (!NUMBER.test(raw)) {
+                throw invalid();
+            }
+            value = Number(raw);
+            if ((type == "integer" && !Number.isInteger(value)) || ((type == "amount" || type == "quantity") && value <= 0)) {
+                throw invalid();
+            }
+            break;
+        }
+        case "symbol": {
+            if (!/^[A-Za-z0-9]+$/.test(raw)) {
+                throw invalid();
+            }
+            value = raw.toUpperCase();
+            break;
+        }
+        case "side": {
+            value = raw == "0" ? "heads" : raw == "1" ? "tails" : raw.toLowerCase();
+            if (value != "heads" && value != "tails") {
+                throw invalid();
+            }
+            break;
+        }
+    }
+    if (spec.choices != undefined && !spec.choices.includes(String(value))) {
+        throw new UsageError(`Unknown ${spec.name} "${raw}", expected ${describe_type(spec)}`);
+    }
+    if (typeof value == "number" && spec.min != undefined && value < spec.min) {
+        throw new UsageError(`${label(spec, option)} must be at least ${spec.min}, got ${value}`);
+    }
+    if (typeof value == "number" && spec.max != undefined && value > spec.max) {
+        throw new UsageError(`${label(spec, option)} must be at most ${spec.max}, got ${value}`);
+    }
+    return value;
+}
+
+function parse_tokens(spec: CommandSpec, tokens: string[]): Args {
+    const args: Args = {};
+    const options = spec.options ?? [];
+    const positionals: string[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        //? Everything after a lone -- is positional, e.g. a bio starting with --
+        if (token == "--") {
+            positionals.push(...tokens.slice(i + 1));
+            break;
+        }
+        if (!token.startsWith("--")) {
+            positionals.push(token);
+            continue;
+        }
+        const eq = token.indexOf("=");
+        const name = token.slice(2, eq == -1 ? undefined : eq);
+        const option = options.find((o) => o.name == name);
+        if (option == undefined) {
+            throw new UsageError(`Unknown option --${name}`);
+        }
+        if (option.type == "flag") {
+            if (eq != -1) {
+                throw new UsageError(`--${name} doesn't take a value`);
+            }
+            args[name] = true;
+            continue;
+        }
+        const raw = eq == -1 ? tokens[++i] : token.slice(eq + 1);
+        if (raw == undefined) {
+            throw new UsageError(`--${name} needs a value`);
+        }
+        args[name] = parse_value(option, raw, true);
+    }
+    for (const o of options) {
+        if (!(o.name in args)) {
+            args[o.name] = o.type == "flag" ? false : o.default;
+        }
+    }
+
+    for (const a of spec.args) {
+        const values = a.rest ? positionals.splice(0) : positionals.splice(0, 1);
+        if (values.length == 0) {
+            if (!a.optional) {
+                throw new UsageError(`Missing ${label(a, false)}`);
+            }
+            args[a.name] = a.default;
+            continue;
+        }
+        args[a.name] = a.rest ? values.map((v) => parse_value(a, v, false)) : parse_value(a, values[0], false);
+    }
+    if (positionals.length > 0) {
+        throw new UsageError(`Too many arguments, didn't expect "${positionals[0]}"`);
+    }
+    return args;
+}
+
+/** Parses a command's tokens against its spec. Throws a UsageError, with the usage line, when they don't fit. */
+export function parse_args(name: string, spec: CommandSpec, tokens: string[]): Args {
+    try {
+        return parse_tokens(spec, tokens);
+    } catch (err) {
+        if (err instanceof UsageError) {
+            err.usage ??= usage(name, spec);
+        }
+        throw err;
+    }
+}
+
+/** The usage line, like `buy-coin <symbol> <amount> [--force]`. */
+export function usage(name: string, spec: CommandSpec): string {
+    const parts = [name];
+    for (const a of spec.args) {
+        const arg = `${a.name}${a.rest ? "..." : ""}`;
+        parts.push(a.optional ? `[${arg}]` : `<${arg}>`);
+    }
+    for (const o of spec.options ?? []) {
+        parts.push(o.type == "flag" ? `[--${o.name}]` : `[--${o.name} <${o.value ?? o.choices?.join("|") ?? o.type ?? "text"}>]`);
+    }
+    return parts.join(" ");
+}
+
+/** One line per argument and option for `help`: its name, what it does, what it takes and its default. */
+export function describe_args(spec: CommandSpec): { name: string; desc: string }[] {
+    const line = (a: ArgSpec) => {
+        //? Plain text and switches go without saying
+        const plain = a.type == "flag" || ((a.type ?? "string") == "string" && a.choices == undefined);
+        const details = plain ? [] : [describe_type(a)];
+        if (a.min != undefined || a.max != undefined) {
+            details.push(a.max == undefined ? `at least ${a.min}` : a.min == undefined ? `at most ${a.max}` : `from ${a.min} to ${a.max}`);
+        }
+        if (a.default != undefined) {
+            details.push(`default ${a.default}`);
+        }
+        const extra = details.join(", ");
+        return `${a.desc ?? ""}${extra == "" ? "" : `${a.desc ? " " : ""}(${extra})`}`;
+    };
+    return [
+        ...spec.args.map((a) => {
+            const arg = `${a.name}${a.rest ? "..." : ""}`;
+            return { name: a.optional ? `[${arg}]` : `<${arg}>`, desc: line(a) };
+        }),
+        ...(spec.options ?? []).map((o) => ({ name: `--${o.name}`, desc: line(o) })),
+    ];
+}
+
+/** Pulls `--name <value>` or `--name=<value>` out of `args`, returning the value if it was given. */
+export function take_option(args: string[], name: string): string | undefined {
+    let found: string | undefined;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] == `--${name}`) {
+            found = args[i+1];
+            args.splice(i--, 2);
+            if (found == undefined) {
+                throw new Error(`--${name} needs a value`);
+            }
+        } else if (args[i].startsWith(`--${name}=`)) {
+            found = args[i].slice(`--${name}=`.length);
+            args.splice(i--, 1);
+        }
+    }
+    return found;
+}
@@ -0,0 +1,292 @@
+import * as path from "@std/path";
+import { pathToFileURL } from "node:url";
+import { type Allocation, ALLOCATIONS, plan_allocation, plan_rebalance } from "./allocation.ts";
+import type { RugplayClient } from "./client.ts";
+import { dataPath } from "./config.ts";
+import type { MarketCoin, TradeType } from "./types.ts";
+
+export interface RecordedCoin {
+    symbol: string;
+    name: string;
+    currentPrice: number;
+    change24h: number;
+    marketCap: number;
+    volume24h?: number;
+}
+
+/** The whole market at one point in time, as saved by `record`. */
+export interface MarketFrame {
+    time: string;
+    //? Biggest market cap first
+    coins: RecordedCoin[];
+}
+
+/** A simulated trade, the same as what the trade endpoint takes: dollars for a BUY, coins for a SELL. */
+export interface SimOrder {
+    type: TradeType;
+    symbol: string;
+    amount: number;
+}
+
+export interface SimFill {
+    time: string;
+    type: TradeType;
+    symbol: string;
+    quantity: number;
+    price: number;
+    value: number;
+}
+
+export interface StrategyOptions {
+    //? How many coins the built-in strategies hold
+    top: number;
+    //? The built-in strategies trade every this many frames
+    every: number;
+}
+
+/** What a strategy gets to decide on, once for every recorded frame. */
+export interface StrategyContext {
+    frame: MarketFrame;
+    //? Every frame so far including this one, oldest first
+    history: MarketFrame[];
+    //? 0 for the first frame
+    step: number;
+    cash: number;
+    //? Coins held by symbol
+    holdings: Record<string, number>;
+    //? The last price seen of every coin, including ones that aren't in this frame anymore
+    prices: Record<string, number>;
+    value: number;
+    options: StrategyOptions;
+}
+
+/**
+ * A strategy turns each frame into orders, which are filled at that frame's prices. A strategy module's default export
+ * is one:
+ * ```ts
+ * export default function (ctx: StrategyContext): SimOrder[] {
+ *     return ctx.step == 0 ? [{ type: "BUY", symbol: ctx.frame.coins[0].symbol, amount: ctx.cash }] : [];
+ * }
+ * ```
+ */
+export type Strategy = (ctx: StrategyContext) => SimOrder[] | Promise<SimOrder[]>;
+
+export interface BacktestOptions extends StrategyOptions {
+    cash: number;
+    //? How much worse than the recorded price each fill is, 0.01 is 1%. Market listings have no pools to simulate
+    slippage: number;
+}
+
+export interface BacktestResult {
+    strategy: string;
+    frames: number;
+    from: string;
+    to: string;
+    startValue: number;
+    endValue: number;
+    //? 0.1 is +10%
+    return: number;
+    trades: number;
+    //? Orders that couldn't be filled, e.g. for coins missing from the frame
+    skipped: number;
+    //? The biggest fall from a peak of the value, 0.2 is -20%
+    maxDrawdown: number;
+    cash: number;
+    holdings: Record<string, number>;
+    fills: SimFill[];
+    curve: { time: string; value: number }[];
+}
+
+export const BACKTEST_STRATEGIES = [...ALLOCATIONS, "buy-and-hold"] as const;
+
+//? Coins per request, big pages keep a whole listing to a few requests
+const PAGE_SIZE = 100;
+
+function recorded(c: MarketCoin): RecordedCoin {
+    return { symbol: c.symbol.toUpperCase(), name: c.name, currentPrice: c.currentPrice, change24h: c.change24h, marketCap: c.marketCap, volume24h: c.volume24h };
+}
+
+/** Fetches the market page by page, biggest market cap first, stopping after `maxPages`. */
+export async function fetch_market(client: RugplayClient, maxPages = Infinity): Promise<RecordedCoin[]> {
+    const coins: RecordedCoin[] = [];
+    for (let page = 1; page <= maxPages; page++) {
+        const res = await client.market({ sortBy: "marketCap", sortOrder: "desc", page, limit: PAGE_SIZE });
+        coins.push(...res.coins.map(recorded));
+        if (page >= res.totalPages || res.coins.length == 0) {
+            break;
+        }
+    }
+    return coins;
+}
+
+export function recording_path(dataset: string): string {
+    if (!/^[a-z0-9][a-z0-9_-]*$/i.test(dataset)) {
+        throw new Error(`"${dataset}" isn't a valid dataset name, use letters, digits, - and _`);
+    }
+    return dataPath(`market.${dataset}.ndjson`);
+}
+
+export function append_frame(dataset: string, frame: MarketFrame) {
+    Deno.writeTextFileSync(recording_path(dataset), JSON.stringify(frame) + "\n", { append: true, create: true });
+}
+
+/** Reads a recorded dataset, oldest first. A missing file means nothing was recorded yet. */
+export function read_frames(dataset: string): MarketFrame[] {
+    let text: string;
+    try {
+        text = Deno.readTextFileSync(recording_path(dataset));
+    } catch (err) {
+        if (err instanceof Deno.errors.NotFound) {
+            return [];
+        }
+        throw err;
+    }
+    return text.split("\n").filter((l) => l.trim() != "").map((l) => JSON.parse(l) as MarketFrame);
+}
+
+function top_coins(frame: MarketFrame, count: number): RecordedCoin[] {
+    return frame.coins.toSorted((a, b) => b.marketCap - a.marketCap).slice(0, count);
+}
+
+/** Buys the top coins by market cap in equal parts on the first frame and never trades again, the benchmark. */
+export const buy_and_hold: Strategy = (ctx) => {
+    if (ctx.step != 0) {
+        return [];
+    }
+    const top = top_coins(ctx.frame, ctx.options.top);
+    return top.map((c) => ({ type: "BUY", symbol: c.symbol, amount: ctx.cash / top.length }));
+};
+
+/**
+ * Rebalances into the coins `invest` would pick with the same strategy, every `options.every` frames. Coins that
+ * aren't picked anymore are sold, so momentum goes to cash when nothing went up.
+ */
+export function allocation_strategy(allocation: Allocation): Strategy {
+    return (ctx) => {
+        if (ctx.step % ctx.options.every != 0) {
+            return [];
+        }
+        const coins = top_coins(ctx.frame, ctx.frame.coins.length);
+        const targets = Object.fromEntries(plan_allocation(coins, 1, ctx.options.top, allocation).map((p) => [p.symbol.toUpperCase(), p.weight]));
+        const holdings = Object.entries(ctx.holdings).map(([symbol, quantity]) => ({
+            symbol,
+            quantity,
+            currentPrice: ctx.prices[symbol],
+            value: quantity * ctx.prices[symbol],
+        }));
+        return plan_rebalance(holdings, targets, ctx.prices, ctx.cash, 0.01, true).trades;
+    };
+}
+
+/** A built-in strategy by name, or the default export of a module at `name` (a .ts, .js or .mjs file). */
+export async function load_strategy(name: string): Promise<Strategy> {
+    if (name == "buy-and-hold") {
+        return buy_and_hold;
+    }
+    if ((ALLOCATIONS as readonly string[]).includes(name)) {
+        return allocation_strategy(name as Allocation);
+    }
+    if (![".ts", ".js", ".mjs"].includes(path.extname(name))) {
+        throw new Error(`Unknown strategy "${name}", use ${BACKTEST_STRATEGIES.join(", ")} or the path to a strategy module`);
+    }
+    const module = await import(pathToFileURL(path.resolve(name)).href);
+    if (typeof module.default != "function") {
+        throw new Error(`The strategy module ${name} has no default export`);
+    }
+    return module.default as Strategy;
+}
+
+function max_drawdown(values: number[]): number {
+    let peak = -Infinity, drawdown = 0;
+    for (const v of values) {
+        peak = Math.max(peak, v);
+        if (peak > 0) {
+            drawdown = Math.max(drawdown, (peak - v) / peak);
+        }
+    }
+    return drawdown;
+}
+
+/**
+ * Replays `frames` (oldest first) through a strategy, starting with `options.cash` and no coins. Orders are filled in
+ * the order they're given at the frame's price made worse by `options.slippage`, buys being cut down to the cash left and
+ * sells to the coins held. Coins that aren't in a frame can't be traded then and keep their last price.
+ */
+export async function run_backtest(frames: MarketFrame[], strategy: Strategy, name: string, options: BacktestOptions): Promise<BacktestResult> {
+    if (frames.length == 0) {
+        throw new Error("There are no recorded frames to test on");
+    }
+    let cash = options.cash, skipped = 0;
+    const holdings: Record<string, number> = {};
+    const prices: Record<string, number> = {};
+    const fills: SimFill[] = [];
+    const curve: { time: string; value: number }[] = [];
+    const value = () => cash + Object.entries(holdings).reduce((sum, [s, q]) => sum + q * (prices[s] ?? 0), 0);
+
+    for (let step = 0; step < frames.length; step++) {
+        const frame = frames[step];
+        const listed = new Map(frame.coins.map((c) => [c.symbol.toUpperCase(), c.currentPrice]));
+        listed.forEach((price, symbol) => prices[symbol] = price);
+        const orders = await strategy({
+            frame,
+            history: frames.slice(0, step + 1),
+            step,
+            cash,
+            holdings: { ...holdings },
+            prices: { ...prices },
+            value: value(),
+            options: { top: options.top, every: options.every },
+        });
+        for (const order of orders) {
+            const symbol = order.symbol.toUpperCase();
+            const price = listed.get(symbol);
+            if (price == undefined || !(price > 0) || !(order.amount > 0)) {
+                skipped++;
+                continue;
+            }
+            if (order.type == "BUY") {
+                const spent = Math.min(order.amount, cash);
+                const fill_price = price * (1 + options.slippage);
+                if (spent < 0.01) {
+                    skipped++;
+                    continue;
+                }
+                cash -= spent;
+                holdings[symbol] = (holdings[symbol] ?? 0) + spent / fill_price;
+                fills.push({ time: frame.time, type: "BUY", symbol, quantity: spent / fill_price, price: fill_price, value: spent });
+            } else {
+                const sold = Math.min(order.amount, holdings[symbol] ?? 0);
+                const fill_price = price * (1 - options.slippage);
+                if (sold <= 0) {
+                    skipped++;
+                    continue;
+                }
+                cash += sold * fill_price;
+                holdings[symbol] -= sold;
+                if (holdings[symbol] <= 1e-9) {
+                    delete holdings[symbol];
+                }
+                fills.push({ time: frame.time, type: "SELL", symbol, quantity: sold, price: fill_price, value: sold * fill_price });
+            }
+        }
+        curve.push({ time: frame.time, value: value() });
+    }
+
+    const end = curve[curve.length - 1].value;
+    return {
+        strategy: name,
+        frames: frames.length,
+        from: frames[0].time,
+        to: frames[frames.length - 1].time,
+        startValue: options.cash,
+        endValue: end,
+        return: options.cash > 0 ? end / options.cash - 1 : 0,
+        trades: fills.length,
+        skipped,
+        maxDrawdown: max_drawdown([options.cash, ...curve.map((p) => p.value)]),
+        cash,
+        holdings,
+        fills,
+        curve,
+    };
+}
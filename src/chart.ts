@@ -0,0 +1,102 @@
+import chalk from "chalk";
+import type { Candle, Timeframe } from "./types.ts";
+
+export const TIMEFRAMES: Timeframe[] = ["1m", "5m", "15m", "1h", "4h", "1d"];
+
+/** Short price label, small prices keep their significant digits. */
+export function fmt_price(n: number): string {
+    if (n == 0) {
+        return "0";
+    }
+    if (Math.abs(n) >= 1000) {
+        return Math.round(n).toLocaleString("en-US");
+    }
+    return `${Number(n.toPrecision(4))}`;
+}
+
+//? Merges neighbouring candles so there's at most one per column
+function squeeze(candles: Candle[], width: number): Candle[] {
+    if (candles.length <= width) {
+        return candles;
+    }
+    const out: Candle[] = [];
+    const size = candles.length / width;
+    for (let i = 0; i < width; i++) {
+        const group = candles.slice(Math.floor(i * size), Math.floor((i + 1) * size));
+        out.push({
+            time: group[0].time,
+            open: group[0].open,
+            close: group[group.length - 1].close,
+            high: Math.max(...group.map((c) => c.high)),
+            low: Math.min(...group.map((c) => c.low)),
+        });
+    }
+    return out;
+}
+
+//? Puts price labels on the top, middle and bottom rows
+function with_axis(grid: string[][], low: number, high: number): string[] {
+    const height = grid.length;
+    const label = (row: number) => fmt_price(high - (high - low) * row / Math.max(1, height - 1));
+    const labels = grid.map((_, row) => row == 0 || row == height - 1 || row == Math.floor((height - 1) / 2) ? label(row) : "");
+    const pad = Math.max(...labels.map((l) => l.length));
+    return grid.map((cells, row) => `${labels[row].padStart(pad)} ┤${cells.join("")}`);
+}
+
+function row_of(value: number, low: number, high: number, height: number): number {
+    if (high == low) {
+        return Math.floor(height / 2);
+    }
+    return Math.round((high - value) / (high - low) * (height - 1));
+}
+
+/** A line chart of `values`, oldest first, `height` rows tall and at most `width` columns wide (plus the axis). */
+export function line_chart(values: number[], width: number, height: number): string[] {
+    if (values.length == 0) {
+        return ["No data"];
+    }
+    //? One point per column, the last value of each bucket
+    const size = Math.max(1, values.length / width);
+    const points: number[] = [];
+    for (let i = 0; i < Math.min(width, values.length); i++) {
+        points.push(values[Math.min(values.length - 1, Math.floor((i + 1) * size) - 1)]);
+    }
+    const low = Math.min(...points), high = Math.max(...points);
+    const grid = Array.from({ length: height }, () => points.map(() => " "));
+    let previous: number | undefined;
+    points.forEach((p, x) => {
+        const row = row_of(p, low, high, height);
+        if (previous != undefined && previous != row) {
+            //? Joins the point to the previous one with a vertical line
+            const [from, to] = previous < row ? [previous + 1, row] : [row + 1, previous];
+            for (let r = from; r < to; r++) {
+                grid[r][x] = "│";
+            }
+            grid[row][x] = previous < row ? "╰" : "╭";
+            grid[previous][x] = previous < row ? "╮" : "╯";
+        } else {
+            grid[row][x] = "─";
+        }
+        previous = row;
+    });
+    return with_axis(grid, low, high);
+}
+
+/** A candlestick chart, one column per candle (neighbours are merged when there are more than `width`), green up and red down. */
+export function candle_chart(candles: Candle[], width: number, height: number): string[] {
+    if (candles.length == 0) {
+        return ["No data"];
+    }
+    const squeezed = squeeze(candles, width);
+    const low = Math.min(...squeezed.map((c) => c.low)), high = Math.max(...squeezed.map((c) => c.high));
+    const grid = Array.from({ length: height }, () => squeezed.map(() => " "));
+    squeezed.forEach((c, x) => {
+        const color = c.close >= c.open ? chalk.greenBright : chalk.redBright;
+        const top = row_of(Math.max(c.open, c.close), low, high, height);
+        const bottom = row_of(Math.min(c.open, c.close), low, high, height);
+        for (let r = row_of(c.high, low, high, height); r <= row_of(c.low, low, high, height); r++) {
+            grid[r][x] = color(r >= top && r <= bottom ? "█" : "│");
+        }
+    });
+    return with_axis(grid, low, high);
+}
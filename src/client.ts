@@ -0,0 +1,335 @@
+import { api_error, AuthExpiredError, NetworkError, NoCookieError, TimeoutError } from "./errors.ts";
+import { current_user } from "./sveltekit.ts";
+import type {
+    CoinflipResponse,
+    CoinResponse,
+    CoinSide,
+    CreateCoinResponse,
+    CurrentUser,
+    HoldersResponse,
+    MarketQuery,
+    MarketResponse,
+    MarkReadResponse,
+    NotificationsResponse,
+    PortfolioSummary,
+    PortfolioTotal,
+    PromoResponse,
+    RewardClaimResponse,
+    RewardStatus,
+    SettingsResponse,
+    SettingsUpdate,
+    SlotsResponse,
+    SvelteDataResponse,
+    Timeframe,
+    TradeResponse,
+    TradeType,
+    TransferResponse,
+    TransferType,
+    TransactionsResponse,
+    UserResponse,
+} from "./types.ts";
+
+export const BASE_URL = "https://rugplay.com";
+
+const HEADERS = {
+    //? Fake user agent I got from Gemini
+    "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/125.0.0.0 Safari/537.36",
+    "Accept-Language": "en-US,en;q=0.9", //? Assuming English
+};
+
+export interface RequestOptions {
+    //? Milliseconds a single attempt may take before it's aborted
+    timeout: number;
+    //? How many times a failed request is retried, see RugplayClient.request for which failures count
+    retries: number;
+    //? Delay before the first retry in milliseconds, doubled on every retry after that
+    backoff: number;
+    maxBackoff: number;
+    //? Longest Retry-After we're willing to sleep for, in seconds. Anything longer fails right away
+    maxRetryAfter: number;
+    //? Requests per second we allow ourselves to send, 0 turns the limiter off
+    rateLimit: number;
+}
+
+export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
+    timeout: 15000,
+    retries: 3,
+    backoff: 500,
+    maxBackoff: 8000,
+    maxRetryAfter: 60,
+    rateLimit: 4,
+};
+
+export interface ClientOptions extends Partial<RequestOptions> {
+    baseUrl?: string;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Parses a Retry-After header, which is either a number of seconds or an HTTP date. */
+export function parse_retry_after(header: string | null, now = Date.now()): number | undefined {
+    if (header == null) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, (date - now) / 1000);
+}
+
+export const DEFAULT_MARKET_QUERY: MarketQuery = {
+    search: "",
+    sortBy: "marketCap",
+    sortOrder: "desc",
+    priceFilter: "all",
+    changeFilter: "all",
+    page: 1,
+    limit: 6,
+};
+
+/**
+ * A typed client for the Rugplay API. It has no dependency on the CLI, so it can be imported from any Deno script:
+ * ```ts
+ * const client = new RugplayClient(cookie);
+ * console.log((await client.portfolioSummary()).totalValue);
+ * ```
+ * `baseUrl` points the client at another server, like the mock in mock/server.ts.
+ * Every endpoint method throws an `ApiError` subclass from errors.ts when Rugplay responds with a non-2xx status,
+ * and a `NetworkError` when it couldn't be reached at all.
+ */
+export class RugplayClient {
+    cookie: string;
+    baseUrl: string;
+    options: RequestOptions;
+    private next_slot = 0;
+
+    constructor(cookie: string, options: ClientOptions = {}) {
+        const { baseUrl, ...request } = options;
+        this.cookie = cookie;
+        this.baseUrl = (baseUrl ?? BASE_URL).replace(/\/+$/, "");
+        this.options = { ...DEFAULT_REQUEST_OPTIONS, ...request };
+    }
+
+    private headers(): Record<string, string> {
+        return {
+            ...HEADERS,
+            "Cookie": this.cookie,
+            "Origin": this.baseUrl, //? Make the Rugplay API think we're from the rugplay website
+        };
+    }
+
+    //? Spaces requests out so we never send more than options.rateLimit per second
+    private async throttle() {
+        if (this.options.rateLimit <= 0) {
+            return;
+        }
+        const now = Date.now();
+        const at = Math.max(now, this.next_slot);
+        this.next_slot = at + 1000 / this.options.rateLimit;
+        if (at > now) {
+            await sleep(at - now);
+        }
+    }
+
+    private async attempt(url: string, init: RequestInit): Promise<Response> {
+        await this.throttle();
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.options.timeout);
+        try {
+            const res = await fetch(url, { ...init, signal: controller.signal });
+            //? Read the body while the timer is still running, a server can hang halfway through it too
+            const body = await res.arrayBuffer();
+            return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+        } catch (err) {
+            if (controller.signal.aborted) {
+                throw new TimeoutError(this.options.timeout);
+            }
+            throw new NetworkError(`Couldn't reach ${new URL(url).host}: ${(err as Error).message}`, err);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Every request goes through here. Failures are retried with exponential backoff (or whatever Retry-After says):
+     * 429s always, since Rugplay turned the request away, and network errors, timeouts and 5xx only for GETs,
+     * because a POST that failed that way may still have gone through and we don't want to trade twice.
+     * The last response is returned as is, non-2xx or not.
+     */
+    async request(path: string, method: string, body?: BodyInit): Promise<Response> {
+        if (this.cookie == "unknown" || this.cookie == "") {
+            throw new NoCookieError();
+        }
+        const idempotent = method == "GET" || method == "HEAD";
+        for (let attempt = 0; ; attempt++) {
+            let delay = Math.min(this.options.maxBackoff, this.options.backoff * 2**attempt);
+            let res: Response;
+            try {
+                res = await this.attempt(`${this.baseUrl}/${path}`, { method, headers: this.headers(), body });
+            } catch (err) {
+                if (!idempotent || attempt >= this.options.retries || !(err instanceof NetworkError)) {
+                    throw err;
+                }
+                await sleep(delay);
+                continue;
+            }
+            const retryable = res.status == 429 || (idempotent && res.status >= 500);
+            if (!retryable || attempt >= this.options.retries) {
+                return res;
+            }
+            const retryAfter = parse_retry_after(res.headers.get("Retry-After"));
+            if (retryAfter != undefined) {
+                if (retryAfter > this.options.maxRetryAfter) {
+                    return res;
+                }
+                delay = retryAfter * 1000;
+            }
+            await sleep(delay);
+        }
+    }
+
+    /** Sends a raw request to `/api/<api>` with our cookie attached. */
+    async api_req(api: string, method: string, body?: BodyInit): Promise<Response> {
+        return await this.request(`api/${api}`, method, body);
+    }
+
+    //? Turns a non-2xx response into the matching error from errors.ts
+    private async check(res: Response): Promise<Response> {
+        if (!res.ok) {
+            throw api_error(res.status, await res.text(), parse_retry_after(res.headers.get("Retry-After")));
+        }
+        return res;
+    }
+
+    private async json<T>(api: string, method: string, body?: BodyInit): Promise<T> {
+        const a = await this.check(await this.api_req(api, method, body));
+        return await a.json() as T;
+    }
+
+    /** Fetches the raw SvelteKit page data for the root page, see sveltekit.ts to decode it. */
+    async pageData(): Promise<SvelteDataResponse> {
+        const req = await this.check(await this.request(
+            "__data.json?x-sveltekit-trailing-slash=1&x-sveltekit-invalidated=10",
+            "GET"
+        ));
+        return await req.json() as SvelteDataResponse;
+    }
+
+    /**
+     * The logged in user, decoded from the root page data. Throws AuthExpiredError when the session isn't logged in
+     * and UnexpectedResponseError when the page data doesn't hold a user in the shape we expect.
+     */
+    async me(): Promise<CurrentUser> {
+        const user = current_user(await this.pageData());
+        if (user == null) {
+            throw new AuthExpiredError(401, "Your session isn't logged in");
+        }
+        return user;
+    }
+
+    coinflip(side: CoinSide, amount: number): Promise<CoinflipResponse> {
+        return this.json('gambling/coinflip', 'POST', JSON.stringify({ side, amount }));
+    }
+
+    slots(amount: number): Promise<SlotsResponse> {
+        return this.json('gambling/slots', 'POST', JSON.stringify({ amount }));
+    }
+
+    portfolioSummary(): Promise<PortfolioSummary> {
+        return this.json('portfolio/summary', 'GET');
+    }
+
+    portfolioTotal(): Promise<PortfolioTotal> {
+        return this.json('portfolio/total', 'GET');
+    }
+
+    /** One page of your transactions, newest first. */
+    transactions(page = 1, limit = 20): Promise<TransactionsResponse> {
+        return this.json(`transactions?page=${page}&limit=${limit}`, 'GET');
+    }
+
+    /** Lists coins on the market, any field left out of `query` falls back to `DEFAULT_MARKET_QUERY`. */
+    market(query: Partial<MarketQuery> = {}): Promise<MarketResponse> {
+        const q = { ...DEFAULT_MARKET_QUERY, ...query };
+        return this.json(
+            `market?search=${encodeURIComponent(q.search)}&sortBy=${q.sortBy}&sortOrder=${q.sortOrder}&priceFilter=${q.priceFilter}&changeFilter=${q.changeFilter}&page=${q.page}&limit=${q.limit}`,
+            'GET'
+        );
+    }
+
+    /** A coin's details along with its price history at the given resolution. */
+    coin(symbol: string, timeframe: Timeframe = "1m"): Promise<CoinResponse> {
+        return this.json(`coin/${encodeURIComponent(symbol)}?timeframe=${timeframe}`, 'GET');
+    }
+
+    /** The biggest holders of a coin and the state of its liquidity pool. */
+    holders(symbol: string, limit = 50): Promise<HoldersResponse> {
+        return this.json(`coin/${encodeURIComponent(symbol)}/holders?limit=${limit}`, 'GET');
+    }
+
+    /** Buys `amount` dollars worth of `symbol`, or sells `amount` coins of it. */
+    trade(symbol: string, type: TradeType, amount: number): Promise<TradeResponse> {
+        return this.json(`coin/${encodeURIComponent(symbol)}/trade`, 'POST', JSON.stringify({ type, amount }));
+    }
+
+    /** Sends `amount` dollars (CASH) or coins of `coinSymbol` (COIN) to another user. */
+    transfer(recipientUsername: string, type: TransferType, amount: number, coinSymbol?: string): Promise<TransferResponse> {
+        return this.json('transfer', 'POST', JSON.stringify({ recipientUsername, type, amount, coinSymbol }));
+    }
+
+    createCoin(name: string, symbol: string, icon: File): Promise<CreateCoinResponse> {
+        const form = new FormData();
+        form.append('name', name);
+        form.append('symbol', symbol);
+        form.append('icon', icon);
+        return this.json('coin/create', 'POST', form);
+    }
+
+    /** Looks a user up by username (not display name). */
+    user(username: string): Promise<UserResponse> {
+        return this.json(`user/${encodeURIComponent(username)}`, 'GET');
+    }
+
+    /** `limit` of your notifications starting at `offset`, newest first. `unreadCount` counts all of them. */
+    notifications(limit = 20, offset = 0): Promise<NotificationsResponse> {
+        return this.json(`notifications?limit=${limit}&offset=${offset}`, 'GET');
+    }
+
+    /** Marks the given notifications as read, or every one of them when no ids are given. */
+    markNotificationsRead(ids?: number[]): Promise<MarkReadResponse> {
+        return this.json('notifications', 'PATCH', JSON.stringify({ ids, markAsRead: true }));
+    }
+
+    /** Whether the daily reward can be claimed, and otherwise how long until it can (`timeRemaining`, in ms). */
+    rewardStatus(): Promise<RewardStatus> {
+        return this.json('rewards/claim', 'GET');
+    }
+
+    claimReward(): Promise<RewardClaimResponse> {
+        return this.json('rewards/claim', 'POST');
+    }
+
+    redeemPromo(code: string): Promise<PromoResponse> {
+        return this.json('promo/verify', 'POST', JSON.stringify({ code }));
+    }
+
+    /** Rugplay always expects a name, the other fields are only sent when given. */
+    updateSettings(settings: SettingsUpdate & { name: string }): Promise<SettingsResponse> {
+        const form = new FormData();
+        form.append('name', settings.name);
+        if (settings.username != undefined) {
+            form.append('username', settings.username);
+        }
+        if (settings.avatar != undefined) {
+            form.append('avatar', settings.avatar);
+        }
+        if (settings.bio != undefined) {
+            form.append('bio', settings.bio);
+        }
+        return this.json('settings', 'POST', form);
+    }
+}
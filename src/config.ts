@@ -0,0 +1,212 @@
+import * as path from "@std/path";
+import { take_option } from "./args.ts";
+import type { RequestOptions } from "./client.ts";
+import { derive_key, new_vault, type SealedSecret, seal, unseal, type Vault } from "./credentials.ts";
+import type { DaemonTask } from "./daemon.ts";
+import type { NotificationHooks } from "./notifications.ts";
+import type { RiskSettings } from "./risk.ts";
+import type { SafetySettings } from "./safety.ts";
+import type { TransferLimits } from "./transfers.ts";
+
+export const CONFIG_VERSION = 2;
+export const DEFAULT_PROFILE = "default";
+
+export interface Profile {
+    //? Written empty while cookies are encrypted, unlock_config fills it back in from `sealedCookie`
+    cookie: string;
+    sealedCookie?: SealedSecret;
+    //? Symbols shown in the dashboard's watchlist
+    watchlist?: string[];
+}
+
+export interface Config {
+    version: number;
+    //? Name of the profile commands use when no --profile is given
+    active: string;
+    profiles: Record<string, Profile>;
+    //? Server to talk to instead of https://rugplay.com, the RUGPLAY_BASE_URL environment variable takes precedence
+    baseUrl?: string;
+    //? Overrides for the request pipeline's timeout, retries and rate limit, see DEFAULT_REQUEST_OPTIONS
+    http?: Partial<RequestOptions>;
+    //? When buy-coin and invest warn about or refuse risky coins, see DEFAULT_RISK_SETTINGS
+    risk?: Partial<RiskSettings>;
+    //? Set when the cookies are encrypted with a passphrase, see set_passphrase
+    vault?: Vault;
+    //? Where plugins are loaded from instead of ~/rugplay_api/plugins, see plugins.ts
+    pluginDir?: string;
+    //? What `daemon` runs and when, see daemon.ts
+    tasks?: DaemonTask[];
+    //? Aliases for usernames to send transfers to
+    addressBook?: Record<string, string>;
+    //? How much `transfer` may send, see DEFAULT_TRANSFER_LIMITS
+    transferLimits?: Partial<TransferLimits>;
+    //? When trades and bets ask first, how much slippage they allow and what they may spend, see DEFAULT_SAFETY_SETTINGS
+    safety?: Partial<SafetySettings>;
+    //? Where `notifications --follow` forwards new notifications to
+    notificationHooks?: NotificationHooks;
+    //? What `serve` wants as a bearer token, RUGPLAY_SERVE_TOKEN takes precedence
+    serveToken?: string;
+}
+
+//? The key the cookies are sealed with, once unlock_config or set_passphrase has been given the passphrase
+let vault_key: Uint8Array | undefined;
+
+export function defaultConfig(): Config {
+    return {
+        version: CONFIG_VERSION,
+        active: DEFAULT_PROFILE,
+        profiles: { [DEFAULT_PROFILE]: { cookie: "unknown" } },
+    };
+}
+
+export function getConfigPath() {
+    // Use the user's home directory for config
+    const home = Deno.env.get("HOME") || Deno.env.get("USERPROFILE") || ".";
+    return path.join(home, "rugplay_api_saves.json");
+}
+
+/** Directory for everything else we keep locally (journal, orders, ...), next to the config file. */
+export function getDataDir() {
+    const home = Deno.env.get("HOME") || Deno.env.get("USERPROFILE") || ".";
+    return path.join(home, "rugplay_api");
+}
+
+/** Directory plugins are loaded from, `pluginDir` in the config or `plugins` in the data directory. */
+export function getPluginDir(config: Config) {
+    return config.pluginDir ?? path.join(getDataDir(), "plugins");
+}
+
+/** Path of a file in the data directory, creating the directory if needed. */
+export function dataPath(name: string) {
+    const dir = getDataDir();
+    Deno.mkdirSync(dir, { recursive: true });
+    return path.join(dir, name);
+}
+
+/**
+ * Upgrades a config from any older version to the current one.
+ * Version 1 (no `version` field) only held a single `cookie`, it becomes the "default" profile.
+ */
+// deno-lint-ignore no-explicit-any
+export function migrateConfig(raw: any): Config {
+    if (raw == null || typeof raw != "object") {
+        throw new Error("Configuration file is not a JSON object");
+    }
+    if (raw.version == undefined) {
+        return {
+            version: CONFIG_VERSION,
+            active: DEFAULT_PROFILE,
+            profiles: { [DEFAULT_PROFILE]: { cookie: raw.cookie ?? "unknown" } },
+        };
+    }
+    if (raw.version > CONFIG_VERSION) {
+        throw new Error(`Configuration file is version ${raw.version}, this version of the CLI only understands up to ${CONFIG_VERSION}`);
+    }
+    return raw as Config;
+}
+
+//? The config holds cookies, so only its owner gets to read it. Windows has no file modes, there this does nothing
+function restrict(filePath: string) {
+    try {
+        if (((Deno.statSync(filePath).mode ?? 0) & 0o077) != 0) {
+            Deno.chmodSync(filePath, 0o600);
+        }
+    } catch {
+        // not supported on this platform
+    }
+}
+
+/** Reads the config, migrating and rewriting it if it was written by an older version. Encrypted cookies stay empty until unlock_config. */
+export function readConfig(): Config {
+    const filePath = getConfigPath();
+    restrict(filePath);
+    const raw = JSON.parse(Deno.readTextFileSync(filePath));
+    const config = migrateConfig(raw);
+    if (raw.version != config.version) {
+        writeConfig(config);
+    }
+    return config;
+}
+
+/** Whether the config's cookies are encrypted and haven't been unlocked yet. */
+export function is_locked(config: Config): boolean {
+    return config.vault != undefined && vault_key == undefined;
+}
+
+/** Decrypts the cookies, keeping the key so writeConfig can encrypt them again. Throws WrongPassphraseError. */
+export function unlock_config(config: Config, passphrase: string) {
+    if (config.vault == undefined) {
+        return;
+    }
+    const key = derive_key(passphrase, config.vault);
+    const cookies = Object.values(config.profiles).map((p) => p.sealedCookie == undefined ? p.cookie : unseal(key, p.sealedCookie));
+    Object.values(config.profiles).forEach((p, i) => p.cookie = cookies[i]);
+    vault_key = key;
+}
+
+/** Encrypts the cookies with `passphrase` from now on (replacing any previous one), or stores them in plain text again when it's undefined. */
+export function set_passphrase(config: Config, passphrase: string | undefined) {
+    if (is_locked(config)) {
+        throw new Error("Your cookies are still encrypted, unlock them first");
+    }
+    if (passphrase == undefined) {
+        delete config.vault;
+        vault_key = undefined;
+        for (const p of Object.values(config.profiles)) {
+            delete p.sealedCookie;
+        }
+    } else {
+        config.vault = new_vault();
+        vault_key = derive_key(passphrase, config.vault);
+    }
+    writeConfig(config);
+}
+
+//? What actually goes in the file: with a passphrase set, cookies only in their encrypted form
+function stored(config: Config): Config {
+    if (config.vault == undefined) {
+        return config;
+    }
+    if (vault_key == undefined) {
+        throw new Error("Your cookies are encrypted, unlock them before changing the configuration");
+    }
+    const key = vault_key;
+    const profiles = Object.fromEntries(Object.entries(config.profiles).map(([name, p]) => [name, { ...p, cookie: "", sealedCookie: seal(key, p.cookie) }]));
+    return { ...config, profiles };
+}
+
+export function writeConfig(config: Config) {
+    const filePath = getConfigPath();
+    // Ensure directory exists (should always exist for home, but just in case)
+    const dir = path.dirname(filePath);
+    try {
+        Deno.statSync(dir);
+    } catch (_) {
+        try {
+            Deno.mkdirSync(dir, { recursive: true });
+        } catch {
+            // ignore
+        }
+    }
+    Deno.writeTextFileSync(filePath, JSON.stringify(stored(config)), {
+        create: true,
+        mode: 0o600,
+    });
+    //? mode only applies to new files
+    restrict(filePath);
+}
+
+/** The server the CLI should talk to, from RUGPLAY_BASE_URL or the config. Undefined means rugplay.com. */
+export function base_url(config: Config): string | undefined {
+    return Deno.env.get("RUGPLAY_BASE_URL") || config.baseUrl;
+}
+
+/** The token `serve` asks for, from RUGPLAY_SERVE_TOKEN or the config. Undefined until one is made. */
+export function serve_token(config: Config): string | undefined {
+    return Deno.env.get("RUGPLAY_SERVE_TOKEN") || config.serveToken;
+}
+
+/** Pulls `--profile <name>` or `--profile=<name>` out of `args`, returning the name if it was given. */
+export function take_profile_flag(args: string[]): string | undefined {
+    return take_option(args, "profile");
+}
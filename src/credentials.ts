@@ -0,0 +1,103 @@
+import { Buffer } from "node:buffer";
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes } from "node:crypto";
+import { WrongPassphraseError } from "./errors.ts";
+
+//? What turns the passphrase back into the key, kept in the config next to the sealed cookies
+export interface Vault {
+    salt: string;
+    iterations: number;
+}
+
+//? AES-256-GCM output, all base64
+export interface SealedSecret {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+export const VAULT_ITERATIONS = 210_000;
+
+export function new_vault(): Vault {
+    return { salt: randomBytes(16).toString("base64"), iterations: VAULT_ITERATIONS };
+}
+
+/** Stretches a passphrase into a 256 bit key with PBKDF2-SHA256. Slow on purpose, so do it once per run. */
+export function derive_key(passphrase: string, vault: Vault): Uint8Array {
+    return pbkdf2Sync(passphrase, Buffer.from(vault.salt, "base64"), vault.iterations, 32, "sha256");
+}
+
+export function seal(key: Uint8Array, text: string): SealedSecret {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const data = Buffer.concat([cipher.update(text, "utf8"), cipher.final()]);
+    return { iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") };
+}
+
+/** Decrypts a sealed secret, throwing WrongPassphraseError when `key` isn't the one it was sealed with. */
+export function unseal(key: Uint8Array, sealed: SealedSecret): string {
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(sealed.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+    try {
+        return Buffer.concat([decipher.update(Buffer.from(sealed.data, "base64")), decipher.final()]).toString("utf8");
+    } catch {
+        throw new WrongPassphraseError();
+    }
+}
+
+/**
+ * Hides cookies in text about to be printed. Besides each whole cookie, every value in it (`name=value; ...`)
+ * is hidden on its own, since a server echoing one back usually only echoes the session token.
+ */
+export function redact(text: string, cookies: string[]): string {
+    const secrets = new Set<string>();
+    for (const cookie of cookies) {
+        if (cookie == "" || cookie == "unknown") {
+            continue;
+        }
+        secrets.add(cookie);
+        for (const part of cookie.split(";")) {
+            const value = part.slice(part.indexOf("=") + 1).trim();
+            //? Short values like "1" or "true" would hide half the message
+            if (value.length >= 8) {
+                secrets.add(value);
+            }
+        }
+    }
+    for (const secret of [...secrets].sort((a, b) => b.length - a.length)) {
+        text = text.replaceAll(secret, "[redacted]");
+    }
+    return text;
+}
+
+/** Prompts for a secret without echoing it. Needs a terminal. */
+export function read_secret(message: string): string {
+    const encoder = new TextEncoder();
+    Deno.stdout.writeSync(encoder.encode(`${message} `));
+    const bytes: number[] = [];
+    const buf = new Uint8Array(1);
+    Deno.stdin.setRaw(true);
+    try {
+        while (true) {
+            const n = Deno.stdin.readSync(buf);
+            if (n == null || n == 0 || buf[0] == 13 || buf[0] == 10) {
+                break;
+            }
+            if (buf[0] == 3) {
+                throw new Error("Cancelled");
+            }
+            if (buf[0] == 127 || buf[0] == 8) {
+                //? Drops a whole character, UTF-8 continuation bytes first
+                while (bytes.length > 0 && (bytes[bytes.length - 1] & 0xc0) == 0x80) {
+                    bytes.pop();
+                }
+                bytes.pop();
+                continue;
+            }
+            bytes.push(buf[0]);
+        }
+    } finally {
+        Deno.stdin.setRaw(false);
+        Deno.stdout.writeSync(encoder.encode("\n"));
+    }
+    return new TextDecoder().decode(new Uint8Array(bytes));
+}
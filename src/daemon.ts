@@ -0,0 +1,348 @@
+import { dataPath } from "./config.ts";
+
+/**
+ * When a task runs:
+ * - `every 10m` (also s, h and d, or combined like 1h30m) runs it right away and then that long after each run
+ * - `reward` runs it as soon as the daily reward's cooldown is over
+ * - anything else is a cron expression (`minute hour day month weekday` in local time, or @hourly, @daily, @weekly, @monthly)
+ */
+export type Schedule =
+    | { kind: "every"; ms: number }
+    | { kind: "reward" }
+    | { kind: "cron"; cron: Cron };
+
+export interface DaemonTask {
+    name: string;
+    schedule: string;
+    //? A CLI line, like `daily-reward` or `notifications --json`
+    command: string;
+}
+
+export interface Cron {
+    minutes: Set<number>;
+    hours: Set<number>;
+    days: Set<number>;
+    months: Set<number>;
+    //? 0 is Sunday
+    weekdays: Set<number>;
+    //? Like cron, a day matches either field when both are restricted
+    anyDay: boolean;
+    anyWeekday: boolean;
+}
+
+const CRON_ALIASES: Record<string, string> = {
+    "@hourly": "0 * * * *",
+    "@daily": "0 0 * * *",
+    "@weekly": "0 0 * * 0",
+    "@monthly": "0 0 1 * *",
+};
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** Parses durations like `30s`, `10m` or `1h30m` into milliseconds. */
+export function parse_duration(text: string): number {
+    const parts = text.trim().toLowerCase().match(/\d+(\.\d+)?[smhd]/g);
+    if (parts == null || parts.join("") != text.trim().toLowerCase()) {
+        throw new Error(`"${text}" isn't a duration, use something like 30s, 10m, 1h or 1h30m`);
+    }
+    const ms = parts.reduce((sum, p) => sum + parseFloat(p) * DURATION_UNITS[p[p.length - 1]], 0);
+    if (ms < 1000) {
+        throw new Error(`"${text}" is too short, tasks can run at most once a second`);
+    }
+    return ms;
+}
+
+function parse_cron_field(field: string, min: number, max: number, name: string): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(",")) {
+        const match = part.match(/^(\*|(\d+)(-(\d+))?)(\/(\d+))?$/);
+        if (match == null) {
+            throw new Error(`Invalid ${name} "${part}" in cron expression`);
+        }
+        const step = match[6] == undefined ? 1 : Number(match[6]);
+        const from = match[1] == "*" ? min : Number(match[2]);
+        //? `5/10` means from 5 to the end, every 10
+        const to = match[1] == "*" ? max : match[4] == undefined ? (match[6] == undefined ? from : max) : Number(match[4]);
+        if (from < min || to > max || from > to || step < 1) {
+            throw new Error(`${name} "${part}" is out of range, expected ${min} to ${max}`);
+        }
+        for (let v = from; v <= to; v += step) {
+            values.add(v);
+        }
+    }
+    return values;
+}
+
+export function parse_cron(expr: string): Cron {
+    const fields = (CRON_ALIASES[expr.trim()] ?? expr).trim().split(/\s+/);
+    if (fields.length != 5) {
+        throw new Error(`"${expr}" isn't a schedule, use "every <duration>", "reward" or a cron expression like "0 * * * *"`);
+    }
+    const weekdays = parse_cron_field(fields[4], 0, 7, "weekday");
+    //? Weekday 7 is Sunday too
+    if (weekdays.delete(7)) {
+        weekdays.add(0);
+    }
+    return {
+        minutes: parse_cron_field(fields[0], 0, 59, "minute"),
+        hours: parse_cron_field(fields[1], 0, 23, "hour"),
+        days: parse_cron_field(fields[2], 1, 31, "day"),
+        months: parse_cron_field(fields[3], 1, 12, "month"),
+        weekdays,
+        anyDay: fields[2] == "*",
+        anyWeekday: fields[4] == "*",
+    };
+}
+
+function cron_day_matches(cron: Cron, d: Date): boolean {
+    const day = cron.days.has(d.getDate()), weekday = cron.weekdays.has(d.getDay());
+    if (cron.anyDay || cron.anyWeekday) {
+        return day && weekday;
+    }
+    return day || weekday;
+}
+
+/** The first minute strictly after `after` that matches the expression. */
+export function next_cron(cron: Cron, after: Date): Date {
+    const d = new Date(after);
+    d.setSeconds(0, 0);
+    d.setMinutes(d.getMinutes() + 1);
+    //? Skips whole months, days and hours that can't match, so this finishes quickly even for yearly schedules
+    for (let i = 0; i < 100_000; i++) {
+        if (!cron.months.has(d.getMonth() + 1)) {
+            d.setMonth(d.getMonth() + 1, 1);
+            d.setHours(0, 0);
+        } else if (!cron_day_matches(cron, d)) {
+            d.setDate(d.getDate() + 1);
+            d.setHours(0, 0);
+        } else if (!cron.hours.has(d.getHours())) {
+            d.setHours(d.getHours() + 1, 0);
+        } else if (!cron.minutes.has(d.getMinutes())) {
+            d.setMinutes(d.getMinutes() + 1);
+        } else {
+            return d;
+        }
+    }
+    throw new Error("The cron expression never matches");
+}
+
+export function parse_schedule(text: string): Schedule {
+    const trimmed = text.trim().toLowerCase();
+    if (trimmed == "reward") {
+        return { kind: "reward" };
+    }
+    if (trimmed.startsWith("every ")) {
+        return { kind: "every", ms: parse_duration(trimmed.slice("every ".length)) };
+    }
+    const cron = parse_cron(trimmed);
+    //? Catches expressions like "0 0 31 2 *" right away instead of once the daemon runs
+    next_cron(cron, new Date());
+    return { kind: "cron", cron };
+}
+
+export type DaemonEvent = "started" | "ran" | "failed" | "stopped";
+
+export interface DaemonLogEntry {
+    time: string;
+    profile: string;
+    event: DaemonEvent;
+    task?: string;
+    command?: string;
+    //? What the command printed
+    output?: string[];
+    error?: string;
+    //? When the task runs next
+    next?: string;
+}
+
+export function daemon_log_path(): string {
+    return dataPath("daemon.log.ndjson");
+}
+
+export function log_daemon(entry: Omit<DaemonLogEntry, "time">) {
+    const line: DaemonLogEntry = { time: new Date().toISOString(), ...entry };
+    Deno.writeTextFileSync(daemon_log_path(), JSON.stringify(line) + "\n", { append: true, create: true });
+}
+
+//? A lock whose heartbeat is older than this belongs to a daemon that died without cleaning up
+export const LOCK_STALE_MS = 3 * 60_000;
+export const HEARTBEAT_MS = 60_000;
+
+export interface DaemonLock {
+    pid: number;
+    profile: string;
+    started: string;
+    heartbeat: string;
+}
+
+export function lock_path(profile: string): string {
+    return dataPath(`daemon-${encodeURIComponent(profile)}.lock`);
+}
+
+function read_lock(file: string): DaemonLock | undefined {
+    try {
+        return JSON.parse(Deno.readTextFileSync(file)) as DaemonLock;
+    } catch {
+        //? Half written or garbage, treated like a stale lock
+        return undefined;
+    }
+}
+
+/**
+ * Makes sure only one daemon runs per profile. Throws when another daemon holds the lock and has been alive within
+ * LOCK_STALE_MS, otherwise takes it over. Returns the lock, which `touch_lock` keeps alive and `release_lock` gives up.
+ */
+export function acquire_lock(profile: string, now = Date.now()): DaemonLock {
+    const file = lock_path(profile);
+    const lock: DaemonLock = { pid: Deno.pid, profile, started: new Date(now).toISOString(), heartbeat: new Date(now).toISOString() };
+    for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+            Deno.writeTextFileSync(file, JSON.stringify(lock), { createNew: true });
+            return lock;
+        } catch (err) {
+            if (!(err instanceof Deno.errors.AlreadyExists)) {
+                throw err;
+            }
+        }
+        const held = read_lock(file);
+        if (held != undefined && now - Date.parse(held.heartbeat) < LOCK_STALE_MS) {
+            throw new Error(`A daemon (pid ${held.pid}) is already running for profile "${profile}" since ${held.started}, stop it first or delete ${file} if it isn't running`);
+        }
+        Deno.removeSync(file);
+    }
+    throw new Error(`Couldn't take the daemon lock ${file}`);
+}
+
+export function touch_lock(lock: DaemonLock, now = Date.now()) {
+    lock.heartbeat = new Date(now).toISOString();
+    Deno.writeTextFileSync(lock_path(lock.profile), JSON.stringify(lock));
+}
+
+//? Only removes the lock if it's still ours, a daemon that took over a stale lock keeps it
+export function release_lock(lock: DaemonLock) {
+    const file = lock_path(lock.profile);
+    const held = read_lock(file);
+    if (held?.pid == lock.pid && held.started == lock.started) {
+        Deno.removeSync(file);
+    }
+}
+
+//? Failed tasks are retried after 1, 2, 4, ... minutes, but never later than their next regular run
+export const RETRY_BASE_MS = 60_000;
+export const RETRY_MAX_MS = 3_600_000;
+
+export function retry_delay(failures: number): number {
+    return Math.min(RETRY_BASE_MS * 2 ** (failures - 1), RETRY_MAX_MS);
+}
+
+export interface DaemonOptions {
+    tasks: DaemonTask[];
+    run: (task: DaemonTask) => Promise<{ ok: boolean; output: string[] }>;
+    //? When the daily reward can be claimed next, for `reward` tasks
+    reward_at: () => Promise<number>;
+    log: (entry: Omit<DaemonLogEntry, "time" | "profile">) => void;
+    //? Called at least every `heartbeat_ms` (HEARTBEAT_MS by default), while the daemon waits and while a task runs
+    heartbeat?: () => void;
+    heartbeat_ms?: number;
+    //? Checked before every pass, the daemon returns once it's true
+    stop?: () => boolean;
+    //? Runs the tasks that are due right away, then returns
+    once?: boolean;
+    now?: () => number;
+    sleep?: (ms: number) => Promise<void>;
+}
+
+interface TaskState {
+    task: DaemonTask;
+    schedule: Schedule;
+    next: number;
+    failures: number;
+}
+
+/**
+ * Runs the tasks on their schedules until `stop` says so. A task that fails, or whose command throws, is logged and
+ * retried with backoff (see retry_delay), so an API outage never ends the daemon. Tasks due at the same time run one after another.
+ */
+export async function run_daemon(options: DaemonOptions) {
+    const now = options.now ?? Date.now;
+    const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+    const stop = options.stop ?? (() => false);
+    const heartbeat_ms = options.heartbeat_ms ?? HEARTBEAT_MS;
+
+    //? The regular next run after `after`, reward tasks ask Rugplay
+    const regular = async (state: TaskState, after: number): Promise<number> => {
+        switch (state.schedule.kind) {
+            case "every":
+                return after + state.schedule.ms;
+            case "cron":
+                return next_cron(state.schedule.cron, new Date(after)).getTime();
+            case "reward":
+                //? Never hammer the endpoint, even if Rugplay says it can be claimed again right away
+                return Math.max(await options.reward_at(), after + RETRY_BASE_MS);
+        }
+    };
+    //? Schedules the retry, no later than `regular_next` or for reward tasks no earlier, and logs when it'll be
+    const fail = (state: TaskState, error: string, output?: string[], regular_next?: number) => {
+        state.failures++;
+        state.next = now() + retry_delay(state.failures);
+        if (regular_next != undefined) {
+            //? A reward that isn't claimable yet isn't worth retrying before its cooldown is over
+            state.next = state.schedule.kind == "reward" ? Math.max(state.next, regular_next) : Math.min(state.next, regular_next);
+        }
+        options.log({ event: "failed", task: state.task.name, command: state.task.command, output, error, next: new Date(state.next).toISOString() });
+    };
+
+    const states: TaskState[] = options.tasks.map((task) => ({ task, schedule: parse_schedule(task.schedule), next: now(), failures: 0 }));
+    for (const state of states) {
+        if (state.schedule.kind == "cron") {
+            state.next = next_cron(state.schedule.cron, new Date(now())).getTime();
+        } else if (state.schedule.kind == "reward") {
+            try {
+                state.next = await options.reward_at();
+            } catch (err) {
+                fail(state, err instanceof Error ? err.message : String(err));
+            }
+        }
+    }
+    options.log({ event: "started" });
+
+    while (!stop()) {
+        for (const state of states.filter((s) => s.next <= now()).sort((a, b) => a.next - b.next)) {
+            let result: { ok: boolean; output: string[] };
+            //? A long task would otherwise outlast LOCK_STALE_MS and let another daemon take the lock over
+            const beat = options.heartbeat == undefined ? undefined : setInterval(options.heartbeat, heartbeat_ms);
+            try {
+                result = await options.run(state.task);
+            } catch (err) {
+                result = { ok: false, output: [err instanceof Error ? err.message : String(err)] };
+            } finally {
+                clearInterval(beat);
+            }
+            if (!result.ok) {
+                let regular_next: number | undefined;
+                try {
+                    regular_next = await regular(state, now());
+                } catch {
+                    // keep the retry
+                }
+                fail(state, result.output.at(-1) ?? "The command failed", result.output, regular_next);
+                continue;
+            }
+            state.failures = 0;
+            try {
+                state.next = await regular(state, now());
+            } catch (err) {
+                fail(state, err instanceof Error ? err.message : String(err), result.output);
+                continue;
+            }
+            options.log({ event: "ran", task: state.task.name, command: state.task.command, output: result.output, next: new Date(state.next).toISOString() });
+        }
+        if (options.once) {
+            break;
+        }
+        const wait = Math.min(...states.map((s) => s.next)) - now();
+        await sleep(Math.max(0, Math.min(wait, heartbeat_ms)));
+        options.heartbeat?.();
+    }
+    options.log({ event: "stopped" });
+}
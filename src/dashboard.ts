@@ -0,0 +1,399 @@
+import chalk from "chalk";
+import type { RugplayClient } from "./client.ts";
+import { find_coin } from "./market.ts";
+import type { CoinHolding, MarketCoin, MarketQuery, TradeType } from "./types.ts";
+
+//? What `o`, `p` and `f` cycle through, sent as the market endpoint's query params
+export const SORTS: Pick<MarketQuery, "sortBy" | "sortOrder">[] = [
+    { sortBy: "marketCap", sortOrder: "desc" },
+    { sortBy: "currentPrice", sortOrder: "desc" },
+    { sortBy: "change24h", sortOrder: "desc" },
+    { sortBy: "change24h", sortOrder: "asc" },
+    { sortBy: "volume24h", sortOrder: "desc" },
+    { sortBy: "createdAt", sortOrder: "desc" },
+];
+export const PRICE_FILTERS = ["all", "under1", "1to10", "10to100", "over100"];
+export const CHANGE_FILTERS = ["all", "gainers", "losers"];
+
+export type Section = "market" | "watchlist" | "holdings";
+const SECTIONS: Section[] = ["market", "watchlist", "holdings"];
+
+export interface DashboardData {
+    market: MarketCoin[];
+    watchlist: MarketCoin[];
+    gainers: MarketCoin[];
+    losers: MarketCoin[];
+    holdings?: CoinHolding[];
+    balance?: number;
+    //? Why the holdings couldn't be loaded, e.g. no cookie set
+    holdingsError?: string;
+    updated: Date;
+}
+
+export interface DashboardState {
+    data?: DashboardData;
+    //? Coins as they were before the latest refresh, to show what changed
+    previous: Map<string, MarketCoin>;
+    watch: string[];
+    rows: number;
+    sort: number;
+    priceFilter: number;
+    changeFilter: number;
+    section: Section;
+    selected: number;
+    //? Symbol of the coin opened with enter
+    detail?: string;
+    //? Amount being typed in for a trade, then the trade waiting for a yes
+    input?: { side: TradeType; symbol: string; text: string };
+    confirm?: { side: TradeType; symbol: string; amount: string };
+    message: string[];
+}
+
+export type DashboardAction =
+    | { type: "quit" }
+    | { type: "refresh" }
+    | { type: "trade"; side: TradeType; symbol: string; amount: string }
+    | { type: "watch"; symbol: string };
+
+export function new_dashboard(watch: string[], rows = 10): DashboardState {
+    return { previous: new Map(), watch, rows, sort: 0, priceFilter: 0, changeFilter: 0, section: "market", selected: 0, message: [] };
+}
+
+export function market_query(state: DashboardState): Partial<MarketQuery> {
+    return {
+        ...SORTS[state.sort],
+        priceFilter: PRICE_FILTERS[state.priceFilter],
+        changeFilter: CHANGE_FILTERS[state.changeFilter],
+        limit: state.rows,
+    };
+}
+
+/** Everything the dashboard shows. Watchlist coins that no longer exist are skipped, missing holdings are only noted. */
+export async function fetch_dashboard(client: RugplayClient, state: DashboardState): Promise<DashboardData> {
+    const market = (await client.market(market_query(state))).coins;
+    const watchlist: MarketCoin[] = [];
+    for (const symbol of state.watch) {
+        try {
+            watchlist.push(await find_coin(client, symbol));
+        } catch {
+            continue;
+        }
+    }
+    const gainers = (await client.market({ sortBy: "change24h", sortOrder: "desc", changeFilter: "gainers", limit: 3 })).coins;
+    const losers = (await client.market({ sortBy: "change24h", sortOrder: "asc", changeFilter: "losers", limit: 3 })).coins;
+    const data: DashboardData = { market, watchlist, gainers, losers, updated: new Date() };
+    try {
+        const total = await client.portfolioTotal();
+        data.holdings = total.coinHoldings;
+        data.balance = total.baseCurrencyBalance;
+    } catch (err) {
+        data.holdingsError = err instanceof Error ? err.message : String(err);
+    }
+    return data;
+}
+
+export function apply_data(state: DashboardState, data: DashboardData) {
+    if (state.data != undefined) {
+        const d = state.data;
+        for (const c of [...d.market, ...d.watchlist, ...d.gainers, ...d.losers]) {
+            state.previous.set(c.symbol, c);
+        }
+    }
+    state.data = data;
+    state.selected = Math.min(state.selected, Math.max(0, section_symbols(state).length - 1));
+}
+
+/** Symbols listed in the selected section, in order. */
+export function section_symbols(state: DashboardState): string[] {
+    const d = state.data;
+    switch (state.section) {
+        case "market":
+            return d?.market.map((c) => c.symbol) ?? [];
+        case "watchlist":
+            return d?.watchlist.map((c) => c.symbol) ?? [];
+        case "holdings":
+            return d?.holdings?.map((h) => h.symbol) ?? [];
+    }
+}
+
+function selected_symbol(state: DashboardState): string | undefined {
+    return state.detail ?? section_symbols(state)[state.selected];
+}
+
+/** Splits raw terminal input into key names: arrows, enter, tab, esc, backspace, ctrl-c, or the character typed. */
+export function parse_keys(bytes: Uint8Array): string[] {
+    const text = new TextDecoder().decode(bytes);
+    const keys: string[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const arrow = text.startsWith("\x1b[", i) ? { A: "up", B: "down", C: "right", D: "left" }[text[i + 2]] : undefined;
+        if (arrow != undefined) {
+            keys.push(arrow);
+            i += 2;
+        } else if (text[i] == "\x1b") {
+            keys.push("esc");
+        } else if (text[i] == "\r" || text[i] == "\n") {
+            keys.push("enter");
+        } else if (text[i] == "\t") {
+            keys.push("tab");
+        } else if (text[i] == "\x7f" || text[i] == "\b") {
+            keys.push("backspace");
+        } else if (text[i] == "\x03") {
+            keys.push("ctrl-c");
+        } else {
+            keys.push(text[i]);
+        }
+    }
+    return keys;
+}
+
+/** Updates the state for a key press and returns what the caller has to do about it, if anything. */
+export function handle_key(state: DashboardState, key: string): DashboardAction | undefined {
+    if (key == "ctrl-c") {
+        return { type: "quit" };
+    }
+    if (state.confirm != undefined) {
+        const confirm = state.confirm;
+        state.confirm = undefined;
+        if (key == "y" || key == "Y") {
+            return { type: "trade", ...confirm };
+        }
+        state.message = ["Cancelled."];
+        return;
+    }
+    if (state.input != undefined) {
+        const input = state.input;
+        if (key == "esc") {
+            state.input = undefined;
+        } else if (key == "backspace") {
+            input.text = input.text.slice(0, -1);
+        } else if (key == "enter") {
+            state.input = undefined;
+            let amount = input.text.trim();
+            //? "all" sells everything held
+            if (input.side == "SELL" && amount.toLowerCase() == "all") {
+                amount = `${state.data?.holdings?.find((h) => h.symbol == input.symbol)?.quantity ?? 0}`;
+            }
+            if (Number.isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
+                state.message = [`"${input.text}" is not an amount.`];
+                return;
+            }
+            state.confirm = { side: input.side, symbol: input.symbol, amount };
+        } else if (key.length == 1) {
+            input.text += key;
+        }
+        return;
+    }
+
+    const count = section_symbols(state).length;
+    switch (key) {
+        case "q":
+            return { type: "quit" };
+        case "esc":
+        case "backspace":
+            state.detail = undefined;
+            return;
+        case "up":
+        case "k":
+            state.selected = Math.max(0, state.selected - 1);
+            return;
+        case "down":
+        case "j":
+            state.selected = Math.max(0, Math.min(count - 1, state.selected + 1));
+            return;
+        case "tab":
+            state.section = SECTIONS[(SECTIONS.indexOf(state.section) + 1) % SECTIONS.length];
+            state.selected = 0;
+            state.detail = undefined;
+            return;
+        case "enter": {
+            state.detail = selected_symbol(state);
+            return;
+        }
+        case "b":
+        case "s": {
+            const symbol = selected_symbol(state);
+            if (symbol != undefined) {
+                state.input = { side: key == "b" ? "BUY" : "SELL", symbol, text: "" };
+            }
+            return;
+        }
+        case "w": {
+            const symbol = selected_symbol(state);
+            return symbol == undefined ? undefined : { type: "watch", symbol };
+        }
+        case "o":
+            state.sort = (state.sort + 1) % SORTS.length;
+            return { type: "refresh" };
+        case "p":
+            state.priceFilter = (state.priceFilter + 1) % PRICE_FILTERS.length;
+            return { type: "refresh" };
+        case "f":
+            state.changeFilter = (state.changeFilter + 1) % CHANGE_FILTERS.length;
+            return { type: "refresh" };
+        case "r":
+            return { type: "refresh" };
+    }
+}
+
+function money(n: number): string {
+    return `$${n >= 1000 ? Math.round(n).toLocaleString("en-US") : Math.round(n * 1000) / 1000}`;
+}
+
+function signed(n: number, suffix = "%"): string {
+    const text = `${n > 0 ? "+" : ""}${Math.round(n * 100) / 100}${suffix}`;
+    return n > 0 ? chalk.greenBright(text) : n < 0 ? chalk.redBright(text) : chalk.gray(text);
+}
+
+function coin_line(state: DashboardState, c: MarketCoin, selected: boolean): string {
+    const prev = state.previous.get(c.symbol);
+    const moved = prev == undefined || prev.currentPrice == 0 ? "" : ` Δ ${signed((c.currentPrice - prev.currentPrice) / prev.currentPrice * 100)}`;
+    const cap = prev == undefined ? "" : ` Δ ${signed(c.marketCap - prev.marketCap, "")}`;
+    const line = `${selected ? ">" : " "} ${c.symbol.padEnd(6)} ${c.name.slice(0, 16).padEnd(16)} ${money(c.currentPrice).padStart(10)}  ${signed(c.change24h)}${moved}  cap ${money(c.marketCap)}${cap}`;
+    return selected ? chalk.bold(line) : line;
+}
+
+function detail_lines(state: DashboardState, symbol: string): string[] {
+    const d = state.data;
+    const c = d == undefined ? undefined : [...d.market, ...d.watchlist, ...d.gainers, ...d.losers].find((c) => c.symbol == symbol);
+    const held = d?.holdings?.find((h) => h.symbol == symbol);
+    const lines = [chalk.bold(`${symbol}${c ? ` (${c.name})` : ""}`)];
+    if (c != undefined) {
+        lines.push(
+            `  Price: ${money(c.currentPrice)} (${signed(c.change24h)} 24h)`,
+            `  Market cap: ${money(c.marketCap)}`,
+            `  Volume 24h: ${c.volume24h == undefined ? "?" : money(c.volume24h)}`,
+            `  Created by @${c.creatorName}${c.createdAt ? ` on ${c.createdAt.slice(0, 10)}` : ""}`,
+        );
+    }
+    lines.push(held == undefined ? "  You don't hold any" : `  You hold ${held.quantity} worth ${money(held.value)} (${signed(held.percentageChange)})`);
+    lines.push(`  ${state.watch.includes(symbol) ? "On" : "Not on"} your watchlist`);
+    return lines;
+}
+
+/** The whole screen as lines, cut to `height`. */
+export function render_dashboard(state: DashboardState, height: number): string[] {
+    const d = state.data;
+    const sort = SORTS[state.sort];
+    const lines = [
+        `${chalk.bold(chalk.yellow("Rugplay") + " dashboard")}  sort ${sort.sortBy} ${sort.sortOrder} | price ${PRICE_FILTERS[state.priceFilter]} | change ${CHANGE_FILTERS[state.changeFilter]}${d ? ` | updated ${d.updated.toLocaleTimeString()}` : ""}`,
+    ];
+    const heading = (section: Section, title: string) => lines.push(state.section == section && state.detail == undefined ? chalk.bgWhite(chalk.black(title)) : chalk.bold(title));
+
+    if (d == undefined) {
+        lines.push("Loading...");
+    } else if (state.detail != undefined) {
+        lines.push("", ...detail_lines(state, state.detail));
+    } else {
+        heading("market", "Market");
+        d.market.forEach((c, i) => lines.push(coin_line(state, c, state.section == "market" && i == state.selected)));
+        heading("watchlist", "Watchlist");
+        if (d.watchlist.length == 0) {
+            lines.push("  Empty, press w on a coin to add it");
+        }
+        d.watchlist.forEach((c, i) => lines.push(coin_line(state, c, state.section == "watchlist" && i == state.selected)));
+        lines.push(`${chalk.bold("Top movers")}  ${d.gainers.map((c) => `${c.symbol} ${signed(c.change24h)}`).join("  ")}  |  ${d.losers.map((c) => `${c.symbol} ${signed(c.change24h)}`).join("  ")}`);
+        heading("holdings", `Holdings${d.balance == undefined ? "" : ` (${money(d.balance)} cash)`}`);
+        if (d.holdings == undefined) {
+            lines.push(`  Unavailable: ${d.holdingsError}`);
+        } else if (d.holdings.length == 0) {
+            lines.push("  None");
+        }
+        d.holdings?.forEach((h, i) => {
+            const selected = state.section == "holdings" && i == state.selected;
+            const line = `${selected ? ">" : " "} ${h.symbol.padEnd(6)} ${`${Math.round(h.quantity * 1000) / 1000}`.padStart(12)} @ ${money(h.currentPrice).padEnd(10)} = ${money(h.value).padEnd(10)} ${signed(h.percentageChange)}`;
+            lines.push(selected ? chalk.bold(line) : line);
+        });
+    }
+
+    const footer: string[] = [...state.message];
+    if (state.input != undefined) {
+        footer.push(`${state.input.side == "BUY" ? `Dollars of ${state.input.symbol} to buy` : `Coins of ${state.input.symbol} to sell (or all)`}: ${state.input.text}_`);
+    } else if (state.confirm != undefined) {
+        const c = state.confirm;
+        footer.push(chalk.yellowBright(`${c.side == "BUY" ? `Buy $${c.amount} of` : `Sell ${c.amount}`} ${c.symbol}? [y/n]`));
+    } else {
+        footer.push(chalk.gray(`↑↓ move  tab section  enter open  esc back  b buy  s sell  w watch  o sort  p price  f change  r refresh  q quit`));
+    }
+    return [...lines.slice(0, Math.max(1, height - footer.length)), ...footer];
+}
+
+export interface DashboardOptions {
+    //? Seconds between refreshes
+    interval: number;
+    //? Runs a trade, returning what it printed
+    trade: (side: TradeType, symbol: string, amount: string) => Promise<string[]>;
+    //? Adds or removes a coin from the saved watchlist, returning the new one
+    toggle_watch: (symbol: string) => string[];
+}
+
+/** Takes over the terminal until q is pressed. */
+export async function run_dashboard(client: RugplayClient, state: DashboardState, opts: DashboardOptions) {
+    if (!Deno.stdin.isTerminal() || !Deno.stdout.isTerminal()) {
+        throw new Error("The dashboard needs an interactive terminal");
+    }
+    const encoder = new TextEncoder();
+    const write = (s: string) => Deno.stdout.writeSync(encoder.encode(s));
+    //? Some terminals (and pseudo-terminals) report no size at all
+    const height = () => Deno.consoleSize().rows || 24;
+    //? Alternate screen, hidden cursor and no line wrapping, all undone on the way out
+    write("\x1b[?1049h\x1b[?25l\x1b[?7l");
+    Deno.stdin.setRaw(true);
+    const reader = Deno.stdin.readable.getReader();
+    try {
+        let next_refresh = 0;
+        let pending: Promise<ReadableStreamReadResult<Uint8Array>> | undefined;
+        while (true) {
+            if (Date.now() >= next_refresh) {
+                try {
+                    apply_data(state, await fetch_dashboard(client, state));
+                } catch (err) {
+                    state.message = [`Couldn't refresh: ${err instanceof Error ? err.message : err}`];
+                }
+                next_refresh = Date.now() + opts.interval * 1000;
+            }
+            write("\x1b[H\x1b[2J" + render_dashboard(state, height()).join("\r\n"));
+
+            //? Only one read is ever pending, and none is left behind once we quit
+            pending ??= reader.read();
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const read = await Promise.race([
+                pending,
+                new Promise<undefined>((resolve) => timer = setTimeout(() => resolve(undefined), Math.max(0, next_refresh - Date.now()))),
+            ]);
+            clearTimeout(timer);
+            if (read == undefined) {
+                continue;
+            }
+            pending = undefined;
+            if (read.done) {
+                break;
+            }
+            let quit = false;
+            for (const key of parse_keys(read.value)) {
+                const action = handle_key(state, key);
+                if (action?.type == "quit") {
+                    quit = true;
+                    break;
+                } else if (action?.type == "refresh") {
+                    next_refresh = 0;
+                } else if (action?.type == "trade") {
+                    state.message = ["Trading..."];
+                    write("\x1b[H\x1b[2J" + render_dashboard(state, height()).join("\r\n"));
+                    state.message = await opts.trade(action.side, action.symbol, action.amount);
+                    next_refresh = 0;
+                } else if (action?.type == "watch") {
+                    state.watch = opts.toggle_watch(action.symbol);
+                    state.message = [`${state.watch.includes(action.symbol) ? "Added" : "Removed"} ${action.symbol} ${state.watch.includes(action.symbol) ? "to" : "from"} the watchlist.`];
+                    next_refresh = 0;
+                }
+            }
+            if (quit) {
+                break;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+        Deno.stdin.setRaw(false);
+        write("\x1b[?7h\x1b[?25h\x1b[?1049l");
+    }
+}
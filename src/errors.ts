@@ -0,0 +1,139 @@
+/** Thrown when a request is attempted before a cookie has been set. */
+export class NoCookieError extends Error {
+    constructor() {
+        super("You must have a cookie set to use this.");
+        this.name = "NoCookieError";
+    }
+}
+
+/** Thrown when the passphrase doesn't decrypt the stored cookies. */
+export class WrongPassphraseError extends Error {
+    constructor() {
+        super("Wrong passphrase");
+        this.name = "WrongPassphraseError";
+    }
+}
+
+/** Thrown when a command is given arguments it can't use, `usage` is the command's usage line when known. */
+export class UsageError extends Error {
+    usage?: string;
+
+    constructor(message: string, usage?: string) {
+        super(message);
+        this.name = "UsageError";
+        this.usage = usage;
+    }
+}
+
+//? Rugplay answers errors with {"error": "..."} or {"message": "..."}, fall back to the raw text otherwise
+function error_message(status: number, body: string): string {
+    try {
+        const json = JSON.parse(body);
+        if (typeof json?.error == "string") {
+            return json.error;
+        }
+        if (typeof json?.message == "string") {
+            return json.message;
+        }
+    } catch {
+        // not JSON
+    }
+    return body.trim() == "" ? `Rugplay API responded with ${status}` : body.trim();
+}
+
+/** Thrown when Rugplay answers with a non-2xx status, `body` is the raw response text. */
+export class ApiError extends Error {
+    status: number;
+    body: string;
+
+    constructor(status: number, body: string) {
+        super(error_message(status, body));
+        this.name = "ApiError";
+        this.status = status;
+        this.body = body;
+    }
+}
+
+/** 401/403, the cookie is wrong or the session behind it expired. */
+export class AuthExpiredError extends ApiError {
+    constructor(status: number, body: string) {
+        super(status, body);
+        this.name = "AuthExpiredError";
+    }
+}
+
+/** 429, `retryAfter` is how many seconds Rugplay asked us to wait, when it said so. */
+export class RateLimitedError extends ApiError {
+    retryAfter?: number;
+
+    constructor(status: number, body: string, retryAfter?: number) {
+        super(status, body);
+        this.name = "RateLimitedError";
+        this.retryAfter = retryAfter;
+    }
+}
+
+/** Any other 4xx, Rugplay didn't accept what we sent (not enough balance, unknown coin, ...). */
+export class ValidationError extends ApiError {
+    constructor(status: number, body: string) {
+        super(status, body);
+        this.name = "ValidationError";
+    }
+}
+
+/** 5xx, something went wrong on Rugplay's side. */
+export class ServerError extends ApiError {
+    constructor(status: number, body: string) {
+        super(status, body);
+        this.name = "ServerError";
+    }
+}
+
+/** The request never got a response, `cause` holds what fetch threw. */
+export class NetworkError extends Error {
+    constructor(message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = "NetworkError";
+    }
+}
+
+/** The request took longer than the configured timeout. */
+export class TimeoutError extends NetworkError {
+    constructor(ms: number) {
+        super(`Request timed out after ${ms}ms`);
+        this.name = "TimeoutError";
+    }
+}
+
+/** Rugplay answered, but not with what we expected, most likely because the site changed. */
+export class UnexpectedResponseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UnexpectedResponseError";
+    }
+}
+
+/** A trade or bet the safety checks stopped before it reached Rugplay: over a spend cap, not confirmed or the price moved too much. */
+export class TradeRefusedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TradeRefusedError";
+    }
+}
+
+/** Picks the error class matching a response status. */
+export function api_error(status: number, body: string, retryAfter?: number): ApiError {
+    if (status == 401 || status == 403) {
+        return new AuthExpiredError(status, body);
+    }
+    if (status == 429) {
+        return new RateLimitedError(status, body, retryAfter);
+    }
+    if (status >= 500) {
+        return new ServerError(status, body);
+    }
+    if (status >= 400) {
+        return new ValidationError(status, body);
+    }
+    return new ApiError(status, body);
+}
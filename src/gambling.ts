@@ -0,0 +1,244 @@
+import type { CoinSide } from "./types.ts";
+
+export type Game = "coinflip" | "slots";
+
+export const slot_record: Record<string, string> = {
+    wattesigma: "◻️",
+    webx: "⬛",
+    twoblade: "🟥",
+    lyntr: "🟪",
+    bussin: "🟧",
+    subterfuge: "🟩",
+};
+
+//? What a winning bet pays back, bet included. Coinflip doubles the bet, slots pay for three of a kind or a pair
+//? of the symbols in slot_record, each reel landing on any of them with equal odds
+export const COINFLIP_PAYOUT = 2;
+export const SLOT_PAYOUTS = { three: 5, two: 2 };
+
+/** Every possible outcome of one round as [probability, payout multiplier]. */
+export function payout_table(game: Game): [number, number][] {
+    if (game == "coinflip") {
+        return [[0.5, COINFLIP_PAYOUT], [0.5, 0]];
+    }
+    const n = Object.keys(slot_record).length;
+    const three = n / n**3;
+    const two = 3 * n * (n - 1) / n**3;
+    return [[three, SLOT_PAYOUTS.three], [two, SLOT_PAYOUTS.two], [1 - three - two, 0]];
+}
+
+/** Expected return per dollar bet, below 1 means the house wins in the long run. */
+export function expected_return(game: Game): number {
+    return payout_table(game).reduce((a, [p, m]) => a + p * m, 0);
+}
+
+/**
+ * The Kelly fraction of the balance worth betting each round, from the payout table.
+ * Zero or less means the game has no edge for the player and the best bet is no bet.
+ */
+export function kelly_fraction(game: Game): number {
+    //? For a single win outcome paying b-to-1 with probability p this is (bp - q) / b, for slots we use the blended odds
+    const wins = payout_table(game).filter(([_, m]) => m > 0);
+    const p = wins.reduce((a, [q]) => a + q, 0);
+    const b = wins.reduce((a, [q, m]) => a + q * m, 0) / p - 1;
+    return (b * p - (1 - p)) / b;
+}
+
+export interface RoundResult {
+    round: number;
+    bet: number;
+    won: boolean;
+    payout: number;
+    balance: number;
+}
+
+export interface SessionState {
+    base: number;
+    startBalance: number;
+    balance: number;
+    last?: RoundResult;
+}
+
+export interface BetStrategy {
+    //? Size of the next bet, before the session's max bet and balance limits are applied
+    next: (s: SessionState) => number;
+}
+
+export const STRATEGIES = ["flat", "martingale", "anti-martingale", "kelly"] as const;
+export type StrategyName = typeof STRATEGIES[number];
+
+/** `fraction` is only used by kelly, which bets that share of the current balance every round. */
+export function make_strategy(name: StrategyName, fraction = 0.01): BetStrategy {
+    switch (name) {
+        case "flat":
+            return { next: (s) => s.base };
+        case "martingale":
+            //? Double after every loss, so the first win makes back everything lost plus the base bet
+            return { next: (s) => s.last == undefined || s.last.won ? s.base : s.last.bet * 2 };
+        case "anti-martingale":
+            //? Double after every win, back to the base bet after a loss
+            return { next: (s) => s.last == undefined || !s.last.won ? s.base : s.last.bet * 2 };
+        case "kelly":
+            return { next: (s) => s.balance * fraction };
+    }
+}
+
+export interface SessionOptions {
+    game: Game;
+    side: CoinSide;
+    strategy: BetStrategy;
+    base: number;
+    maxRounds: number;
+    //? Stop once this much of the starting balance is lost / won
+    stopLoss?: number;
+    takeProfit?: number;
+    maxBet?: number;
+}
+
+/** Places one bet, live through the API or simulated. */
+export type Bettor = (game: Game, side: CoinSide, amount: number) => Promise<{ won: boolean; payout: number; newBalance: number }>;
+
+export type StopReason = "max rounds" | "stop loss" | "take profit" | "insufficient balance";
+
+export interface SessionResult {
+    rounds: RoundResult[];
+    startBalance: number;
+    endBalance: number;
+    net: number;
+    wins: number;
+    wagered: number;
+    maxDrawdown: number;
+    stopReason: StopReason;
+}
+
+//? Rugplay only deals in cents for bets
+function round_bet(n: number): number {
+    return Math.floor(n * 100) / 100;
+}
+
+/** Runs a betting session until a limit is hit. `onRound` is called after every bet, e.g. to print it. */
+export async function run_session(
+    opts: SessionOptions,
+    bettor: Bettor,
+    startBalance: number,
+    onRound?: (r: RoundResult) => void,
+): Promise<SessionResult> {
+    const state: SessionState = { base: opts.base, startBalance, balance: startBalance };
+    const rounds: RoundResult[] = [];
+    let peak = startBalance, maxDrawdown = 0;
+    let stopReason: StopReason;
+    while (true) {
+        if (opts.stopLoss != undefined && state.balance <= startBalance - opts.stopLoss) {
+            stopReason = "stop loss";
+            break;
+        }
+        if (opts.takeProfit != undefined && state.balance >= startBalance + opts.takeProfit) {
+            stopReason = "take profit";
+            break;
+        }
+        if (rounds.length >= opts.maxRounds) {
+            stopReason = "max rounds";
+            break;
+        }
+        let bet = opts.strategy.next(state);
+        if (opts.maxBet != undefined) {
+            bet = Math.min(bet, opts.maxBet);
+        }
+        //? Never bet more than what the stop loss has left to lose
+        if (opts.stopLoss != undefined) {
+            bet = Math.min(bet, state.balance - (startBalance - opts.stopLoss));
+        }
+        bet = round_bet(bet);
+        if (bet <= 0 || bet > state.balance) {
+            stopReason = "insufficient balance";
+            break;
+        }
+        const res = await bettor(opts.game, opts.side, bet);
+        const result: RoundResult = { round: rounds.length + 1, bet, won: res.won, payout: res.payout, balance: res.newBalance };
+        rounds.push(result);
+        state.balance = res.newBalance;
+        state.last = result;
+        peak = Math.max(peak, state.balance);
+        maxDrawdown = Math.max(maxDrawdown, peak - state.balance);
+        onRound?.(result);
+    }
+    return {
+        rounds,
+        startBalance,
+        endBalance: state.balance,
+        net: state.balance - startBalance,
+        wins: rounds.filter((r) => r.won).length,
+        wagered: rounds.reduce((a, r) => a + r.bet, 0),
+        maxDrawdown,
+        stopReason,
+    };
+}
+
+/** mulberry32, the same generator the mock server uses */
+export function seeded_rng(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** A bettor that plays against the payout tables instead of the API, reproducible for a given seed. */
+export function simulated_bettor(rng: () => number, startBalance: number): Bettor {
+    let balance = startBalance;
+    return (game, _side, amount) => {
+        let roll = rng(), multiplier = 0;
+        for (const [p, m] of payout_table(game)) {
+            if (roll < p) {
+                multiplier = m;
+                break;
+            }
+            roll -= p;
+        }
+        const payout = amount * multiplier;
+        balance += payout - amount;
+        return Promise.resolve({ won: payout > 0, payout, newBalance: balance });
+    };
+}
+
+export interface SimulationSummary {
+    runs: number;
+    meanNet: number;
+    medianNet: number;
+    profitable: number;
+    ruined: number;
+    meanRounds: number;
+    meanDrawdown: number;
+    expectedReturn: number;
+    kellyFraction: number;
+}
+
+/** Plays `runs` simulated sessions in a row from one seed, to estimate how a strategy does on average. */
+export async function simulate(opts: SessionOptions, startBalance: number, seed: number, runs: number): Promise<SimulationSummary> {
+    const rng = seeded_rng(seed);
+    const nets: number[] = [];
+    let profitable = 0, ruined = 0, rounds = 0, drawdown = 0;
+    for (let i = 0; i < runs; i++) {
+        const res = await run_session(opts, simulated_bettor(rng, startBalance), startBalance);
+        nets.push(res.net);
+        profitable += res.net > 0 ? 1 : 0;
+        ruined += res.stopReason == "insufficient balance" ? 1 : 0;
+        rounds += res.rounds.length;
+        drawdown += res.maxDrawdown;
+    }
+    nets.sort((a, b) => a - b);
+    return {
+        runs,
+        meanNet: nets.reduce((a, n) => a + n, 0) / runs,
+        medianNet: runs % 2 == 1 ? nets[(runs - 1) / 2] : (nets[runs / 2 - 1] + nets[runs / 2]) / 2,
+        profitable: profitable / runs,
+        ruined: ruined / runs,
+        meanRounds: rounds / runs,
+        meanDrawdown: drawdown / runs,
+        expectedReturn: expected_return(opts.game),
+        kellyFraction: kelly_fraction(opts.game),
+    };
+}
@@ -0,0 +1,148 @@
+import { dataPath } from "./config.ts";
+
+export type JournalAction = "BUY" | "SELL" | "COINFLIP" | "SLOTS";
+
+/** One executed trade or bet. Dollar amounts are in the base currency, `coins` is the coin quantity traded. */
+export interface JournalEntry {
+    time: string;
+    profile: string;
+    action: JournalAction;
+    //? The command that did it, e.g. "invest" for the buys it makes
+    source: string;
+    symbol?: string;
+    //? Dollars spent on a BUY or bet, coins given up on a SELL, same as what was passed to the API
+    amount: number;
+    coins?: number;
+    //? Dollars paid for a BUY, received for a SELL, paid out by a bet
+    value: number;
+    won?: boolean;
+    price?: number;
+    balance: number;
+}
+
+export function journal_path(): string {
+    return dataPath("journal.ndjson");
+}
+
+export function append_journal(entry: JournalEntry) {
+    Deno.writeTextFileSync(journal_path(), JSON.stringify(entry) + "\n", { append: true, create: true });
+}
+
+/** Reads the journal, oldest first. A missing file is an empty journal. */
+export function read_journal(profile?: string): JournalEntry[] {
+    let text: string;
+    try {
+        text = Deno.readTextFileSync(journal_path());
+    } catch (err) {
+        if (err instanceof Deno.errors.NotFound) {
+            return [];
+        }
+        throw err;
+    }
+    return text.split("\n")
+        .filter((l) => l.trim() != "")
+        .map((l) => JSON.parse(l) as JournalEntry)
+        .filter((e) => profile == undefined || e.profile == profile);
+}
+
+export interface CoinPnl {
+    symbol: string;
+    bought: number;
+    sold: number;
+    held: number;
+    //? Cost of the coins still held, using the average cost of every buy
+    costBasis: number;
+    realized: number;
+    unrealized: number;
+    sells: number;
+    winningSells: number;
+}
+
+export interface GamblePnl {
+    game: string;
+    day?: string;
+    bets: number;
+    wins: number;
+    wagered: number;
+    paidOut: number;
+    net: number;
+}
+
+export interface PnlReport {
+    coins: CoinPnl[];
+    games: GamblePnl[];
+    days: GamblePnl[];
+    realized: number;
+    unrealized: number;
+    gambling: number;
+    //? Share of sells that realized a profit and of bets that won, undefined when there were none
+    tradeWinRate?: number;
+    betWinRate?: number;
+}
+
+/**
+ * Works out realized and unrealized P&L per coin (average cost method) and net gambling results from journal entries.
+ * `prices` maps symbols to their current price, coins without one count as worthless for unrealized P&L.
+ */
+export function compute_pnl(entries: JournalEntry[], prices: Record<string, number>): PnlReport {
+    const coins = new Map<string, CoinPnl>();
+    const games = new Map<string, GamblePnl>();
+    const days = new Map<string, GamblePnl>();
+    const gamble = (map: Map<string, GamblePnl>, key: string, game: string, day: string | undefined, e: JournalEntry) => {
+        const g = map.get(key) ?? { game, day, bets: 0, wins: 0, wagered: 0, paidOut: 0, net: 0 };
+        g.bets++;
+        g.wins += e.won ? 1 : 0;
+        g.wagered += e.amount;
+        g.paidOut += e.value;
+        g.net += e.value - e.amount;
+        map.set(key, g);
+    };
+
+    for (const e of entries) {
+        if (e.action == "COINFLIP" || e.action == "SLOTS") {
+            const game = e.action.toLowerCase();
+            const day = e.time.slice(0, 10);
+            gamble(games, game, game, undefined, e);
+            gamble(days, `${day} ${game}`, game, day, e);
+            continue;
+        }
+        const symbol = e.symbol as string;
+        const c = coins.get(symbol) ?? { symbol, bought: 0, sold: 0, held: 0, costBasis: 0, realized: 0, unrealized: 0, sells: 0, winningSells: 0 };
+        const quantity = e.coins ?? 0;
+        if (e.action == "BUY") {
+            c.bought += quantity;
+            c.held += quantity;
+            c.costBasis += e.value;
+        } else {
+            //? Coins that were held before the journal started have no known cost, they realize their full value
+            const known = Math.min(quantity, c.held);
+            const cost = c.held > 0 ? c.costBasis * (known / c.held) : 0;
+            const profit = e.value - cost;
+            c.sold += quantity;
+            c.held -= known;
+            c.costBasis -= cost;
+            c.realized += profit;
+            c.sells++;
+            c.winningSells += profit > 0 ? 1 : 0;
+        }
+        coins.set(symbol, c);
+    }
+
+    for (const c of coins.values()) {
+        c.unrealized = c.held * (prices[c.symbol] ?? 0) - c.costBasis;
+    }
+    const coinList = [...coins.values()];
+    const gameList = [...games.values()];
+    const sells = coinList.reduce((a, c) => a + c.sells, 0);
+    const bets = gameList.reduce((a, g) => a + g.bets, 0);
+    return {
+        coins: coinList,
+        games: gameList,
+        days: [...days.values()],
+        realized: coinList.reduce((a, c) => a + c.realized, 0),
+        unrealized: coinList.reduce((a, c) => a + c.unrealized, 0),
+        gambling: gameList.reduce((a, g) => a + g.net, 0),
+        tradeWinRate: sells == 0 ? undefined : coinList.reduce((a, c) => a + c.winningSells, 0) / sells,
+        betWinRate: bets == 0 ? undefined : gameList.reduce((a, g) => a + g.wins, 0) / bets,
+    };
+}
@@ -0,0 +1,19 @@
+import type { RugplayClient } from "./client.ts";
+import { ApiError } from "./errors.ts";
+import type { MarketCoin } from "./types.ts";
+
+/** Looks a coin up by its exact symbol on its own page, so coins with similar symbols can't crowd it out of a search. */
+export async function find_coin(client: RugplayClient, symbol: string): Promise<MarketCoin> {
+    try {
+        return (await client.coin(symbol)).coin;
+    } catch (err) {
+        if (err instanceof ApiError && err.status == 404) {
+            throw new Error(`Coin ${symbol} not found`);
+        }
+        throw err;
+    }
+}
+
+export async function coin_price(client: RugplayClient, symbol: string): Promise<number> {
+    return (await find_coin(client, symbol)).currentPrice;
+}
@@ -0,0 +1,103 @@
+import type { RugplayClient } from "./client.ts";
+import type { Notification } from "./types.ts";
+
+//? Where `notifications --follow` sends every new notification, as JSON
+export interface NotificationHooks {
+    //? A local URL it's POSTed to
+    webhook?: string;
+    //? A shell command it's piped into
+    command?: string;
+}
+
+export interface NotificationFilter {
+    //? Uppercase types such as TRANSFER, any type when empty
+    types: string[];
+    unread: boolean;
+}
+
+const HOOK_TIMEOUT = 10_000;
+
+/** Fetches every notification, newest first, `pageSize` at a time. Stops on a short page or one that only repeats what we have. */
+export async function all_notifications(client: RugplayClient, pageSize = 50): Promise<Notification[]> {
+    const all: Notification[] = [];
+    const seen = new Set<number>();
+    for (let offset = 0; ; offset += pageSize) {
+        const res = await client.notifications(pageSize, offset);
+        const fresh = res.notifications.filter((n) => !seen.has(n.id));
+        for (const n of fresh) {
+            seen.add(n.id);
+            all.push(n);
+        }
+        if (fresh.length == 0 || res.notifications.length < pageSize) {
+            return all;
+        }
+    }
+}
+
+export function filter_notifications(notifications: Notification[], filter: NotificationFilter): Notification[] {
+    return notifications.filter((n) => (filter.types.length == 0 || filter.types.includes(n.type.toUpperCase())) && !(filter.unread && n.isRead));
+}
+
+/** Checks a webhook URL is http(s) on this machine, notifications shouldn't leave it without anyone noticing. */
+export function check_webhook(url: string): URL {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new Error(`"${url}" isn't a URL`);
+    }
+    if (parsed.protocol != "http:" && parsed.protocol != "https:") {
+        throw new Error(`The webhook has to be an http or https URL, got "${url}"`);
+    }
+    if (!["localhost", "[::1]"].includes(parsed.hostname) && !/^127\.\d+\.\d+\.\d+$/.test(parsed.hostname)) {
+        throw new Error(`The webhook has to be on this machine (localhost, 127.0.0.1 or [::1]), got "${parsed.hostname}"`);
+    }
+    return parsed;
+}
+
+/** POSTs a notification to a webhook, throwing when it doesn't answer with a 2xx in time. */
+export async function post_webhook(url: string, notification: Notification): Promise<void> {
+    const res = await fetch(check_webhook(url), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(notification),
+        signal: AbortSignal.timeout(HOOK_TIMEOUT),
+    });
+    await res.body?.cancel();
+    if (!res.ok) {
+        throw new Error(`The webhook answered with ${res.status}`);
+    }
+}
+
+/** How the system's shell runs `command`: cmd on Windows, sh everywhere else. */
+export function shell_command(command: string, os: typeof Deno.build.os = Deno.build.os): [string, string[]] {
+    return os == "windows" ? ["cmd", ["/c", command]] : ["sh", ["-c", command]];
+}
+
+/**
+ * Runs a shell command with the notification as JSON on its stdin, and its id and type in RUGPLAY_NOTIFICATION_ID and
+ * RUGPLAY_NOTIFICATION_TYPE. Throws when it exits with anything but 0 or takes longer than 10 seconds.
+ */
+export async function run_hook(command: string, notification: Notification): Promise<void> {
+    const [shell, args] = shell_command(command);
+    const child = new Deno.Command(shell, {
+        args,
+        stdin: "piped",
+        stdout: "null",
+        stderr: "piped",
+        env: { RUGPLAY_NOTIFICATION_ID: String(notification.id), RUGPLAY_NOTIFICATION_TYPE: notification.type },
+        signal: AbortSignal.timeout(HOOK_TIMEOUT),
+    }).spawn();
+    const writer = child.stdin.getWriter();
+    try {
+        await writer.write(new TextEncoder().encode(JSON.stringify(notification) + "\n"));
+        await writer.close();
+    } catch {
+        //? The hook doesn't have to read its stdin
+    }
+    const { code, stderr } = await child.output();
+    if (code != 0) {
+        const detail = new TextDecoder().decode(stderr).trim();
+        throw new Error(`The hook exited with ${code}${detail == "" ? "" : `: ${detail}`}`);
+    }
+}
@@ -0,0 +1,215 @@
+import type { RugplayClient } from "./client.ts";
+import { dataPath } from "./config.ts";
+import { AuthExpiredError, TradeRefusedError } from "./errors.ts";
+import { coin_price } from "./market.ts";
+import type { TradeResponse, TradeType } from "./types.ts";
+
+//? limit-buy buys `amount` dollars once the price is at or below `price`, limit-sell sells once it's at or above it.
+//? trailing-stop sells once the price is `percent` below the highest price seen since the order was placed,
+//? take-profit sells once it's `percent` above `basePrice`
+export const ORDER_KINDS = ["limit-buy", "limit-sell", "trailing-stop", "take-profit"] as const;
+export type OrderKind = typeof ORDER_KINDS[number];
+export type OrderStatus = "open" | "filled" | "failed" | "cancelled";
+
+export interface Order {
+    id: number;
+    profile: string;
+    kind: OrderKind;
+    symbol: string;
+    //? Dollars for limit-buy, coins for the sells, where "all" sells whatever is held when it triggers
+    amount: number | "all";
+    price?: number;
+    percent?: number;
+    peak?: number;
+    basePrice?: number;
+    status: OrderStatus;
+    created: string;
+    closed?: string;
+    error?: string;
+}
+
+export type NewOrder = Omit<Order, "id" | "status" | "created" | "profile">;
+
+export type OrderEvent = "created" | "triggered" | "filled" | "refused" | "failed" | "cancelled";
+
+export interface OrderLogEntry {
+    time: string;
+    profile: string;
+    id: number;
+    event: OrderEvent;
+    kind: OrderKind;
+    symbol: string;
+    price?: number;
+    trade?: TradeResponse;
+    error?: string;
+}
+
+export function orders_path(): string {
+    return dataPath("orders.json");
+}
+
+export function order_log_path(): string {
+    return dataPath("orders.log.ndjson");
+}
+
+/** Every order of every profile, a missing file means there are none. */
+export function read_orders(): Order[] {
+    try {
+        return JSON.parse(Deno.readTextFileSync(orders_path())) as Order[];
+    } catch (err) {
+        if (err instanceof Deno.errors.NotFound) {
+            return [];
+        }
+        throw err;
+    }
+}
+
+export function write_orders(orders: Order[]) {
+    Deno.writeTextFileSync(orders_path(), JSON.stringify(orders, null, 2));
+}
+
+//? Re-reads the file before writing, so orders added or cancelled by another process while `watch` was busy aren't lost
+function save_orders(changed: Order[]) {
+    const byId = new Map(changed.map((o) => [o.id, o]));
+    write_orders(read_orders().map((o) => o.status == "open" ? byId.get(o.id) ?? o : o));
+}
+
+export function log_order(order: Order, event: OrderEvent, extra: Partial<OrderLogEntry> = {}) {
+    const entry: OrderLogEntry = { time: new Date().toISOString(), profile: order.profile, id: order.id, event, kind: order.kind, symbol: order.symbol, ...extra };
+    Deno.writeTextFileSync(order_log_path(), JSON.stringify(entry) + "\n", { append: true, create: true });
+}
+
+export function add_order(profile: string, order: NewOrder): Order {
+    const orders = read_orders();
+    const created: Order = {
+        ...order,
+        symbol: order.symbol.toUpperCase(),
+        id: orders.reduce((a, o) => Math.max(a, o.id), 0) + 1,
+        profile,
+        status: "open",
+        created: new Date().toISOString(),
+    };
+    write_orders([...orders, created]);
+    log_order(created, "created", { price: created.price ?? created.peak ?? created.basePrice });
+    return created;
+}
+
+export function cancel_order(profile: string, id: number): Order {
+    const order = read_orders().find((o) => o.id == id && o.profile == profile);
+    if (order == undefined) {
+        throw new Error(`Order #${id} does not exist`);
+    }
+    if (order.status != "open") {
+        throw new Error(`Order #${id} is already ${order.status}`);
+    }
+    order.status = "cancelled";
+    order.closed = new Date().toISOString();
+    save_orders([order]);
+    log_order(order, "cancelled");
+    return order;
+}
+
+/** Whether `order` should go off at `price`. Trailing stops remember the highest price they've seen, so this updates `peak`. */
+export function check_order(order: Order, price: number): boolean {
+    switch (order.kind) {
+        case "limit-buy":
+            return price <= (order.price as number);
+        case "limit-sell":
+            return price >= (order.price as number);
+        case "trailing-stop":
+            order.peak = Math.max(order.peak ?? price, price);
+            return price <= order.peak * (1 - (order.percent as number) / 100);
+        case "take-profit":
+            return price >= (order.basePrice as number) * (1 + (order.percent as number) / 100);
+    }
+}
+
+export interface OrderResult {
+    order: Order;
+    price: number;
+    trade?: TradeResponse;
+    //? The coins sold, for sells of "all" this is what was held when the order went off
+    amount?: number;
+    error?: string;
+    //? The trade was turned down for now, by a spend cap or the slippage limit, and the order stays open
+    refused?: boolean;
+}
+
+export type OrderTrade = (order: Order, type: TradeType, amount: number, price: number) => Promise<TradeResponse>;
+
+/**
+ * Checks every open order of `profile` against the current prices once, trading the ones that went off.
+ * Each trigger, fill and failure is written to the order log, and the orders file is updated.
+ * An order whose trade fails is marked failed rather than retried, so a bad order can't trade over and over.
+ * An expired session is thrown instead, leaving the order open. `trade` makes each trade, given the price that set the
+ * order off, so checks like spend caps and slippage can run first. A TradeRefusedError from it is logged as refused and
+ * leaves the order open to go off again, anything else it throws fails the order. A coin whose price can't be looked up
+ * is passed to `warn` and its orders wait for the next check, the others go on as usual.
+ */
+export async function run_orders(
+    client: RugplayClient,
+    profile: string,
+    trade: OrderTrade = (order, type, amount) => client.trade(order.symbol, type, amount),
+    warn?: (symbol: string, err: unknown) => void,
+): Promise<OrderResult[]> {
+    const open = read_orders().filter((o) => o.profile == profile && o.status == "open");
+    const prices: Record<string, number> = {};
+    for (const symbol of new Set(open.map((o) => o.symbol))) {
+        try {
+            prices[symbol] = await coin_price(client, symbol);
+        } catch (err) {
+            if (err instanceof AuthExpiredError) {
+                throw err;
+            }
+            warn?.(symbol, err);
+        }
+    }
+
+    const results: OrderResult[] = [];
+    for (const order of open) {
+        const price = prices[order.symbol];
+        if (price == undefined || !check_order(order, price)) {
+            continue;
+        }
+        log_order(order, "triggered", { price });
+        const result: OrderResult = { order, price };
+        try {
+            if (order.kind == "limit-buy") {
+                result.amount = order.amount as number;
+                result.trade = await trade(order, "BUY", result.amount, price);
+            } else {
+                result.amount = order.amount == "all"
+                    ? (await client.portfolioTotal()).coinHoldings.find((h) => h.symbol.toUpperCase() == order.symbol)?.quantity ?? 0
+                    : order.amount;
+                if (result.amount <= 0) {
+                    throw new Error(`No ${order.symbol} left to sell`);
+                }
+                result.trade = await trade(order, "SELL", result.amount, price);
+            }
+            order.status = "filled";
+            log_order(order, "filled", { price, trade: result.trade });
+        } catch (err) {
+            //? Not the order's fault, it stays open for when there's a working cookie again
+            if (err instanceof AuthExpiredError) {
+                save_orders(open);
+                throw err;
+            }
+            result.error = err instanceof Error ? err.message : String(err);
+            //? A spent cap or a passing price spike, the order can still fill on a later check
+            if (err instanceof TradeRefusedError) {
+                result.refused = true;
+                log_order(order, "refused", { price, error: result.error });
+                results.push(result);
+                continue;
+            }
+            order.status = "failed";
+            order.error = result.error;
+            log_order(order, "failed", { price, error: result.error });
+        }
+        order.closed = new Date().toISOString();
+        results.push(result);
+    }
+    //? Saved even when nothing went off, trailing stops may have a new peak
+    save_orders(open);
+    return results;
+}
@@ -0,0 +1,150 @@
+import chalk from "chalk";
+
+export const OUTPUT_FORMATS = ["text", "json", "ndjson", "csv", "table"] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/** What a command produced, `text` is the human (chalk) renderer and the default. */
+export interface Rendered {
+    data: unknown;
+    //? What csv, table and ndjson print one line per, defaults to `data` as a single row
+    rows?: object[];
+    text: () => void;
+}
+
+let format: OutputFormat = "text";
+
+//? https://no-color.org
+if (Deno.env.get("NO_COLOR")) {
+    chalk.level = 0;
+}
+const color_level = chalk.level;
+
+export function get_format(): OutputFormat {
+    return format;
+}
+
+export function set_format(f: OutputFormat) {
+    format = f;
+    //? Machine readable output should never contain escape codes
+    chalk.level = f == "text" ? color_level : 0;
+}
+
+export function is_format(f: string): f is OutputFormat {
+    return (OUTPUT_FORMATS as readonly string[]).includes(f);
+}
+
+export function is_text(): boolean {
+    return format == "text";
+}
+
+/**
+ * Pulls the global output flags (`--json`, `--format <fmt>`, `--format=<fmt>`) out of `args`.
+ * Returns the requested format, or undefined if none was given, and throws on an unknown one.
+ */
+export function take_format_flags(args: string[]): OutputFormat | undefined {
+    let found: OutputFormat | undefined;
+    for (let i = 0; i < args.length; i++) {
+        let value: string | undefined;
+        if (args[i] == "--json") {
+            value = "json";
+            args.splice(i--, 1);
+        } else if (args[i] == "--format") {
+            value = args[i+1];
+            args.splice(i--, 2);
+        } else if (args[i].startsWith("--format=")) {
+            value = args[i].slice("--format=".length);
+            args.splice(i--, 1);
+        } else {
+            continue;
+        }
+        if (value == undefined || !is_format(value)) {
+            throw new Error(`Unknown output format "${value}", expected one of ${OUTPUT_FORMATS.join(", ")}`);
+        }
+        found = value;
+    }
+    return found;
+}
+
+//? Nested objects become dotted keys, arrays are kept as JSON so every row stays one line
+function flatten(obj: object, prefix = "", out: Record<string, unknown> = {}): Record<string, unknown> {
+    for (const [k, v] of Object.entries(obj)) {
+        if (v != null && typeof v == "object" && !Array.isArray(v)) {
+            flatten(v, `${prefix}${k}.`, out);
+        } else {
+            out[prefix+k] = Array.isArray(v) ? JSON.stringify(v) : v;
+        }
+    }
+    return out;
+}
+
+function columns(rows: Record<string, unknown>[]): string[] {
+    const cols: string[] = [];
+    for (const row of rows) {
+        for (const k of Object.keys(row)) {
+            if (!cols.includes(k)) {
+                cols.push(k);
+            }
+        }
+    }
+    return cols;
+}
+
+function cell(v: unknown): string {
+    return v == null ? "" : String(v);
+}
+
+function csv_cell(v: unknown): string {
+    const s = cell(v);
+    return /[",\r\n]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s;
+}
+
+export function to_csv(rows: object[]): string {
+    const flat = rows.map((r) => flatten(r));
+    const cols = columns(flat);
+    const lines = [cols.map(csv_cell).join(",")];
+    for (const row of flat) {
+        lines.push(cols.map((c) => csv_cell(row[c])).join(","));
+    }
+    return lines.join("\n");
+}
+
+export function to_table(rows: object[]): string {
+    const flat = rows.map((r) => flatten(r));
+    const cols = columns(flat);
+    const widths = cols.map((c) => Math.max(c.length, ...flat.map((r) => cell(r[c]).length)));
+    const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i])).join(" | ").trimEnd();
+    return [
+        line(cols),
+        widths.map((w) => "-".repeat(w)).join("-+-"),
+        ...flat.map((r) => line(cols.map((c) => cell(r[c])))),
+    ].join("\n");
+}
+
+/** Prints a command's result in the current output format. */
+export function render(r: Rendered) {
+    const rows = r.rows ?? [r.data as object];
+    switch (format) {
+        case "text": {
+            r.text();
+            break;
+        }
+        case "json": {
+            console.log(JSON.stringify(r.data, null, 2));
+            break;
+        }
+        case "ndjson": {
+            for (const row of rows) {
+                console.log(JSON.stringify(row));
+            }
+            break;
+        }
+        case "csv": {
+            console.log(to_csv(rows));
+            break;
+        }
+        case "table": {
+            console.log(to_table(rows));
+            break;
+        }
+    }
+}
@@ -0,0 +1,108 @@
+import * as path from "@std/path";
+import { pathToFileURL } from "node:url";
+import type { Args, CommandSpec } from "./args.ts";
+import type { RugplayClient } from "./client.ts";
+import type { Config } from "./config.ts";
+import type { is_text, render } from "./output.ts";
+
+export interface Command extends CommandSpec {
+    desc: string;
+    callback: (args: Args) => void | Promise<void>;
+    //? Name of the plugin that registered the command, undefined for built-in ones
+    plugin?: string;
+}
+
+/** What a plugin's setup function gets: the shared client, config and output helpers, and `register` to add its commands. */
+export interface PluginContext {
+    //? The same client the built-in commands use, so --profile and the request pipeline apply to plugin commands too
+    client: RugplayClient;
+    config: Config;
+    //? The profile commands currently run as
+    profile: () => string;
+    save_config: () => void;
+    render: typeof render;
+    is_text: typeof is_text;
+    register: (name: string, command: Command) => void;
+}
+
+/**
+ * A plugin is a module whose default export sets it up:
+ * ```ts
+ * export default function (ctx: PluginContext) {
+ *     ctx.register("balance", { desc: "prints your balance", args: [], callback: async () => { ... } });
+ * }
+ * ```
+ */
+export type Plugin = (ctx: PluginContext) => void | Promise<void>;
+
+export interface LoadedPlugin {
+    name: string;
+    file: string;
+    commands: string[];
+    //? Why the plugin couldn't be loaded, its commands aren't registered then
+    error?: string;
+}
+
+const EXTENSIONS = [".ts", ".js", ".mjs"];
+
+/**
+ * Loads every plugin in `dir` (alphabetically, a missing directory means no plugins) and adds their commands to `commands`.
+ * A plugin that fails to import, throws while setting up or registers a command that already exists is skipped as a whole,
+ * with the reason in its `error`, so one broken plugin never keeps the CLI from starting.
+ */
+export async function load_plugins(
+    dir: string,
+    commands: Map<string, Command>,
+    context: Omit<PluginContext, "register">,
+): Promise<LoadedPlugin[]> {
+    let files: string[];
+    try {
+        files = [...Deno.readDirSync(dir)]
+            .filter((e) => e.isFile && EXTENSIONS.includes(path.extname(e.name)))
+            .map((e) => e.name)
+            .sort();
+    } catch (err) {
+        if (err instanceof Deno.errors.NotFound) {
+            return [];
+        }
+        throw err;
+    }
+
+    const loaded: LoadedPlugin[] = [];
+    for (const file of files) {
+        const name = path.basename(file, path.extname(file));
+        const added = new Map<string, Command>();
+        const plugin: LoadedPlugin = { name, file: path.join(dir, file), commands: [] };
+        try {
+            const module = await import(pathToFileURL(plugin.file).href);
+            if (typeof module.default != "function") {
+                throw new Error("it has no default export setting it up");
+            }
+            await (module.default as Plugin)({
+                ...context,
+                register: (command_name, command) => {
+                    if (!/^[a-z0-9][a-z0-9-]*$/.test(command_name)) {
+                        throw new Error(`"${command_name}" isn't a valid command name, use lowercase letters, digits and -`);
+                    }
+                    if (commands.has(command_name) || added.has(command_name)) {
+                        throw new Error(`the command "${command_name}" already exists`);
+                    }
+                    if (typeof command?.callback != "function" || !Array.isArray(command.args)) {
+                        throw new Error(`the command "${command_name}" needs a callback and args`);
+                    }
+                    added.set(command_name, { ...command, plugin: name });
+                },
+            });
+        } catch (err) {
+            plugin.error = err instanceof Error ? err.message : String(err);
+            loaded.push(plugin);
+            continue;
+        }
+        for (const [command_name, command] of added) {
+            commands.set(command_name, command);
+        }
+        plugin.commands = [...added.keys()];
+        loaded.push(plugin);
+    }
+    return loaded;
+}
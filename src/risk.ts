@@ -0,0 +1,136 @@
+import type { RugplayClient } from "./client.ts";
+import type { CoinDetails, HoldersResponse, UserResponse } from "./types.ts";
+
+export type RiskLevel = "low" | "medium" | "high" | "extreme";
+
+export interface RiskFactor {
+    name: string;
+    //? 0 is safe, 100 is as bad as it gets
+    score: number;
+    weight: number;
+    detail: string;
+}
+
+export interface RiskReport {
+    symbol: string;
+    score: number;
+    level: RiskLevel;
+    factors: RiskFactor[];
+}
+
+//? What `buy-coin` and `invest` do with coins scoring at or above `threshold`
+export const RISK_ACTIONS = ["off", "warn", "refuse"] as const;
+export type RiskAction = typeof RISK_ACTIONS[number];
+
+export interface RiskSettings {
+    threshold: number;
+    action: RiskAction;
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = { threshold: 70, action: "warn" };
+
+export interface RiskInput {
+    coin: CoinDetails;
+    holders: HoldersResponse;
+    //? Undefined when the creator's profile couldn't be loaded
+    creator?: UserResponse;
+    now?: number;
+}
+
+function clamp(n: number): number {
+    return Math.round(Math.max(0, Math.min(100, n)));
+}
+
+//? 0 at `good` and 100 at `bad`, on a log scale so every tenfold step counts the same
+function log_scale(value: number, good: number, bad: number): number {
+    if (value <= 0) {
+        return 100;
+    }
+    return clamp((Math.log10(value) - Math.log10(good)) / (Math.log10(bad) - Math.log10(good)) * 100);
+}
+
+function pct(n: number): string {
+    return `${Math.round(n * 100) / 100}%`;
+}
+
+export function risk_level(score: number): RiskLevel {
+    return score < 25 ? "low" : score < 50 ? "medium" : score < 75 ? "high" : "extreme";
+}
+
+/**
+ * Scores how likely a coin is to get rugged, from 0 (safe) to 100, as a weighted average of:
+ * how much of the supply the creator holds, how concentrated the top holders are, how deep the pool is compared
+ * to the market cap, how new the coin is, and whether the creator makes lots of coins or sells the ones they made.
+ */
+export function score_risk({ coin, holders, creator, now = Date.now() }: RiskInput): RiskReport {
+    const factors: RiskFactor[] = [];
+
+    const creator_holding = holders.holders.find((h) => h.userId == coin.creatorId || (coin.creatorUsername != undefined && h.username == coin.creatorUsername));
+    const creator_share = creator_holding?.percentage ?? 0;
+    factors.push({
+        name: "creator share",
+        //? A creator holding 40% of the supply can take most of the pool with one sell
+        score: clamp(creator_share * 2.5),
+        weight: 30,
+        detail: creator_holding == undefined ? "the creator isn't among the top holders" : `the creator holds ${pct(creator_share)} of the supply`,
+    });
+
+    const top = holders.holders.slice(0, 5).reduce((a, h) => a + h.percentage, 0);
+    factors.push({
+        name: "holder concentration",
+        score: clamp((top - 20) * 1.25),
+        weight: 20,
+        detail: `the top ${Math.min(5, holders.holders.length)} holders own ${pct(top)} of the supply (${holders.totalHolders} holders in total)`,
+    });
+
+    const liquidity = coin.marketCap == 0 ? 0 : coin.poolBaseCurrencyAmount / coin.marketCap;
+    factors.push({
+        name: "liquidity",
+        score: log_scale(liquidity, 0.1, 0.0001),
+        weight: 20,
+        detail: `the pool holds $${Math.round(coin.poolBaseCurrencyAmount)}, ${pct(liquidity * 100)} of the market cap`,
+    });
+
+    const created = coin.createdAt == undefined ? undefined : Date.parse(coin.createdAt);
+    const hours = created == undefined || Number.isNaN(created) ? undefined : Math.max(0, (now - created) / 3_600_000);
+    factors.push({
+        name: "age",
+        //? Under an hour old is the riskiest, a week old or more doesn't count against it
+        score: hours == undefined ? 50 : hours < 1 ? 100 : clamp(100 - Math.log10(hours) / Math.log10(168) * 100),
+        weight: 15,
+        detail: hours == undefined ? "unknown age" : hours < 48 ? `${Math.round(hours * 10) / 10} hours old` : `${Math.round(hours / 24)} days old`,
+    });
+
+    if (creator == undefined) {
+        factors.push({ name: "creator history", score: 50, weight: 15, detail: "the creator's profile couldn't be loaded" });
+    } else {
+        const made = new Set(creator.createdCoins.map((c) => c.symbol));
+        const dumps = creator.recentTransactions.filter((t) => t.type == "SELL" && made.has(t.coinSymbol));
+        const serial = Math.max(0, creator.stats.coinsCreated - 1);
+        factors.push({
+            name: "creator history",
+            score: clamp(serial * 15 + dumps.length * 40),
+            weight: 15,
+            detail: `@${creator.profile.username} created ${creator.stats.coinsCreated} coins and recently sold their own coins ${dumps.length} times`,
+        });
+    }
+
+    const weights = factors.reduce((a, f) => a + f.weight, 0);
+    const score = Math.round(factors.reduce((a, f) => a + f.score * f.weight, 0) / weights);
+    return { symbol: coin.symbol, score, level: risk_level(score), factors };
+}
+
+/** Fetches what score_risk needs for a coin and scores it. */
+export async function assess_risk(client: RugplayClient, symbol: string): Promise<RiskReport> {
+    const { coin } = await client.coin(symbol);
+    const holders = await client.holders(symbol, 10);
+    let creator: UserResponse | undefined;
+    if (coin.creatorUsername != undefined) {
+        try {
+            creator = await client.user(coin.creatorUsername);
+        } catch {
+            creator = undefined;
+        }
+    }
+    return score_risk({ coin, holders, creator });
+}
@@ -0,0 +1,108 @@
+import type { JournalEntry } from "./journal.ts";
+import type { TradeResponse, TradeType } from "./types.ts";
+
+//? Dollar amounts, null turns a check off
+export interface SafetySettings {
+    //? Trades and bets worth more than this ask for confirmation, or need --yes when there's no terminal
+    confirmAbove: number | null;
+    //? How many percent worse than quoted a trade may execute
+    maxSlippage: number | null;
+    //? Most a single run of a command may spend on buys and bets, by command name
+    commandCaps: Record<string, number>;
+    //? Most spent on buys and bets in 24 hours, across every command
+    dailyCap: number | null;
+}
+
+export const DEFAULT_SAFETY_SETTINGS: SafetySettings = { confirmAbove: 100, maxSlippage: 5, commandCaps: {}, dailyCap: null };
+
+//? Every command that spends money, the ones per-command caps can be set for
+export const SPENDING_COMMANDS = ["buy-coin", "invest", "rebalance", "watch", "coinflip", "slots", "gamble-session"] as const;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** What a trade should get, estimated from the coin's liquidity pool. */
+export interface TradeQuote {
+    symbol: string;
+    type: TradeType;
+    //? Dollars to spend on a BUY, coins to sell on a SELL, as passed to the API
+    amount: number;
+    price: number;
+    //? Coins bought or sold
+    coins: number;
+    //? Dollars spent or received
+    value: number;
+    avgPrice: number;
+    newPrice: number;
+    //? How far the trade moves the price, in percent
+    priceImpact: number;
+}
+
+/**
+ * Quotes a trade against a constant product pool (coins * dollars stays the same), which is how Rugplay prices trades.
+ * Buying `amount` dollars takes coins out of the pool, selling `amount` coins takes dollars out.
+ */
+export function quote_trade(pool: { symbol: string; poolCoinAmount: number; poolBaseCurrencyAmount: number }, type: TradeType, amount: number): TradeQuote {
+    const k = pool.poolCoinAmount * pool.poolBaseCurrencyAmount;
+    const price = pool.poolBaseCurrencyAmount / pool.poolCoinAmount;
+    let coins: number, value: number, newPrice: number;
+    if (type == "BUY") {
+        value = amount;
+        coins = pool.poolCoinAmount - k / (pool.poolBaseCurrencyAmount + amount);
+        newPrice = (pool.poolBaseCurrencyAmount + amount) / (pool.poolCoinAmount - coins);
+    } else {
+        coins = amount;
+        value = pool.poolBaseCurrencyAmount - k / (pool.poolCoinAmount + amount);
+        newPrice = (pool.poolBaseCurrencyAmount - value) / (pool.poolCoinAmount + coins);
+    }
+    return {
+        symbol: pool.symbol.toUpperCase(),
+        type,
+        amount,
+        price,
+        coins,
+        value,
+        avgPrice: coins > 0 ? value / coins : price,
+        newPrice,
+        priceImpact: (newPrice - price) / price * 100,
+    };
+}
+
+/** How many percent worse than `quote` an average price is, negative when it's better. */
+export function slippage(quote: TradeQuote, avgPrice: number): number {
+    const worse = quote.type == "BUY" ? avgPrice - quote.avgPrice : quote.avgPrice - avgPrice;
+    return worse / quote.avgPrice * 100;
+}
+
+/** The average price a trade actually got, undefined when Rugplay didn't say. */
+export function executed_price(result: TradeResponse): number | undefined {
+    if (result.type == "BUY") {
+        return result.totalCost != undefined && result.coinsBought ? result.totalCost / result.coinsBought : undefined;
+    }
+    return result.totalReceived != undefined && result.coinsSold ? result.totalReceived / result.coinsSold : undefined;
+}
+
+/** Dollars a profile spent on buys and bets in the 24 hours before `now`, from its journal. */
+export function spent_today(journal: JournalEntry[], profile: string, now = Date.now()): number {
+    return journal
+        .filter((e) => e.profile == profile && e.action != "SELL" && now - Date.parse(e.time) < DAY)
+        .reduce((sum, e) => sum + (e.action == "BUY" ? e.value : e.amount), 0);
+}
+
+/**
+ * Why spending `dollars` more would break a cap, undefined when it wouldn't. `command` is what `source` already spent
+ * in this run, `today` what was spent in the last 24 hours.
+ */
+export function check_spend(settings: SafetySettings, source: string, dollars: number, command: number, today: number): string | undefined {
+    const cap = settings.commandCaps[source];
+    if (cap != undefined && command + dollars > cap) {
+        return `${source} may spend $${cap} at a time and this would make it $${round(command + dollars)}`;
+    }
+    if (settings.dailyCap != null && today + dollars > settings.dailyCap) {
+        return `you've spent $${round(today)} in the last 24 hours and your daily cap is $${settings.dailyCap}`;
+    }
+    return undefined;
+}
+
+function round(n: number): number {
+    return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,323 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import type { ArgSpec } from "./args.ts";
+import { dataPath } from "./config.ts";
+
+/** What running a command for a request gave: its parsed --json output, and whatever it printed to stderr. */
+export interface CommandRun {
+    ok: boolean;
+    result: unknown;
+    warnings: string[];
+}
+
+export interface ServedCommand {
+    name: string;
+    desc: string;
+    usage: string;
+    args: ArgSpec[];
+    options: ArgSpec[];
+}
+
+export interface ServeLogEntry {
+    time: string;
+    profile: string;
+    method: string;
+    path: string;
+    //? The command a request ran, with the arguments it was given
+    command?: string;
+    args?: string[];
+    status: number;
+    ok: boolean;
+    ms: number;
+    error?: string;
+}
+
+export interface ServeOptions {
+    hostname: string;
+    port: number;
+    token: string;
+    commands: ServedCommand[];
+    //? Only ever called for one of `commands`, and never while another call is still running
+    run: (name: string, args: string[]) => Promise<CommandRun>;
+    log: (entry: Omit<ServeLogEntry, "time" | "profile">) => void;
+    //? Shuts the server down after answering this many requests
+    maxRequests?: number;
+}
+
+export interface ApiServer {
+    url: string;
+    finished: Promise<void>;
+    shutdown: () => Promise<void>;
+}
+
+//? https://www.jsonrpc.org/specification#error_object
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const COMMAND_FAILED = -32000;
+
+export function new_token(): string {
+    return randomBytes(32).toString("base64url");
+}
+
+export function is_loopback(hostname: string): boolean {
+    return hostname == "localhost" || hostname == "::1" || /^127\.\d+\.\d+\.\d+$/.test(hostname);
+}
+
+/** Whether an Authorization header holds the bearer token, compared in constant time. */
+export function check_token(header: string | null, token: string): boolean {
+    const given = new TextEncoder().encode(header?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() ?? "");
+    const expected = new TextEncoder().encode(token);
+    return given.length == expected.length && timingSafeEqual(given, expected);
+}
+
+//? Options no request may pass, whichever command takes them: --profile would reach other accounts, --exec and --webhook
+//? run or call out to whatever they're given and --follow never finishes, holding up every request after it
+export const UNSERVED_OPTIONS = ["profile", "exec", "webhook", "follow"];
+
+/**
+ * Turns request params into command line arguments. Params are either the arguments themselves, `["BTCR", 10]`, or
+ * `{ "args": [...], "options": { "yes": true, "limit": 5 } }`, where `true` is a flag and `false` leaves it out.
+ * With `command`, every `--option` has to be one of its own options and not in UNSERVED_OPTIONS, which also keeps out
+ * the ones every command takes (--json, --format, --profile).
+ */
+export function to_argv(params: unknown, command?: ServedCommand): string[] {
+    const argv = params_to_argv(params);
+    if (command != undefined) {
+        for (const token of argv) {
+            if (!token.startsWith("--") || token == "--") {
+                continue;
+            }
+            const name = token.slice(2).split("=")[0];
+            if (UNSERVED_OPTIONS.includes(name) || !command.options.some((o) => o.name == name)) {
+                throw new Error(`${command.name} can't be given --${name} here`);
+            }
+        }
+    }
+    return argv;
+}
+
+function params_to_argv(params: unknown): string[] {
+    if (params == undefined) {
+        return [];
+    }
+    const scalar = (v: unknown, what: string): string => {
+        if (typeof v == "string" || typeof v == "number") {
+            return String(v);
+        }
+        throw new Error(`${what} has to be a string or a number`);
+    };
+    if (Array.isArray(params)) {
+        return params.map((v, i) => scalar(v, `Argument ${i + 1}`));
+    }
+    if (typeof params != "object") {
+        throw new Error("Params have to be an array of arguments or an object with args and options");
+    }
+    const { args = [], options = {}, ...rest } = params as Record<string, unknown>;
+    if (Object.keys(rest).length > 0) {
+        throw new Error(`Unknown param ${Object.keys(rest)[0]}, expected args and options`);
+    }
+    if (!Array.isArray(args)) {
+        throw new Error("args has to be an array");
+    }
+    if (options == null || typeof options != "object" || Array.isArray(options)) {
+        throw new Error("options has to be an object");
+    }
+    const argv = args.map((v, i) => scalar(v, `Argument ${i + 1}`));
+    for (const [name, value] of Object.entries(options)) {
+        if (value === true) {
+            argv.push(`--${name}`);
+        } else if (value !== false) {
+            argv.push(`--${name}`, scalar(value, `Option ${name}`));
+        }
+    }
+    return argv;
+}
+
+/** Parses what a command printed with --json: one document, one per line, or plain text when it isn't JSON at all. */
+export function parse_output(lines: string[]): unknown {
+    const text = lines.join("\n").trim();
+    if (text == "") {
+        return null;
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        // more than one document
+    }
+    try {
+        return lines.filter((l) => l.trim() != "").map((l) => JSON.parse(l));
+    } catch {
+        return text;
+    }
+}
+
+export function serve_log_path(): string {
+    return dataPath("serve.log.ndjson");
+}
+
+export function log_serve(entry: Omit<ServeLogEntry, "time">): ServeLogEntry {
+    const line: ServeLogEntry = { time: new Date().toISOString(), ...entry };
+    Deno.writeTextFileSync(serve_log_path(), JSON.stringify(line) + "\n", { append: true, create: true });
+    return line;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+}
+
+//? What a failed command printed with --json, see render_error in main.ts
+function error_of(run: CommandRun): { error?: string; message?: string } {
+    return run.result != null && typeof run.result == "object" && !Array.isArray(run.result) ? run.result : {};
+}
+
+/**
+ * Serves commands over HTTP, every request needing `Authorization: Bearer <token>`:
+ * - `GET /commands` lists them
+ * - `POST /commands/<name>` runs one, with `{ "args": [...], "options": {...} }` as the body (see to_argv)
+ * - `POST /rpc` takes JSON-RPC 2.0 requests, the method being the command and the params its arguments
+ *
+ * Commands share the CLI's state (profile, output format, console), so they run one at a time in the order they came in.
+ */
+export function start_api_server(opts: ServeOptions): ApiServer {
+    const served = new Map(opts.commands.map((c) => [c.name, c]));
+    let queue: Promise<unknown> = Promise.resolve();
+    let handled = 0;
+
+    const run = (name: string, args: string[]): Promise<CommandRun> => {
+        const next = queue.then(() => opts.run(name, args));
+        queue = next.catch(() => {});
+        return next;
+    };
+
+    //? A JSON-RPC call's response, undefined for notifications (calls without an id)
+    const rpc = async (call: unknown, entry: Partial<ServeLogEntry>): Promise<object | undefined> => {
+        const request = call as { jsonrpc?: unknown; method?: unknown; params?: unknown; id?: unknown };
+        const id = request?.id ?? null;
+        const answer = (body: object) => request?.id === undefined ? undefined : { jsonrpc: "2.0", id, ...body };
+        entry.ok = false;
+        if (request == null || typeof request != "object" || request.jsonrpc != "2.0" || typeof request.method != "string") {
+            return { jsonrpc: "2.0", id, error: { code: INVALID_REQUEST, message: "Invalid request" } };
+        }
+        entry.command = request.method;
+        if (!served.has(request.method)) {
+            return answer({ error: { code: METHOD_NOT_FOUND, message: `There's no command "${request.method}"` } });
+        }
+        let args: string[];
+        try {
+            args = to_argv(request.params, served.get(request.method));
+        } catch (err) {
+            return answer({ error: { code: INVALID_PARAMS, message: (err as Error).message } });
+        }
+        entry.args = args;
+        const result = await run(request.method, args);
+        entry.ok = result.ok;
+        if (result.ok) {
+            return answer({ result: result.result });
+        }
+        const error = error_of(result);
+        entry.error = error.message;
+        return answer({
+            error: {
+                code: error.error == "UsageError" ? INVALID_PARAMS : COMMAND_FAILED,
+                message: error.message ?? "The command failed",
+                data: { ...error, warnings: result.warnings },
+            },
+        });
+    };
+
+    const handle = async (req: Request, entry: Partial<ServeLogEntry>): Promise<Response> => {
+        if (!check_token(req.headers.get("Authorization"), opts.token)) {
+            return json({ error: "Unauthorized", message: "Send the serve token as Authorization: Bearer <token>" }, 401, { "WWW-Authenticate": "Bearer" });
+        }
+        const path = new URL(req.url).pathname.replace(/\/+$/, "");
+        if (path == "/commands") {
+            return req.method == "GET" ? json(opts.commands) : json({ error: "Method not allowed" }, 405, { Allow: "GET" });
+        }
+        let body: unknown;
+        if (path == "/rpc" || path.startsWith("/commands/")) {
+            if (req.method != "POST") {
+                return json({ error: "Method not allowed" }, 405, { Allow: "POST" });
+            }
+            const text = await req.text();
+            try {
+                body = text.trim() == "" ? undefined : JSON.parse(text);
+            } catch {
+                return path == "/rpc"
+                    ? json({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } })
+                    : json({ error: "Bad request", message: "The body isn't JSON" }, 400);
+            }
+        }
+        if (path == "/rpc") {
+            //? A batch answers with every call that wasn't a notification, or nothing at all
+            if (Array.isArray(body)) {
+                if (body.length == 0) {
+                    return json({ jsonrpc: "2.0", id: null, error: { code: INVALID_REQUEST, message: "Invalid request" } });
+                }
+                const answers = [];
+                const entries: Partial<ServeLogEntry>[] = [];
+                for (const call of body) {
+                    const call_entry: Partial<ServeLogEntry> = {};
+                    answers.push(await rpc(call, call_entry));
+                    entries.push(call_entry);
+                }
+                entry.command = entries.map((e) => e.command ?? "?").join(",");
+                entry.ok = entries.every((e) => e.ok);
+                const sent = answers.filter((a) => a != undefined);
+                return sent.length == 0 ? new Response(null, { status: 204 }) : json(sent);
+            }
+            const answer = await rpc(body, entry);
+            return answer == undefined ? new Response(null, { status: 204 }) : json(answer);
+        }
+        if (path.startsWith("/commands/")) {
+            const name = decodeURIComponent(path.slice("/commands/".length));
+            entry.command = name;
+            if (!served.has(name)) {
+                return json({ error: "Not found", message: `There's no command "${name}"` }, 404);
+            }
+            let args: string[];
+            try {
+                args = to_argv(body, served.get(name));
+            } catch (err) {
+                return json({ error: "Bad request", message: (err as Error).message }, 400);
+            }
+            entry.args = args;
+            const result = await run(name, args);
+            if (!result.ok) {
+                entry.error = error_of(result).message;
+            }
+            return json(result, result.ok ? 200 : error_of(result).error == "UsageError" ? 400 : 422);
+        }
+        return json({ error: "Not found", message: "Use GET /commands, POST /commands/<name> or POST /rpc" }, 404);
+    };
+
+    const server = Deno.serve({ hostname: opts.hostname, port: opts.port, onListen: () => {} }, async (req) => {
+        const start = performance.now();
+        const entry: Partial<ServeLogEntry> = {};
+        let res: Response;
+        try {
+            res = await handle(req, entry);
+        } catch (err) {
+            entry.error = err instanceof Error ? err.message : String(err);
+            res = json({ error: "Internal error", message: entry.error }, 500);
+        }
+        opts.log({
+            method: req.method,
+            path: new URL(req.url).pathname,
+            ...entry,
+            status: res.status,
+            ok: entry.ok ?? res.ok,
+            ms: Math.round(performance.now() - start),
+        });
+        if (opts.maxRequests != undefined && ++handled >= opts.maxRequests) {
+            setTimeout(() => server.shutdown(), 0);
+        }
+        return res;
+    });
+    const host = server.addr.hostname.includes(":") ? `[${server.addr.hostname}]` : server.addr.hostname;
+    return {
+        url: `http://${host}:${server.addr.port}`,
+        finished: server.finished,
+        shutdown: () => server.shutdown(),
+    };
+}
@@ -0,0 +1,216 @@
+import type { RugplayClient } from "./client.ts";
+import { dataPath } from "./config.ts";
+import type { PortfolioTotal, Transaction } from "./types.ts";
+
+export interface SnapshotHolding {
+    symbol: string;
+    quantity: number;
+    price: number;
+    value: number;
+}
+
+/** A portfolio at one point in time, as saved by `snapshot`. */
+export interface Snapshot {
+    time: string;
+    profile: string;
+    cash: number;
+    coinValue: number;
+    totalValue: number;
+    //? Dollars transferred in minus out since the profile's previous snapshot, so they don't count as gains or losses
+    flows: number;
+    //? Id of the newest transaction, the next snapshot counts the transfers after it. 0 when there were none yet
+    lastTransaction: number;
+    holdings: SnapshotHolding[];
+}
+
+export interface HoldingPerformance {
+    symbol: string;
+    //? Prices from the first and last snapshot in the range holding the coin
+    startPrice: number;
+    endPrice: number;
+    //? How much the price changed, 0.1 is +10%
+    return: number;
+    //? Values at the start and end of the range, 0 when it wasn't held then
+    startValue: number;
+    endValue: number;
+}
+
+export interface Drift {
+    //? A coin's symbol, or CASH
+    symbol: string;
+    startWeight: number;
+    endWeight: number;
+    //? endWeight - startWeight
+    drift: number;
+}
+
+export interface Performance {
+    from: string;
+    to: string;
+    snapshots: number;
+    startValue: number;
+    endValue: number;
+    netFlows: number;
+    //? What the portfolio gained or lost, leaving out transfers
+    profit: number;
+    //? Time-weighted return, 0.1 is +10%. Transfers don't affect it, only how the money that was there did
+    timeWeightedReturn: number;
+    //? The biggest fall from a peak of the time-weighted value, 0.2 is -20%
+    maxDrawdown: number;
+    drawdownPeak?: string;
+    drawdownTrough?: string;
+    //? Best first
+    holdings: HoldingPerformance[];
+    //? Biggest drift first
+    drift: Drift[];
+    //? Half the summed drift, the share of the portfolio that moved between assets
+    totalDrift: number;
+    curve: { time: string; value: number; index: number }[];
+}
+
+export function snapshots_path(): string {
+    return dataPath("snapshots.ndjson");
+}
+
+export function append_snapshot(snapshot: Snapshot) {
+    Deno.writeTextFileSync(snapshots_path(), JSON.stringify(snapshot) + "\n", { append: true, create: true });
+}
+
+/** Reads the snapshots, oldest first, optionally only one profile's. A missing file means none were taken yet. */
+export function read_snapshots(profile?: string): Snapshot[] {
+    let text: string;
+    try {
+        text = Deno.readTextFileSync(snapshots_path());
+    } catch (err) {
+        if (err instanceof Deno.errors.NotFound) {
+            return [];
+        }
+        throw err;
+    }
+    return text.split("\n")
+        .filter((l) => l.trim() != "")
+        .map((l) => JSON.parse(l) as Snapshot)
+        .filter((s) => profile == undefined || s.profile == profile);
+}
+
+/** Dollars transferred in minus out by transactions newer than `after` (an id), coins counting at the price they were sent at. */
+export function transfer_flows(transactions: Transaction[], after: number): number {
+    return transactions
+        .filter((t) => (t.type == "TRANSFER_IN" || t.type == "TRANSFER_OUT") && t.id > after)
+        .reduce((sum, t) => sum + (t.type == "TRANSFER_IN" ? 1 : -1) * t.totalBaseCurrencyAmount, 0);
+}
+
+/**
+ * Fetches transactions newest first until one has an id of `after` or lower, which is all transfer_flows needs.
+ * Without `after` only the newest one is fetched, for the first snapshot.
+ */
+export async function transactions_since(client: RugplayClient, after?: number, pageSize = 100): Promise<Transaction[]> {
+    if (after == undefined) {
+        return (await client.transactions(1, 1)).transactions;
+    }
+    const all: Transaction[] = [];
+    for (let page = 1; ; page++) {
+        const res = await client.transactions(page, pageSize);
+        all.push(...res.transactions);
+        const oldest = res.transactions.at(-1);
+        if (oldest == undefined || oldest.id <= after || res.transactions.length < pageSize) {
+            return all;
+        }
+    }
+}
+
+/** A snapshot of `portfolio`, `transactions` being what transactions_since fetched after the `previous` snapshot. */
+export function take_snapshot(portfolio: PortfolioTotal, profile: string, transactions: Transaction[], previous?: Snapshot, time = new Date()): Snapshot {
+    //? Only the first snapshot has nothing to count from, a previous one from before any transaction counts from 0
+    const after = previous == undefined ? undefined : previous.lastTransaction;
+    return {
+        time: time.toISOString(),
+        profile,
+        cash: portfolio.baseCurrencyBalance,
+        coinValue: portfolio.totalCoinValue,
+        totalValue: portfolio.totalValue,
+        flows: after == undefined ? 0 : transfer_flows(transactions, after),
+        lastTransaction: Math.max(after ?? 0, ...transactions.map((t) => t.id)),
+        holdings: portfolio.coinHoldings.map((h) => ({ symbol: h.symbol.toUpperCase(), quantity: h.quantity, price: h.currentPrice, value: h.value })),
+    };
+}
+
+function weights(s: Snapshot): Map<string, number> {
+    const total = s.totalValue > 0 ? s.totalValue : 1;
+    const out = new Map<string, number>([["CASH", s.cash / total]]);
+    for (const h of s.holdings) {
+        out.set(h.symbol, (out.get(h.symbol) ?? 0) + h.value / total);
+    }
+    return out;
+}
+
+/**
+ * Works out how a profile's portfolio did over `snapshots`, oldest first. The flows of the first snapshot happened
+ * before the range and are left out. Each period's return is (value - flows) / previous value, flows counting as if
+ * they came in at the end of it.
+ */
+export function compute_performance(snapshots: Snapshot[]): Performance {
+    if (snapshots.length < 2) {
+        throw new Error("Performance needs at least two snapshots");
+    }
+    const first = snapshots[0], last = snapshots[snapshots.length - 1];
+
+    let index = 1, peak = 1, peak_time = first.time, max_drawdown = 0;
+    let drawdown_peak: string | undefined, drawdown_trough: string | undefined;
+    const curve = [{ time: first.time, value: first.totalValue, index }];
+    for (let i = 1; i < snapshots.length; i++) {
+        const previous = snapshots[i - 1].totalValue, s = snapshots[i];
+        //? Nothing was there to gain or lose, e.g. before the first deposit
+        if (previous > 0) {
+            index *= (s.totalValue - s.flows) / previous;
+        }
+        curve.push({ time: s.time, value: s.totalValue, index });
+        if (index > peak) {
+            peak = index;
+            peak_time = s.time;
+        } else if (peak > 0 && (peak - index) / peak > max_drawdown) {
+            max_drawdown = (peak - index) / peak;
+            drawdown_peak = peak_time;
+            drawdown_trough = s.time;
+        }
+    }
+
+    const symbols = new Set(snapshots.flatMap((s) => s.holdings.map((h) => h.symbol)));
+    const holdings: HoldingPerformance[] = [...symbols].map((symbol) => {
+        const held = snapshots.map((s) => s.holdings.find((h) => h.symbol == symbol)).filter((h) => h != undefined);
+        const start = held[0], end = held[held.length - 1];
+        return {
+            symbol,
+            startPrice: start.price,
+            endPrice: end.price,
+            return: start.price > 0 ? end.price / start.price - 1 : 0,
+            startValue: first.holdings.find((h) => h.symbol == symbol)?.value ?? 0,
+            endValue: last.holdings.find((h) => h.symbol == symbol)?.value ?? 0,
+        };
+    }).sort((a, b) => b.return - a.return);
+
+    const start_weights = weights(first), end_weights = weights(last);
+    const drift: Drift[] = [...new Set([...start_weights.keys(), ...end_weights.keys()])].map((symbol) => {
+        const startWeight = start_weights.get(symbol) ?? 0, endWeight = end_weights.get(symbol) ?? 0;
+        return { symbol, startWeight, endWeight, drift: endWeight - startWeight };
+    }).sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+
+    const net_flows = snapshots.slice(1).reduce((sum, s) => sum + s.flows, 0);
+    return {
+        from: first.time,
+        to: last.time,
+        snapshots: snapshots.length,
+        startValue: first.totalValue,
+        endValue: last.totalValue,
+        netFlows: net_flows,
+        profit: last.totalValue - first.totalValue - net_flows,
+        timeWeightedReturn: index - 1,
+        maxDrawdown: max_drawdown,
+        drawdownPeak: drawdown_peak,
+        drawdownTrough: drawdown_trough,
+        holdings,
+        drift,
+        totalDrift: drift.reduce((sum, d) => sum + Math.abs(d.drift), 0) / 2,
+        curve,
+    };
+}
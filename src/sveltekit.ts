@@ -0,0 +1,204 @@
+import { UnexpectedResponseError } from "./errors.ts";
+import type { CurrentUser, SvelteDataResponse } from "./types.ts";
+
+//? devalue's stand-ins for values JSON can't hold, used where an index would go
+const UNDEFINED = -1;
+const HOLE = -2;
+const NAN = -3;
+const POSITIVE_INFINITY = -4;
+const NEGATIVE_INFINITY = -5;
+const NEGATIVE_ZERO = -6;
+
+/**
+ * Decodes devalue's flattened format, which SvelteKit uses for `__data.json`. Every value lives in one array,
+ * objects and arrays refer to their members by index, and the root is at index 0. Values JSON can't hold
+ * (Date, Map, Set, BigInt, ...) are arrays starting with their type's name. Repeated and circular references are kept.
+ */
+export function unflatten(values: unknown): unknown {
+    if (typeof values == "number") {
+        return special(values);
+    }
+    if (!Array.isArray(values) || values.length == 0) {
+        throw new UnexpectedResponseError("devalue data has to be a non-empty array");
+    }
+    const hydrated = new Map<number, unknown>();
+
+    const hydrate = (index: number): unknown => {
+        if (index < 0) {
+            return special(index);
+        }
+        if (hydrated.has(index)) {
+            return hydrated.get(index);
+        }
+        if (!Number.isInteger(index) || index >= values.length) {
+            throw new UnexpectedResponseError(`devalue index ${index} is out of range`);
+        }
+        const value = values[index];
+        if (value == null || typeof value != "object") {
+            hydrated.set(index, value);
+            return value;
+        }
+        if (!Array.isArray(value)) {
+            const object: Record<string, unknown> = {};
+            hydrated.set(index, object);
+            for (const [key, child] of Object.entries(value)) {
+                object[key] = hydrate(child as number);
+            }
+            return object;
+        }
+        if (typeof value[0] != "string") {
+            const array: unknown[] = new Array(value.length);
+            hydrated.set(index, array);
+            value.forEach((child, i) => {
+                if (child != HOLE) {
+                    array[i] = hydrate(child);
+                }
+            });
+            return array;
+        }
+        switch (value[0]) {
+            case "Date": {
+                hydrated.set(index, new Date(value[1]));
+                break;
+            }
+            case "Set": {
+                const set = new Set<unknown>();
+                hydrated.set(index, set);
+                for (let i = 1; i < value.length; i++) {
+                    set.add(hydrate(value[i]));
+                }
+                break;
+            }
+            case "Map": {
+                const map = new Map<unknown, unknown>();
+                hydrated.set(index, map);
+                for (let i = 1; i < value.length; i += 2) {
+                    map.set(hydrate(value[i]), hydrate(value[i+1]));
+                }
+                break;
+            }
+            case "RegExp": {
+                hydrated.set(index, new RegExp(value[1], value[2]));
+                break;
+            }
+            case "Object": {
+                hydrated.set(index, Object(value[1]));
+                break;
+            }
+            case "BigInt": {
+                hydrated.set(index, BigInt(value[1]));
+                break;
+            }
+            case "null": {
+                const object: Record<string, unknown> = Object.create(null);
+                hydrated.set(index, object);
+                for (let i = 1; i < value.length; i += 2) {
+                    object[value[i]] = hydrate(value[i+1]);
+                }
+                break;
+            }
+            default:
+                throw new UnexpectedResponseError(`Unknown devalue type "${value[0]}"`);
+        }
+        return hydrated.get(index);
+    };
+
+    return hydrate(0);
+}
+
+function special(index: number): unknown {
+    switch (index) {
+        case UNDEFINED:
+            return undefined;
+        case NAN:
+            return NaN;
+        case POSITIVE_INFINITY:
+            return Infinity;
+        case NEGATIVE_INFINITY:
+            return -Infinity;
+        case NEGATIVE_ZERO:
+            return -0;
+        default:
+            throw new UnexpectedResponseError(`Unknown devalue constant ${index}`);
+    }
+}
+
+/** The decoded data of every node (layouts first, then the page) in a `__data.json` response, undefined for nodes SvelteKit skipped. */
+export function page_data(res: SvelteDataResponse): (Record<string, unknown> | undefined)[] {
+    if (res?.type != "data" || !Array.isArray(res.nodes)) {
+        throw new UnexpectedResponseError(`Expected SvelteKit page data, got a response of type "${res?.type}"`);
+    }
+    return res.nodes.map((node) => {
+        if (node == null || node.type == "skip") {
+            return undefined;
+        }
+        if (node.type != "data") {
+            throw new UnexpectedResponseError(`SvelteKit sent a page node of type "${node.type}"`);
+        }
+        const data = unflatten(node.data);
+        return data != null && typeof data == "object" ? data as Record<string, unknown> : undefined;
+    });
+}
+
+/**
+ * Finds the logged in user in `__data.json`, which Rugplay's root layout sends as `userSession`.
+ * Returns null when the session isn't logged in, and throws UnexpectedResponseError when the data doesn't look like it should,
+ * so a change on Rugplay's side shows up as an error instead of wrong values.
+ */
+export function current_user(res: SvelteDataResponse): CurrentUser | null {
+    const node = page_data(res).find((d) => d != undefined && "userSession" in d);
+    if (node == undefined) {
+        throw new UnexpectedResponseError("Rugplay's page data has no userSession, its layout may have changed");
+    }
+    const session = node.userSession;
+    if (session == null) {
+        return null;
+    }
+    if (typeof session != "object") {
+        throw new UnexpectedResponseError("userSession in Rugplay's page data isn't an object");
+    }
+    const s = session as Record<string, unknown>;
+
+    const required = <T>(key: string, type: "string" | "boolean"): T => {
+        const actual = s[key] === null ? "null" : typeof s[key];
+        if (actual != type) {
+            throw new UnexpectedResponseError(`userSession.${key} should be a ${type}, got ${actual}`);
+        }
+        return s[key] as T;
+    };
+    const optional = <T>(key: string, type: "string" | "boolean"): T | null => s[key] == null ? null : required<T>(key, type);
+    //? Ids and balances are numeric database columns, which may come through as strings
+    const number = (key: string): number => {
+        const value = typeof s[key] == "string" && s[key] != "" ? Number(s[key]) : s[key];
+        if (typeof value != "number" || Number.isNaN(value)) {
+            throw new UnexpectedResponseError(`userSession.${key} should be a number, got ${JSON.stringify(s[key]) ?? "undefined"}`);
+        }
+        return value;
+    };
+    const date = (key: string): string | null => {
+        const value = s[key];
+        if (value == null) {
+            return null;
+        }
+        const parsed = value instanceof Date ? value : new Date(value as string);
+        if (Number.isNaN(parsed.getTime())) {
+            throw new UnexpectedResponseError(`userSession.${key} isn't a date`);
+        }
+        return parsed.toISOString();
+    };
+
+    return {
+        id: number("id"),
+        name: required("name", "string"),
+        username: required("username", "string"),
+        email: optional("email", "string"),
+        bio: optional("bio", "string"),
+        image: optional("image", "string"),
+        baseCurrencyBalance: number("baseCurrencyBalance"),
+        isAdmin: optional<boolean>("isAdmin", "boolean") ?? false,
+        isBanned: optional<boolean>("isBanned", "boolean") ?? false,
+        banReason: optional("banReason", "string"),
+        loginStreak: s.loginStreak == null ? null : number("loginStreak"),
+        createdAt: date("createdAt"),
+    };
+}
@@ -0,0 +1,99 @@
+import type { RugplayClient } from "./client.ts";
+import type { Transaction, TransactionType } from "./types.ts";
+
+//? Rugplay records cash transfers between users against this placeholder coin (LINKCOIN)
+export const LINKCOIN_ID = 1;
+
+/** Whether a transaction moved cash rather than coins. */
+export function is_cash_transfer(t: Transaction): boolean {
+    return t.coin.id == LINKCOIN_ID;
+}
+
+/**
+ * Fetches the whole transaction history, newest first, `pageSize` at a time.
+ * Stops on a short or empty page, once `total` is reached, or when a page only repeats what we already have.
+ */
+export async function all_transactions(client: RugplayClient, pageSize = 100): Promise<Transaction[]> {
+    const all: Transaction[] = [];
+    const seen = new Set<number>();
+    for (let page = 1; ; page++) {
+        const res = await client.transactions(page, pageSize);
+        const fresh = res.transactions.filter((t) => !seen.has(t.id));
+        for (const t of fresh) {
+            seen.add(t.id);
+            all.push(t);
+        }
+        if (fresh.length == 0 || res.transactions.length < pageSize || (res.total != undefined && all.length >= res.total)) {
+            return all;
+        }
+    }
+}
+
+/** One row of the export. Every type has the same columns, flows are signed from our side: positive came in. */
+export interface NormalizedTransaction {
+    id: number;
+    date: string;
+    type: TransactionType;
+    //? The coin's symbol, or CASH for transfers of money
+    asset: string;
+    coinName: string | null;
+    quantity: number;
+    pricePerCoin: number | null;
+    amount: number;
+    cashFlow: number;
+    coinFlow: number;
+    counterparty: string | null;
+}
+
+export function normalize_transaction(t: Transaction): NormalizedTransaction {
+    const cash = is_cash_transfer(t);
+    const incoming = t.type == "BUY" || t.type == "TRANSFER_IN";
+    const sign = incoming ? 1 : -1;
+    const counterparty = t.type == "TRANSFER_IN" ? t.senderUser?.username : t.type == "TRANSFER_OUT" ? t.recipientUser?.username : undefined;
+    return {
+        id: t.id,
+        date: new Date(t.timestamp).toISOString(),
+        type: t.type,
+        asset: cash ? "CASH" : t.coin.symbol,
+        coinName: cash ? null : t.coin.name,
+        //? LINKCOIN transfers carry no quantity, the money is in totalBaseCurrencyAmount
+        quantity: cash ? t.totalBaseCurrencyAmount : t.quantity,
+        pricePerCoin: cash ? null : t.pricePerCoin,
+        amount: t.totalBaseCurrencyAmount,
+        //? Buys and sells trade cash for coins, transfers move one or the other
+        cashFlow: t.type == "BUY" ? -t.totalBaseCurrencyAmount : t.type == "SELL" ? t.totalBaseCurrencyAmount : cash ? sign * t.totalBaseCurrencyAmount : 0,
+        coinFlow: cash ? 0 : sign * t.quantity,
+        counterparty: counterparty ?? null,
+    };
+}
+
+export interface TransactionFilter {
+    from?: Date;
+    to?: Date;
+    //? Coin symbols to keep, CASH keeps the cash transfers
+    symbols?: string[];
+}
+
+/** Parses a `--from`/`--to` date. A bare day (2025-06-01) means its start, or its end when `end_of_day` is set. */
+export function parse_date(value: string, end_of_day = false): Date {
+    const day = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const date = new Date(day ? `${value}T00:00:00.000Z` : value);
+    if (Number.isNaN(date.getTime())) {
+        throw new Error(`"${value}" is not a date, use YYYY-MM-DD or an ISO timestamp`);
+    }
+    if (day && end_of_day) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCMilliseconds(-1);
+    }
+    return date;
+}
+
+export function filter_transactions(rows: NormalizedTransaction[], filter: TransactionFilter): NormalizedTransaction[] {
+    const symbols = filter.symbols?.map((s) => s.toUpperCase());
+    return rows.filter((r) => {
+        const t = Date.parse(r.date);
+        return (filter.from == undefined || t >= filter.from.getTime())
+            && (filter.to == undefined || t <= filter.to.getTime())
+            && (symbols == undefined || symbols.length == 0 || symbols.includes(r.asset.toUpperCase()));
+    });
+}
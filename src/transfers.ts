@@ -0,0 +1,93 @@
+import { dataPath } from "./config.ts";
+import type { TransferResponse, TransferType } from "./types.ts";
+
+//? Dollar values, null means no limit. Coin transfers count at what the coins are worth when sent
+export interface TransferLimits {
+    perTransfer: number | null;
+    daily: number | null;
+}
+
+export const DEFAULT_TRANSFER_LIMITS: TransferLimits = { perTransfer: 1000, daily: 5000 };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+//? sent and failed reached Rugplay, refused and cancelled were stopped by a limit or at the confirmation
+export type TransferEvent = "sent" | "failed" | "refused" | "cancelled";
+
+export interface TransferLogEntry {
+    time: string;
+    profile: string;
+    event: TransferEvent;
+    recipient: string;
+    //? The address book alias the recipient was given as
+    alias?: string;
+    type: TransferType;
+    symbol?: string;
+    amount: number;
+    value: number;
+    response?: TransferResponse;
+    error?: string;
+}
+
+export function transfer_log_path(): string {
+    return dataPath("transfers.log.ndjson");
+}
+
+export function log_transfer(entry: Omit<TransferLogEntry, "time">): TransferLogEntry {
+    const line: TransferLogEntry = { time: new Date().toISOString(), ...entry };
+    Deno.writeTextFileSync(transfer_log_path(), JSON.stringify(line) + "\n", { append: true, create: true });
+    return line;
+}
+
+/** The audit log, oldest first, optionally only one profile's. A missing file means nothing was sent yet. */
+export function read_transfer_log(profile?: string): TransferLogEntry[] {
+    let text: string;
+    try {
+        text = Deno.readTextFileSync(transfer_log_path());
+    } catch (err) {
+        if (err instanceof Deno.errors.NotFound) {
+            return [];
+        }
+        throw err;
+    }
+    return text.split("\n")
+        .filter((l) => l.trim() != "")
+        .map((l) => JSON.parse(l) as TransferLogEntry)
+        .filter((e) => profile == undefined || e.profile == profile);
+}
+
+/** Dollars a profile sent in the 24 hours before `now`. Failed transfers count too, since Rugplay may have carried them out anyway. */
+export function sent_today(entries: TransferLogEntry[], profile: string, now = Date.now()): number {
+    return entries
+        .filter((e) => e.profile == profile && (e.event == "sent" || e.event == "failed") && now - Date.parse(e.time) < DAY)
+        .reduce((sum, e) => sum + e.value, 0);
+}
+
+/** Why a transfer worth `value` breaks the limits after `spent` dollars sent today, undefined when it doesn't. */
+export function check_limits(limits: TransferLimits, value: number, spent: number): string | undefined {
+    if (limits.perTransfer != null && value > limits.perTransfer) {
+        return `it's worth $${round(value)}, over your limit of $${limits.perTransfer} per transfer`;
+    }
+    if (limits.daily != null && spent + value > limits.daily) {
+        return `you've sent $${round(spent)} in the last 24 hours and this would take you over your daily limit of $${limits.daily}`;
+    }
+    return undefined;
+}
+
+/**
+ * Looks a recipient up in the address book. `@name` is always taken as a username, anything else is an alias
+ * when the address book has it and a username otherwise.
+ */
+export function resolve_recipient(book: Record<string, string>, name: string): { username: string; alias?: string } {
+    if (name.startsWith("@")) {
+        return { username: name.slice(1) };
+    }
+    if (Object.hasOwn(book, name)) {
+        return { username: book[name], alias: name };
+    }
+    return { username: name };
+}
+
+function round(n: number): number {
+    return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,340 @@
+//? Response shapes of the Rugplay endpoints the CLI talks to. Only the fields we actually read are
+//? required, everything else Rugplay sends back is marked optional since they change it now and then.
+
+export type CoinSide = "heads" | "tails";
+export type TradeType = "BUY" | "SELL";
+export type TransferType = "CASH" | "COIN";
+export type TransactionType = "BUY" | "SELL" | "TRANSFER_IN" | "TRANSFER_OUT";
+
+export interface CoinflipResponse {
+    won: boolean;
+    result: CoinSide;
+    newBalance: number;
+    payout: number;
+    amountWagered?: number;
+}
+
+export interface SlotsResponse {
+    won: boolean;
+    symbols: string[];
+    newBalance: number;
+    payout: number;
+    amountWagered?: number;
+    winningSymbol?: string | null;
+}
+
+export interface PortfolioSummary {
+    baseCurrencyBalance: number;
+    totalCoinValue: number;
+    totalValue: number;
+    currency?: string;
+}
+
+export interface CoinHolding {
+    symbol: string;
+    icon?: string | null;
+    quantity: number;
+    currentPrice: number;
+    value: number;
+    change24h: number;
+    percentageChange: number;
+    avgPurchasePrice?: number;
+    costBasis?: number;
+}
+
+export interface PortfolioTotal extends PortfolioSummary {
+    coinHoldings: CoinHolding[];
+}
+
+export interface TransactionUser {
+    id: number;
+    username: string;
+}
+
+export interface Transaction {
+    id: number;
+    type: TransactionType;
+    quantity: number;
+    pricePerCoin: number;
+    totalBaseCurrencyAmount: number;
+    timestamp: string;
+    coin: {
+        id: number;
+        name: string;
+        symbol: string;
+        icon?: string | null;
+    };
+    senderUser?: TransactionUser | null;
+    recipientUser?: TransactionUser | null;
+}
+
+export interface TransactionsResponse {
+    transactions: Transaction[];
+    total?: number;
+    page?: number;
+    limit?: number;
+}
+
+export interface MarketCoin {
+    symbol: string;
+    name: string;
+    icon?: string | null;
+    currentPrice: number;
+    marketCap: number;
+    volume24h?: number;
+    change24h: number;
+    createdAt?: string;
+    creatorName: string;
+}
+
+//? Price history resolutions the coin endpoint accepts
+export type Timeframe = "1m" | "5m" | "15m" | "1h" | "4h" | "1d";
+
+export interface CoinDetails extends MarketCoin {
+    id: number;
+    poolCoinAmount: number;
+    poolBaseCurrencyAmount: number;
+    circulatingSupply: number;
+    initialSupply?: number;
+    isListed?: boolean;
+    creatorId?: number;
+    creatorUsername?: string;
+    creatorBio?: string | null;
+    creatorImage?: string | null;
+}
+
+//? `time` is in seconds
+export interface Candle {
+    time: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+export interface VolumePoint {
+    time: number;
+    volume: number;
+}
+
+export interface CoinResponse {
+    coin: CoinDetails;
+    candlestickData: Candle[];
+    volumeData: VolumePoint[];
+    timeframe: Timeframe;
+}
+
+export interface CoinHolder {
+    rank: number;
+    userId: number;
+    username: string;
+    name: string;
+    image?: string | null;
+    quantity: number;
+    percentage: number;
+    liquidationValue: number;
+}
+
+export interface HoldersResponse {
+    coinSymbol: string;
+    totalHolders: number;
+    circulatingSupply: number;
+    poolInfo: {
+        currentPrice: number;
+        baseCurrencyLiquidity: number;
+        coinLiquidity: number;
+    };
+    holders: CoinHolder[];
+}
+
+export interface MarketResponse {
+    coins: MarketCoin[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+}
+
+export interface MarketQuery {
+    search: string;
+    sortBy: string;
+    sortOrder: "asc" | "desc";
+    priceFilter: string;
+    changeFilter: string;
+    page: number;
+    limit: number;
+}
+
+export interface TradeResponse {
+    success: boolean;
+    type: TradeType;
+    newPrice: number;
+    newBalance: number;
+    priceImpact?: number;
+    coinsBought?: number;
+    coinsSold?: number;
+    totalCost?: number;
+    totalReceived?: number;
+}
+
+export interface TransferResponse {
+    success: boolean;
+    type: TransferType;
+    //? Dollars for CASH, coins for COIN
+    amount: number;
+    coinSymbol?: string;
+    //? What the coins were worth when sent
+    estimatedValue?: number;
+    recipient: string;
+    newBalance?: number;
+    message: string;
+}
+
+export interface CreateCoinResponse {
+    success: boolean;
+    coin: {
+        id: number;
+        name: string;
+        symbol: string;
+        icon?: string | null;
+    };
+    feePaid: number;
+    message: string;
+}
+
+export interface UserProfile {
+    id: number;
+    name: string;
+    username: string;
+    bio: string | null;
+    image?: string | null;
+    createdAt?: string;
+    baseCurrencyBalance: number;
+    isAdmin: boolean;
+}
+
+export interface UserStats {
+    totalPortfolioValue: number;
+    holdingsValue: number;
+    holdingsCount?: number;
+    coinsCreated: number;
+    totalTransactions?: number;
+    totalBuyVolume: number;
+    totalSellVolume: number;
+}
+
+export interface CreatedCoin {
+    id?: number;
+    symbol: string;
+    name: string;
+    icon?: string | null;
+    currentPrice: number;
+    marketCap: number;
+    volume24h?: number;
+    change24h: number;
+    createdAt?: string;
+}
+
+export interface UserTransaction {
+    id?: number;
+    type: TransactionType;
+    coinSymbol: string;
+    coinName: string;
+    coinIcon?: string | null;
+    quantity: number;
+    pricePerCoin?: number;
+    totalBaseCurrencyAmount: number;
+    timestamp?: string;
+    senderUsername?: string | null;
+    recipientUsername?: string | null;
+}
+
+export interface UserResponse {
+    profile: UserProfile;
+    stats: UserStats;
+    createdCoins: CreatedCoin[];
+    recentTransactions: UserTransaction[];
+}
+
+export interface Notification {
+    id: number;
+    type: string;
+    title: string;
+    message: string;
+    isRead: boolean;
+    createdAt?: string;
+    link?: string | null;
+}
+
+export interface NotificationsResponse {
+    notifications: Notification[];
+    unreadCount: number;
+}
+
+export interface MarkReadResponse {
+    success: boolean;
+}
+
+export interface RewardClaimResponse {
+    success: boolean;
+    rewardAmount: number;
+    newBalance: number;
+    totalRewardsClaimed: number;
+    loginStreak?: number;
+    nextClaimTime?: string;
+}
+
+export interface RewardStatus {
+    canClaim: boolean;
+    rewardAmount: number;
+    //? Milliseconds until the next claim, 0 when it can be claimed now
+    timeRemaining: number;
+    nextClaimTime: string | null;
+    totalRewardsClaimed: number;
+    lastRewardClaim: string | null;
+    loginStreak?: number;
+}
+
+export interface PromoResponse {
+    success: boolean;
+    message: string;
+    rewardAmount?: number;
+    newBalance?: number;
+}
+
+export interface SettingsUpdate {
+    name?: string;
+    username?: string;
+    bio?: string;
+    avatar?: File;
+}
+
+export interface SettingsResponse {
+    success: boolean;
+}
+
+//? SvelteKit's __data.json payload, one node per layout and then the page. `data` is devalue encoded, see sveltekit.ts
+export interface SvelteDataResponse {
+    type: string;
+    nodes: ({
+        type: string;
+        data: unknown[];
+        uid?: unknown;
+    } | null)[];
+}
+
+//? The logged in user, decoded from the userSession Rugplay's root layout sends, see me()
+export interface CurrentUser {
+    id: number;
+    name: string;
+    username: string;
+    email: string | null;
+    bio: string | null;
+    image: string | null;
+    baseCurrencyBalance: number;
+    isAdmin: boolean;
+    isBanned: boolean;
+    banReason: string | null;
+    loginStreak: number | null;
+    createdAt: string | null;
+}
@@ -0,0 +1,50 @@
+import { assertAlmostEquals, assertEquals, assertThrows } from "@std/assert";
+import { parse_symbols, parse_weights, plan_allocation, plan_rebalance } from "../src/allocation.ts";
+import type { CoinHolding, MarketCoin } from "../src/types.ts";
+
+function coin(symbol: string, marketCap: number, change24h: number): MarketCoin {
+    return { symbol, name: symbol, currentPrice: 1, marketCap, change24h, creatorName: "test" };
+}
+
+function holding(symbol: string, quantity: number, currentPrice: number): CoinHolding {
+    return { symbol, quantity, currentPrice, value: quantity * currentPrice, change24h: 0, percentageChange: 0 };
+}
+
+const coins = [coin("AAA", 300, -5), coin("BBB", 100, 30), coin("CCC", 100, 10), coin("DDD", 50, 0)];
+
+Deno.test("equal allocation", () => {
+    const plan = plan_allocation(coins, 30, 3, "equal");
+    assertEquals(plan.map((p) => [p.symbol, p.amount]), [["AAA", 10], ["BBB", 10], ["CCC", 10]]);
+});
+
+Deno.test("market cap allocation with exclusions", () => {
+    const plan = plan_allocation(coins, 100, 3, "market-cap", parse_symbols("bbb, "));
+    assertEquals(plan.map((p) => p.symbol), ["AAA", "CCC", "DDD"]);
+    assertEquals(plan.map((p) => p.amount), [66.66, 22.22, 11.11]);
+});
+
+Deno.test("momentum allocation only buys gainers", () => {
+    const plan = plan_allocation(coins, 40, 4, "momentum");
+    assertEquals(plan.map((p) => [p.symbol, p.amount]), [["BBB", 30], ["CCC", 10]]);
+    assertEquals(plan_allocation(coins.slice(0, 1), 40, 4, "momentum"), []);
+});
+
+Deno.test("parse_weights", () => {
+    assertEquals(parse_weights(["aaa=3", "BBB=1%"]), { AAA: 0.75, BBB: 0.25 });
+    assertThrows(() => parse_weights(["AAA"]));
+    assertThrows(() => parse_weights(["AAA=0"]));
+});
+
+Deno.test("plan_rebalance", () => {
+    const holdings = [holding("AAA", 100, 1), holding("BBB", 10, 2), holding("ZZZ", 5, 1)];
+    const plan = plan_rebalance(holdings, { AAA: 0.5, BBB: 0.25, CCC: 0.25 }, { CCC: 4 }, 40);
+    assertEquals(plan.total, 160);
+    assertEquals(plan.trades.map((t) => [t.type, t.symbol]), [["SELL", "AAA"], ["BUY", "BBB"], ["BUY", "CCC"]]);
+    assertAlmostEquals(plan.trades[0].amount, 20);
+    assertEquals(plan.trades[2].amount, 40);
+
+    const all = plan_rebalance(holdings, { AAA: 1 }, {}, 0, 0.01, true);
+    assertEquals(all.trades.map((t) => [t.type, t.symbol, t.amount]), [["SELL", "BBB", 10], ["SELL", "ZZZ", 5], ["BUY", "AAA", 25]]);
+
+    assertEquals(plan_rebalance([holding("AAA", 100, 1)], { AAA: 1 }, {}).trades, []);
+});
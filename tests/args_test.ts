@@ -0,0 +1,66 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { type CommandSpec, describe_args, parse_args, tokenize, usage } from "../src/args.ts";
+import { UsageError } from "../src/errors.ts";
+
+const spec: CommandSpec = {
+    args: [
+        { name: "symbol", type: "symbol" },
+        { name: "amount", type: "quantity" },
+        { name: "note", rest: true, optional: true },
+    ],
+    options: [
+        { name: "side", type: "side", default: "heads" },
+        { name: "rounds", type: "integer", min: 1, max: 10, default: 5 },
+        { name: "strategy", choices: ["flat", "kelly"] },
+        { name: "force", type: "flag" },
+    ],
+};
+
+Deno.test("tokenize keeps quoted text together", () => {
+    assertEquals(tokenize(`new-coin "Moon Shot" MOON  'my icons/moon.png'`), ["new-coin", "Moon Shot", "MOON", "my icons/moon.png"]);
+    assertEquals(tokenize(`bio "say \\"hi\\"" it\\'s ""`), ["bio", `say "hi"`, "it's", ""]);
+    assertEquals(tokenize(`new-coin Moon MOON C:\\icons\\moon.png`), ["new-coin", "Moon", "MOON", "C:\\icons\\moon.png"]);
+    assertEquals(tokenize("   "), []);
+    assertThrows(() => tokenize(`bio "never closed`), UsageError, "closing");
+});
+
+Deno.test("parse_args validates and fills in defaults", () => {
+    assertEquals(parse_args("t", spec, ["moon", "all", "--rounds=3", "--force", "--side", "1"]), {
+        symbol: "MOON", amount: "all", note: undefined, side: "tails", rounds: 3, strategy: undefined, force: true,
+    });
+    assertEquals(parse_args("t", spec, ["BTCR", "2.5", "--", "--not", "an option"]).note, ["--not", "an option"]);
+    assertEquals(parse_args("t", spec, ["BTCR", "1e2"]).amount, 100);
+
+    const bad = (tokens: string[], message: string) => {
+        const err = assertThrows(() => parse_args("t", spec, tokens), UsageError, message) as UsageError;
+        assertEquals(err.usage, usage("t", spec));
+    };
+    bad(["BTCR"], "Missing <amount>");
+    bad(["BTCR", "-1"], "<amount> must be a positive number or all");
+    bad(["BTCR", "10abc"], `got "10abc"`);
+    bad(["BTC$", "1"], "<symbol> must be a coin symbol");
+    bad(["BTCR", "1", "--rounds", "11"], "--rounds must be at most 10");
+    bad(["BTCR", "1", "--rounds", "2.5"], "--rounds must be a whole number");
+    bad(["BTCR", "1", "--rounds"], "--rounds needs a value");
+    bad(["BTCR", "1", "--side", "edge"], "--side must be heads, tails, 0 or 1");
+    bad(["BTCR", "1", "--strategy", "yolo"], `Unknown strategy "yolo", expected one of flat, kelly`);
+    bad(["BTCR", "1", "--force=yes"], "--force doesn't take a value");
+    bad(["BTCR", "1", "--nope"], "Unknown option --nope");
+});
+
+Deno.test("parse_args rejects extra arguments", () => {
+    assertThrows(() => parse_args("t", { args: [{ name: "user" }] }, ["alice", "bob"]), UsageError, `didn't expect "bob"`);
+});
+
+Deno.test("usage and describe_args are generated from the spec", () => {
+    assertEquals(usage("t", spec), "t <symbol> <amount> [note...] [--side <side>] [--rounds <integer>] [--strategy <flat|kelly>] [--force]");
+    assertEquals(describe_args(spec), [
+        { name: "<symbol>", desc: "(a coin symbol)" },
+        { name: "<amount>", desc: "(a positive number or all)" },
+        { name: "[note...]", desc: "" },
+        { name: "--side", desc: "(heads, tails, 0 or 1, default heads)" },
+        { name: "--rounds", desc: "(a whole number, from 1 to 10, default 5)" },
+        { name: "--strategy", desc: "(one of flat, kelly)" },
+        { name: "--force", desc: "" },
+    ]);
+});
@@ -0,0 +1,91 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import * as path from "@std/path";
+import { RugplayClient } from "../src/client.ts";
+import { allocation_strategy, buy_and_hold, fetch_market, load_strategy, type MarketFrame, run_backtest, type Strategy } from "../src/backtest.ts";
+import { start_mock_server } from "../mock/server.ts";
+import { MOCK_COOKIE } from "../mock/state.ts";
+
+const options = { cash: 1000, top: 2, every: 1, slippage: 0 };
+
+function round(n: number): number {
+    return Math.round(n * 1e6) / 1e6;
+}
+
+//? Frames of coins A, B and C with the given prices, market caps following the prices
+function frames(...prices: [number, number, number][]): MarketFrame[] {
+    return prices.map((p, i) => ({
+        time: new Date(Date.UTC(2025, 5, 1, i)).toISOString(),
+        coins: ["A", "B", "C"].map((symbol, j) => ({
+            symbol,
+            name: symbol,
+            currentPrice: p[j],
+            marketCap: p[j] * 1000,
+            //? Change since the frame before
+            change24h: i == 0 ? 0 : (p[j] / prices[i - 1][j] - 1) * 100,
+        })),
+    }));
+}
+
+Deno.test("fetch_market pages through the whole market", async () => {
+    const server = start_mock_server();
+    const client = new RugplayClient(MOCK_COOKIE, { baseUrl: server.url, rateLimit: 0 });
+    const coins = await fetch_market(client);
+    assert(coins.length > 1);
+    assert(coins.every((c, i) => i == 0 || coins[i - 1].marketCap >= c.marketCap));
+    assertEquals((await fetch_market(client, 1)).length, coins.length);
+    await server.shutdown();
+});
+
+Deno.test("buy_and_hold buys the top coins once", async () => {
+    const result = await run_backtest(frames([10, 5, 1], [20, 5, 1], [15, 2.5, 1]), buy_and_hold, "buy-and-hold", options);
+    assertEquals(result.trades, 2);
+    assertEquals(Object.keys(result.holdings), ["A", "B"]);
+    //? $500 each: A goes 10 -> 15, B 5 -> 2.5
+    assertEquals(round(result.endValue), 1000);
+    assertEquals(result.curve.map((p) => round(p.value)), [1000, 1500, 1000]);
+    assertEquals(round(result.maxDrawdown), round(1 / 3));
+});
+
+Deno.test("allocation strategies rebalance into what invest would pick", async () => {
+    const data = frames([10, 5, 1], [10, 5, 2], [10, 5, 4]);
+    const momentum = await run_backtest(data, allocation_strategy("momentum"), "momentum", options);
+    //? Nothing went up in the first frame, then only C did and it's bought with everything
+    assertEquals(momentum.fills.map((f) => `${f.type} ${f.symbol}`), ["BUY C"]);
+    assertEquals(round(momentum.endValue), 2000);
+    assertEquals(round(momentum.return), 1);
+
+    const equal = await run_backtest(data, allocation_strategy("equal"), "equal", { ...options, slippage: 0.01 });
+    assertEquals(equal.fills.map((f) => `${f.type} ${f.symbol}`), ["BUY A", "BUY B"]);
+    assertEquals(round(equal.fills[0].price), 10.1);
+    assert(equal.endValue < 1000);
+
+    //? every 2 only looks at the first and third frame
+    const slow = await run_backtest(frames([10, 5, 1], [10, 5, 20], [10, 20, 20]), allocation_strategy("market-cap"), "market-cap", { ...options, every: 2 });
+    //? B and C have the biggest market caps by then, sells come before buys
+    assertEquals(slow.fills.map((f) => `${f.type} ${f.symbol}`), ["BUY A", "BUY B", "SELL B", "SELL A", "BUY C"]);
+    assertEquals(Object.keys(slow.holdings).toSorted(), ["B", "C"]);
+});
+
+Deno.test("run_backtest fills what it can", async () => {
+    const strategy: Strategy = (ctx) => ctx.step == 0
+        ? [{ type: "BUY", symbol: "a", amount: 2000 }, { type: "BUY", symbol: "NOPE", amount: 10 }, { type: "SELL", symbol: "B", amount: 1 }]
+        : [{ type: "SELL", symbol: "A", amount: 1000 }];
+    const result = await run_backtest(frames([10, 5, 1], [20, 5, 1]), strategy, "custom", options);
+    //? The buy is cut down to the cash there is, the sell to the coins held
+    assertEquals(result.fills.map((f) => [f.type, f.symbol, round(f.quantity), round(f.value)]), [["BUY", "A", 100, 1000], ["SELL", "A", 100, 2000]]);
+    assertEquals([result.skipped, result.cash, result.holdings], [2, 2000, {}]);
+    await assertRejects(() => run_backtest([], strategy, "custom", options), Error, "no recorded frames");
+});
+
+Deno.test("load_strategy", async () => {
+    assertEquals(await load_strategy("buy-and-hold"), buy_and_hold);
+    await assertRejects(() => load_strategy("yolo"), Error, "Unknown strategy");
+    const dir = await Deno.makeTempDir();
+    const file = path.join(dir, "first.ts");
+    await Deno.writeTextFile(file, `export default (ctx) => ctx.step == 0 ? [{ type: "BUY", symbol: ctx.frame.coins[0].symbol, amount: ctx.cash }] : [];`);
+    const result = await run_backtest(frames([10, 5, 1], [20, 5, 1]), await load_strategy(file), "first", options);
+    assertEquals(round(result.return), 1);
+    await Deno.writeTextFile(path.join(dir, "none.ts"), "export const x = 1;");
+    await assertRejects(() => load_strategy(path.join(dir, "none.ts")), Error, "no default export");
+    await Deno.remove(dir, { recursive: true });
+});
@@ -0,0 +1,38 @@
+import { assertEquals } from "@std/assert";
+import chalk from "chalk";
+import { candle_chart, fmt_price, line_chart } from "../src/chart.ts";
+
+chalk.level = 0;
+
+Deno.test("fmt_price", () => {
+    assertEquals(fmt_price(0.000123456), "0.0001235");
+    assertEquals(fmt_price(12.3456), "12.35");
+    assertEquals(fmt_price(1234567), "1,234,567");
+});
+
+Deno.test("line_chart", () => {
+    assertEquals(line_chart([1, 2, 3, 2, 1], 10, 3), [
+        "3 ┤  ╭╮ ",
+        "2 ┤ ╭╯╰╮",
+        "1 ┤─╯  ╰",
+    ]);
+    //? More values than columns keeps the last value of each bucket
+    assertEquals(line_chart([5, 1, 5, 9], 2, 2), ["9 ┤ ╭", "1 ┤─╯"]);
+    assertEquals(line_chart([], 10, 3), ["No data"]);
+});
+
+Deno.test("candle_chart", () => {
+    const candles = [
+        { time: 0, open: 1, close: 3, high: 4, low: 1 },
+        { time: 1, open: 3, close: 2, high: 3, low: 0 },
+    ];
+    assertEquals(candle_chart(candles, 10, 5), [
+        "4 ┤│ ",
+        "  ┤██",
+        "2 ┤██",
+        "  ┤█│",
+        "0 ┤ │",
+    ]);
+    //? Squeezed into one column the two candles become one going from 1 to 2
+    assertEquals(candle_chart(candles, 1, 5).map((l) => l.slice(-1)), ["│", "│", "█", "█", "│"]);
+});
@@ -0,0 +1,87 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { parse_retry_after, RugplayClient } from "../src/client.ts";
+import { AuthExpiredError, NetworkError, RateLimitedError, ServerError, TimeoutError, ValidationError } from "../src/errors.ts";
+import { start_mock_server } from "../mock/server.ts";
+import { MOCK_COOKIE } from "../mock/state.ts";
+
+//? Short delays everywhere so the retry tests stay fast
+const fast = { backoff: 5, maxBackoff: 20, rateLimit: 0, timeout: 1000 };
+
+Deno.test("parse_retry_after", () => {
+    assertEquals(parse_retry_after(null), undefined);
+    assertEquals(parse_retry_after("3"), 3);
+    assertEquals(parse_retry_after(new Date(10_000).toUTCString(), 4_000), 6);
+    assertEquals(parse_retry_after("soon"), undefined);
+});
+
+Deno.test("request pipeline", async (t) => {
+    const server = start_mock_server();
+    const client = new RugplayClient(MOCK_COOKIE, { ...fast, baseUrl: server.url });
+
+    await t.step("retries GETs on server errors", async () => {
+        server.state.faults.push({ status: 503 }, { status: 502 });
+        assertEquals((await client.portfolioSummary()).baseCurrencyBalance, 10000);
+    });
+
+    await t.step("gives up after the configured retries", async () => {
+        server.state.faults.push({ status: 500 }, { status: 500 }, { status: 500 }, { status: 500 });
+        await assertRejects(() => client.portfolioSummary(), ServerError);
+    });
+
+    await t.step("never retries a POST that may have gone through", async () => {
+        server.state.faults.push({ status: 500 });
+        const before = server.state.requests;
+        await assertRejects(() => client.trade("RUG", "BUY", 1), ServerError);
+        assertEquals(server.state.requests - before, 1);
+    });
+
+    await t.step("retries 429s, honoring Retry-After", async () => {
+        server.state.faults.push({ status: 429, headers: { "Retry-After": "0.05" } });
+        const start = Date.now();
+        assert((await client.trade("RUG", "BUY", 1)).success);
+        assert(Date.now() - start >= 50);
+    });
+
+    await t.step("fails right away when Retry-After is too long", async () => {
+        server.state.faults.push({ status: 429, headers: { "Retry-After": "3600" } });
+        const err = await assertRejects(() => client.portfolioSummary(), RateLimitedError);
+        assertEquals((err as RateLimitedError).retryAfter, 3600);
+    });
+
+    await t.step("maps statuses to error classes", async () => {
+        await assertRejects(() => client.trade("RUG", "SELL", 1e12), ValidationError, "Insufficient coins");
+        await assertRejects(() => new RugplayClient("bad", { ...fast, baseUrl: server.url }).portfolioSummary(), AuthExpiredError);
+    });
+
+    await t.step("decodes the logged in user", async () => {
+        const me = await client.me();
+        assertEquals([me.id, me.username, typeof me.baseCurrencyBalance], [1, "mock", "number"]);
+        await assertRejects(() => new RugplayClient("bad", { ...fast, baseUrl: server.url }).me(), AuthExpiredError);
+    });
+
+    await t.step("keeps symbols and usernames to their own path segment", async () => {
+        //? Unencoded, this would be the holders page of BTCR
+        await assertRejects(() => client.coin("BTCR/holders"), ValidationError, "Coin not found");
+        await assertRejects(() => client.user("mock/../x"), ValidationError, "User not found");
+        assertEquals((await client.coin("BTCR")).coin.symbol, "BTCR");
+    });
+
+    await t.step("times out hung requests", async () => {
+        const impatient = new RugplayClient(MOCK_COOKIE, { ...fast, timeout: 20, retries: 0, baseUrl: server.url });
+        server.state.faults.push({ delay: 100 });
+        await assertRejects(() => impatient.portfolioSummary(), TimeoutError);
+    });
+
+    await t.step("rate limits itself", async () => {
+        const limited = new RugplayClient(MOCK_COOKIE, { ...fast, rateLimit: 20, baseUrl: server.url });
+        const start = Date.now();
+        await Promise.all([1, 2, 3, 4, 5].map(() => limited.portfolioSummary()));
+        assert(Date.now() - start >= 200);
+    });
+
+    await server.shutdown();
+
+    await t.step("wraps connection failures", async () => {
+        await assertRejects(() => client.portfolioSummary(), NetworkError);
+    });
+});
@@ -0,0 +1,640 @@
+//? Runs every command in main.ts's commands Map against the mock server in mock/server.ts.
+import { assert, assertEquals } from "@std/assert";
+import * as path from "@std/path";
+import { MOCK_COOKIE } from "../mock/state.ts";
+import { start_mock_server } from "../mock/server.ts";
+
+const server = start_mock_server();
+const home = await Deno.makeTempDir();
+Deno.env.set("HOME", home);
+Deno.env.set("NO_COLOR", "1");
+Deno.env.set("RUGPLAY_BASE_URL", server.url);
+await Deno.writeTextFile(path.join(home, "rugplay_api_saves.json"), JSON.stringify({
+    version: 2,
+    active: "default",
+    profiles: { default: { cookie: MOCK_COOKIE } },
+    http: { rateLimit: 0 },
+}));
+
+//? A plugin using the shared client and output helpers, and a broken one that mustn't keep the CLI from starting
+await Deno.mkdir(path.join(home, "rugplay_api", "plugins"), { recursive: true });
+await Deno.writeTextFile(path.join(home, "rugplay_api", "plugins", "cash.ts"), `
+    export default function (ctx) {
+        ctx.register("cash", {
+            desc: "prints your cash",
+            args: [],
+            callback: async () => {
+                const summary = await ctx.client.portfolioSummary();
+                ctx.render({ data: { profile: ctx.profile(), cash: summary.baseCurrencyBalance }, text: () => console.log("Cash: " + summary.baseCurrencyBalance) });
+            },
+        });
+    }
+`);
+await Deno.writeTextFile(path.join(home, "rugplay_api", "plugins", "broken.ts"), "export default (;");
+
+//? main.ts reads the config as soon as it's imported, so it has to happen after the environment is set up
+const { commands, run_line } = await import("../main.ts");
+
+const ran = new Set<string>();
+
+/** Runs a REPL line and returns whether it succeeded along with everything it printed. */
+async function run(line: string): Promise<{ ok: boolean; out: string }> {
+    ran.add(line.split(" ")[0]);
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => lines.push(args.map((a) => typeof a == "string" ? a : Deno.inspect(a)).join(" "));
+    try {
+        return { ok: await run_line(line), out: lines.join("\n") };
+    } finally {
+        console.log = log;
+    }
+}
+
+// deno-lint-ignore no-explicit-any
+async function run_json(line: string): Promise<any> {
+    const { ok, out } = await run(`${line} --json`);
+    assert(ok, out);
+    return JSON.parse(out);
+}
+
+Deno.test("commands", async (t) => {
+    await t.step("commands", async () => {
+        const list = await run_json("commands");
+        assertEquals(list.map((c: { name: string }) => c.name), [...commands.keys()]);
+    });
+
+    await t.step("help", async () => {
+        assertEquals((await run_json("help buy-coin")).usage, "buy-coin <symbol> <amount> [--force] [--dry-run] [--yes]");
+        const { ok, out } = await run("help coin");
+        assert(ok);
+        assert(out.includes("--timeframe  how long each point of the chart covers (one of 1m, 5m, 15m, 1h, 4h, 1d, default 1m)"), out);
+        assert((await run("help")).ok);
+        assert(!(await run("help nope")).ok);
+        const bad = await run("buy-coin BTCR lots");
+        assert(!bad.ok);
+        assert(bad.out.includes("Usage: buy-coin <symbol> <amount> [--force] [--dry-run] [--yes]"), bad.out);
+        assert(!(await run("summary extra")).ok);
+        assert(!(await run("coinflip edge 10")).ok);
+    });
+
+    await t.step("summary", async () => {
+        const json = await run_json("summary");
+        assertEquals(json.baseCurrencyBalance, 10000);
+    });
+
+    await t.step("portfolio", async () => {
+        const json = await run_json("portfolio");
+        assertEquals(json.coinHoldings.map((h: { symbol: string }) => h.symbol), ["BTCR", "MOON"]);
+        assert(json.transactions.length > 0);
+        const { ok, out } = await run("portfolio");
+        assert(ok);
+        assert(out.includes("Received $250 from bob"), out);
+    });
+
+    await t.step("market", async () => {
+        const json = await run_json("market 1");
+        assertEquals(json.coins.length, 6);
+        assertEquals(json.totalPages, 2);
+        assertEquals((await run_json("market 1 moon")).coins[0].symbol, "MOON");
+    });
+
+    await t.step("watchlist and dashboard", async () => {
+        assertEquals(await run_json("watchlist"), []);
+        assertEquals(await run_json("watchlist-add moon SAFE"), ["MOON", "SAFE"]);
+        assert(!(await run("watchlist-add NOPE")).ok);
+        assertEquals((await run_json("watchlist")).map((c: { symbol: string }) => c.symbol), ["MOON", "SAFE"]);
+        assertEquals(await run_json("watchlist-remove safe"), ["MOON"]);
+        assert((await run("watchlist")).ok);
+        //? Tests don't run in a terminal, see dashboard_test.ts for the rest
+        assert(!(await run("dashboard")).ok);
+    });
+
+    await t.step("coin", async () => {
+        const json = await run_json("coin btcr --timeframe 1h --holders 5");
+        assertEquals(json.coin.symbol, "BTCR");
+        assertEquals(json.timeframe, "1h");
+        assertEquals(json.candlestickData.length, 60);
+        assertEquals(json.holders.holders[0].username, "mock");
+        const { ok, out } = await run("coin BTCR --candles --height 6");
+        assert(ok);
+        assert(out.includes("Created by Alice (@alice)"), out);
+        assert(out.includes("#1 Mock Trader (@mock) 100 BTCR"), out);
+        assert((await run("coin BTCR")).ok);
+        assert(!(await run("coin BTCR --timeframe 2y")).ok);
+        assert(!(await run("coin NOPE")).ok);
+    });
+
+    await t.step("buy-coin and sell-coin", async () => {
+        const bought = await run_json("buy-coin RUG 100");
+        assert(bought.coinsBought > 0);
+        assertEquals(bought.newBalance, 9900);
+        const sold = await run_json(`sell-coin RUG ${bought.coinsBought}`);
+        assertEquals(Math.round(sold.newBalance), 10000);
+        assert(!(await run("sell-coin RUG 1000000")).ok);
+    });
+
+    await t.step("coinflip and slots", async () => {
+        const flip = await run_json("coinflip 1 10");
+        assertEquals(flip.amountWagered, 10);
+        const slots = await run_json("slots 10");
+        assertEquals(slots.symbols.length, 3);
+        assert(!(await run("coinflip 0 99999999")).ok);
+    });
+
+    await t.step("invest", async () => {
+        const plan = await run_json("invest 40 10 --strategy momentum --exclude BTCR --dry-run");
+        assertEquals(plan.map((p: { symbol: string }) => p.symbol), ["DOGE2", "SAFE"]);
+        assertEquals(Math.round(plan.reduce((a: number, p: { amount: number }) => a + p.amount, 0)), 40);
+        const summary = await run_json("invest 30 10");
+        assertEquals(summary.trades.map((t: { symbol: string }) => t.symbol), ["BTCR", "MOON", "RUG"]);
+        assertEquals(summary.failed, []);
+        assertEquals(Math.round(summary.spent), 30);
+    });
+
+    await t.step("journal and pnl", async () => {
+        const entries = await run_json("journal 100");
+        assertEquals(entries.map((e: { action: string }) => e.action), ["BUY", "SELL", "COINFLIP", "SLOTS", "BUY", "BUY", "BUY"]);
+        assertEquals(entries[0].profile, "default");
+        const report = await run_json("pnl");
+        const rug = report.coins.find((c: { symbol: string }) => c.symbol == "RUG");
+        assertEquals(Math.round(rug.realized * 1000), 0);
+        assertEquals(report.games.map((g: { game: string }) => g.game), ["coinflip", "slots"]);
+        assert((await run("pnl")).ok);
+    });
+
+    await t.step("gamble-session", async () => {
+        const session = await run_json("gamble-session coinflip martingale 5 --rounds 4 --take-profit 20 --yes");
+        assert(session.rounds.length <= 4);
+        assertEquals(session.rounds[0].bet, 5);
+        const journal = await run_json("journal 100");
+        assertEquals(journal.filter((e: { source: string }) => e.source == "gamble-session").length, session.rounds.length);
+        const sim = await run_json("gamble-session slots flat 1 --simulate --runs 50 --rounds 20");
+        assertEquals(sim.runs, 50);
+        assert(sim.expectedReturn < 1);
+        assert((await run("gamble-session coinflip flat 1 --simulate --runs 5")).ok);
+        assert(!(await run("gamble-session roulette flat 1")).ok);
+    });
+
+    await t.step("rebalance", async () => {
+        const plan = await run_json("rebalance BTCR=50 MOON=50 --dry-run");
+        assertEquals(plan.trades.map((t: { symbol: string; type: string }) => `${t.type} ${t.symbol}`), ["SELL BTCR", "BUY MOON"]);
+        const done = await run_json("rebalance BTCR=1 MOON=1 SAFE=1 --cash 100");
+        assertEquals(done.failed, []);
+        const after = await run_json("rebalance BTCR=1 MOON=1 SAFE=1 --threshold 3 --dry-run");
+        assertEquals(after.trades, []);
+        assert(!(await run("rebalance BTCR=lots")).ok);
+    });
+
+    await t.step("safety", async () => {
+        const settings = await run_json("safety");
+        assertEquals([settings.confirmAbove, settings.maxSlippage, settings.dailyCap], [100, 5, null]);
+        assert(settings.spentToday > 0);
+
+        const balance = async () => (await run_json("summary")).baseCurrencyBalance;
+        const start = await balance();
+        const quote = await run_json("buy-coin BTCR 150 --dry-run");
+        assertEquals(quote.value, 150);
+        assert(quote.coins > 0 && quote.avgPrice > quote.price && quote.newPrice > quote.price);
+        //? Over $100 with nobody to ask, so nothing is bought
+        assert(!(await run("buy-coin BTCR 150")).ok);
+        assertEquals(await balance(), start);
+        const bought = await run_json("buy-coin BTCR 150 --yes");
+        assertEquals(Math.round(bought.coinsBought * 1000), Math.round(quote.coins * 1000));
+        assertEquals(Math.round(bought.slippage * 1000), 0);
+        const sell = await run_json(`sell-coin BTCR ${bought.coinsBought} --dry-run`);
+        assertEquals(Math.round(sell.value), 150);
+        assert(!(await run(`sell-coin BTCR ${bought.coinsBought}`)).ok);
+        const { out } = await run(`sell-coin BTCR ${bought.coinsBought} --yes`);
+        assert(out.includes(`(+${Math.round(sell.value * 1000) / 1000})`), out);
+
+        assert((await run("set-spend-cap coinflip 5")).ok);
+        assert(!(await run("coinflip heads 10")).ok);
+        assert((await run("coinflip heads 5")).ok);
+        assertEquals((await run_json("set-spend-cap coinflip none")).commandCaps, {});
+        assert(!(await run("set-spend-cap summary 5")).ok);
+
+        assert((await run("set-safety daily-cap 1")).ok);
+        assert(!(await run("slots 5")).ok);
+        assert((await run("set-safety daily-cap none")).ok);
+        assertEquals((await run_json("set-safety max-slippage none")).maxSlippage, null);
+        assertEquals((await run_json("set-safety max-slippage 5")).maxSlippage, 5);
+        assert(!(await run("set-safety confirm-above lots")).ok);
+    });
+
+    await t.step("conditional orders and watch", async () => {
+        const buy = await run_json("order-buy SAFE 10 1000");
+        const trail = await run_json("order-trail MOON 10");
+        assertEquals(trail.amount, "all");
+        await run_json("order-take-profit BTCR 50 1 --from 0.0001");
+        const sell = await run_json("order-sell RUG all 999999");
+        assertEquals((await run_json("orders")).length, 4);
+        assertEquals((await run_json(`order-cancel ${sell.id}`)).status, "cancelled");
+        assert(!(await run(`order-cancel ${sell.id}`)).ok);
+        assert(!(await run("order-buy NOPE 1 1")).ok);
+        //? An order for a coin that has since been delisted mustn't keep the others from filling
+        const orders_file = path.join(home, "rugplay_api", "orders.json");
+        const saved = JSON.parse(await Deno.readTextFile(orders_file));
+        await Deno.writeTextFile(orders_file, JSON.stringify([...saved, { ...saved[0], id: 99, symbol: "GONE" }]));
+
+        const first = (await run("watch --ticks 1 --interval 0 --json")).out.split("\n").map((l) => JSON.parse(l));
+        assertEquals(first.map((r) => [r.order.symbol, r.order.status]), [["SAFE", "filled"], ["BTCR", "filled"]]);
+        assertEquals(first[0].order.id, buy.id);
+        assertEquals(first[1].amount, 1);
+        assertEquals((await run_json("orders")).map((o: { symbol: string }) => o.symbol), ["MOON", "GONE"]);
+        assert((await run("order-cancel 99")).ok);
+
+        //? Halving the pool's dollars halves the price, setting off the trailing stop
+        const moon = server.state.coin_by_symbol("MOON")!;
+        moon.poolBaseCurrencyAmount /= 2;
+        const second = (await run("watch --ticks 5 --interval 0 --json")).out.split("\n").map((l) => JSON.parse(l));
+        assertEquals(second.map((r) => [r.order.symbol, r.order.status]), [["MOON", "filled"]]);
+        assertEquals((await run_json("portfolio")).coinHoldings.some((h: { symbol: string }) => h.symbol == "MOON"), false);
+        assertEquals((await run_json("orders --all")).map((o: { status: string }) => o.status), ["filled", "filled", "filled", "cancelled", "cancelled"]);
+        assert((await run("orders")).ok);
+        const sources = (await run_json("journal 100")).map((e: { source: string }) => e.source);
+        assertEquals(sources.filter((s: string) => s == "watch").length, 3);
+
+        //? Watched trades go through the slippage check too, from the price that set them off. An order big enough to move
+        //? the pool by 10% on its own isn't slipping
+        assert((await run("set-safety max-slippage 1")).ok);
+        const big = await run_json("order-buy SAFE 100 1");
+        const moving = (await run("watch --ticks 1 --interval 0 --json")).out.split("\n").map((l) => JSON.parse(l));
+        assertEquals([moving[0].order.id, moving[0].order.status], [big.id, "filled"]);
+        assert(moving[0].trade.newPrice > moving[0].price * 1.1);
+
+        //? But the price going up between the order going off and the trade is: the lookup that sets it off sees it 10% lower
+        const page = await (await fetch(`${server.url}/api/coin/BTCR`)).json();
+        const cheaper = () => server.state.faults.push({ status: 200, body: JSON.stringify({ ...page, coin: { ...page.coin, currentPrice: page.coin.currentPrice * 0.9 } }) });
+        const slipping = await run_json("order-buy BTCR 50 1000");
+        cheaper();
+        const refused = (await run("watch --ticks 1 --interval 0 --json")).out.split("\n").map((l) => JSON.parse(l));
+        assertEquals([refused[0].order.id, refused[0].order.status, refused[0].refused], [slipping.id, "open", true]);
+        assert(refused[0].error.includes("worse than"), refused[0].error);
+        //? Refused isn't failed, the order goes off again on the next poll
+        cheaper();
+        assert((await run("watch --ticks 1 --interval 0")).out.includes("still open"));
+        assertEquals((await run_json("orders")).map((o: { id: number }) => o.id), [slipping.id]);
+        assert((await run(`order-cancel ${slipping.id}`)).ok);
+        assert((await run("set-safety max-slippage 5")).ok);
+    });
+
+    await t.step("risk and set-risk", async () => {
+        const rug = await run_json("risk RUG");
+        assert(rug.score >= 50, `${rug.score}`);
+        assertEquals(rug.factors[0].score, 100);
+        assert((await run_json("risk BTCR")).score < 50);
+        assert((await run("risk RUG")).ok);
+
+        assertEquals(await run_json("set-risk 50 refuse"), { threshold: 50, action: "refuse" });
+        assert(!(await run("buy-coin RUG 1")).ok);
+        assert((await run("buy-coin RUG 1 --force")).ok);
+        const plan = await run_json("invest 30 10 --dry-run");
+        assertEquals(plan.map((p: { symbol: string }) => p.symbol), ["BTCR", "MOON", "DOGE2"]);
+        assert((await run("set-risk 50 warn")).ok);
+        assert((await run("buy-coin RUG 1")).ok);
+        assert(!(await run("set-risk 50 panic")).ok);
+        assertEquals(await run_json("set-risk 70"), { threshold: 70, action: "warn" });
+    });
+
+    await t.step("export-transactions", async () => {
+        const all = await run_json("export-transactions");
+        assert(all.length > 10);
+        assertEquals(new Set(all.map((r: { type: string }) => r.type)), new Set(["BUY", "SELL", "TRANSFER_IN", "TRANSFER_OUT"]));
+        const cash = await run_json("export-transactions --symbol cash");
+        assertEquals(cash, [{
+            id: 5, date: "2025-05-25T00:00:04.000Z", type: "TRANSFER_IN", asset: "CASH", coinName: null, quantity: 250,
+            pricePerCoin: null, amount: 250, cashFlow: 250, coinFlow: 0, counterparty: "bob",
+        }]);
+        assertEquals((await run_json("export-transactions --from 2025-05-25 --to 2025-05-25")).length, 4);
+
+        const file = path.join(home, "history.csv");
+        assertEquals((await run_json(`export-transactions ${file} --symbol MOON --to 2025-05-25`)).count, 2);
+        const csv = (await Deno.readTextFile(file)).trim().split("\n");
+        assertEquals(csv[0], "id,date,type,asset,coinName,quantity,pricePerCoin,amount,cashFlow,coinFlow,counterparty");
+        assertEquals(csv[2], "3,2025-05-25T00:00:03.000Z,TRANSFER_OUT,MOON,Moon Shot,10,20,200,0,-10,alice");
+        assert((await run(`export-transactions ${path.join(home, "history.json")}`)).ok);
+        assert(!(await run(`export-transactions ${path.join(home, "history.txt")}`)).ok);
+        assert(!(await run("export-transactions --from yesterday")).ok);
+    });
+
+    await t.step("daily-reward", async () => {
+        assertEquals((await run_json("daily-reward")).rewardAmount, 1000);
+        assert(!(await run("daily-reward")).ok);
+        server.state.advance(12 * 60 * 60 * 1000);
+        assert((await run("daily-reward")).ok);
+    });
+
+    await t.step("redeem", async () => {
+        assert((await run_json("redeem WELCOME")).success);
+        assert(!(await run("redeem WELCOME")).ok);
+    });
+
+    await t.step("notifications", async () => {
+        const json = await run_json("notifications");
+        assertEquals(json.unreadCount, 1);
+        assertEquals(json.notifications.map((n: { id: number }) => n.id), [2, 1]);
+        assertEquals((await run_json("notifications --type transfer")).notifications.map((n: { id: number }) => n.id), [2]);
+        assertEquals((await run_json("notifications --unread")).total, 1);
+        assertEquals((await run_json("notifications 2 --limit 1")).notifications.map((n: { id: number }) => n.id), [1]);
+        const { ok, out } = await run("notifications --limit 1");
+        assert(ok);
+        assert(out.includes("#2 TRANSFER Money received") && out.includes("More on page 2"), out);
+        assert(!(await run("mark-read")).ok);
+        assertEquals((await run_json("mark-read 2")).ids, [2]);
+        assertEquals((await run_json("notifications")).unreadCount, 0);
+    });
+
+    await t.step("notifications --follow", async () => {
+        const received: { id: number }[] = [];
+        const webhook = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, async (req) => {
+            received.push(await req.json());
+            return new Response(null, { status: 204 });
+        });
+        const hooked = path.join(home, "hooked.ndjson");
+        assert(!(await run("set-notification-hook webhook http://example.com/hook")).ok);
+        assert((await run(`set-notification-hook webhook http://127.0.0.1:${webhook.addr.port}/hook`)).ok);
+        //? The first poll only notes what's there already, so the notification has to show up after it
+        const following = run(`notifications --follow --interval 0.5 --ticks 1 --exec "cat >> '${hooked}'"`);
+        await new Promise((resolve) => setTimeout(resolve, 250));
+        server.state.notifications.push({ id: 900, userId: 1, type: "SYSTEM", title: "Maintenance", message: "Back soon", isRead: false, createdAt: server.state.clock + 1 });
+        const { ok, out } = await following;
+        assert(ok, out);
+        assert(out.includes("#900 SYSTEM Maintenance") && !out.includes("#2 "), out);
+        assertEquals(received.map((n) => n.id), [900]);
+        assertEquals(JSON.parse(await Deno.readTextFile(hooked)).id, 900);
+        assertEquals(await run_json("set-notification-hook webhook none"), {});
+        await webhook.shutdown();
+
+        assert((await run("mark-all-read")).ok);
+        assertEquals((await run_json("notifications --unread")).notifications, []);
+    });
+
+    await t.step("view-user", async () => {
+        const json = await run_json("view-user alice");
+        assertEquals(json.profile.username, "alice");
+        assert(json.createdCoins.length > 0);
+        assert(!(await run("view-user nobody")).ok);
+    });
+
+    await t.step("me and settings", async () => {
+        assertEquals((await run_json("me")).username, "mock");
+        assert((await run("settings none none none Trading all day")).ok);
+        assertEquals((await run_json("me")).bio, "Trading all day");
+        assert((await run(`settings "Mock Trader Jr" none none "Trading,  all night"`)).ok);
+        const me = await run_json("me");
+        assertEquals({ name: me.name, username: me.username, bio: me.bio }, { name: "Mock Trader Jr", username: "mock", bio: "Trading,  all night" });
+        assertEquals(me.id, 1);
+        assertEquals(typeof me.baseCurrencyBalance, "number");
+        assert(!Number.isNaN(Date.parse(me.createdAt)));
+        assert((await run("me")).out.includes("Balance:"));
+    });
+
+    await t.step("new-coin", async () => {
+        const icon = path.join(home, "icon.png");
+        await Deno.writeFile(icon, new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+        const json = await run_json(`new-coin Testcoin TEST ${icon}`);
+        assertEquals(json.coin.symbol, "TEST");
+        assertEquals((await run_json("market 1 testcoin")).coins[0].symbol, "TEST");
+    });
+
+    await t.step("profiles", async () => {
+        assert((await run(`profile-add alt ${MOCK_COOKIE}`)).ok);
+        assertEquals((await run_json("profiles")).length, 2);
+        assert((await run("profile-use alt")).ok);
+        assert((await run("summary")).ok);
+        assert((await run("profile-use default")).ok);
+        assert((await run("profile-remove alt")).ok);
+        assert(!(await run("summary --profile alt")).ok);
+    });
+
+    await t.step("set-base-url", async () => {
+        assert((await run(`set-base-url ${server.url}`)).ok);
+        assert((await run("summary")).ok);
+        assert(!(await run("set-base-url not-a-url")).ok);
+    });
+
+    await t.step("set-passphrase and remove-passphrase", async () => {
+        const file = path.join(home, "rugplay_api_saves.json");
+        Deno.env.set("RUGPLAY_PASSPHRASE", "correct horse battery");
+        try {
+            assert((await run("set-passphrase")).ok);
+        } finally {
+            Deno.env.delete("RUGPLAY_PASSPHRASE");
+        }
+        const saved = await Deno.readTextFile(file);
+        assert(!saved.includes(MOCK_COOKIE), saved);
+        assertEquals(JSON.parse(saved).profiles.default.cookie, "");
+        if (Deno.build.os != "windows") {
+            assertEquals((await Deno.stat(file)).mode! & 0o777, 0o600);
+        }
+        assert((await run("summary")).ok);
+        assert((await run("remove-passphrase")).ok);
+        assertEquals(JSON.parse(await Deno.readTextFile(file)).profiles.default.cookie, MOCK_COOKIE);
+        assert(!(await run("remove-passphrase")).ok);
+    });
+
+    await t.step("plugins", async () => {
+        const listed = await run_json("commands");
+        assertEquals(listed.find((c: { name: string }) => c.name == "cash").plugin, "cash");
+        assertEquals(await run_json("cash"), { profile: "default", cash: (await run_json("summary")).baseCurrencyBalance });
+        const plugins = (await run_json("plugins")).plugins;
+        assertEquals(plugins.map((p: { name: string }) => p.name), ["broken", "cash"]);
+        assert(plugins[0].error != undefined);
+    });
+
+    await t.step("contacts and transfers", async () => {
+        assert((await run("contact-add ally alice")).ok);
+        assert(!(await run("contact-add ghost nobody")).ok);
+        assert(!(await run("contact-add @ally alice")).ok);
+        assertEquals(await run_json("contacts"), [{ alias: "ally", username: "alice" }]);
+
+        //? Tests have no terminal to confirm in
+        const unconfirmed = await run("transfer ally 50");
+        assert(!unconfirmed.ok);
+        assert(unconfirmed.out.includes("--yes"), unconfirmed.out);
+
+        const alice = (await run_json("view-user alice")).profile.baseCurrencyBalance;
+        const sent = await run_json("transfer ally 50 --yes");
+        assertEquals([sent.event, sent.recipient, sent.alias, sent.type, sent.amount], ["sent", "alice", "ally", "CASH", 50]);
+        assertEquals((await run_json("view-user alice")).profile.baseCurrencyBalance, alice + 50);
+        assert((await run("buy-coin DOGE2 10 --force")).ok);
+        const coins = await run_json("transfer @alice 5 DOGE2 --yes");
+        assertEquals([coins.type, coins.symbol, coins.response.coinSymbol], ["COIN", "DOGE2", "DOGE2"]);
+
+        assert(!(await run("transfer nobody 5 --yes")).ok);
+        assert(!(await run("transfer mock 5 --yes")).ok);
+        assert(!(await run("transfer ally all --yes")).ok);
+        assert(!(await run("transfer ally 5 NOPE --yes")).ok);
+
+        assert((await run("set-transfer-limit per-transfer 10")).ok);
+        const big = await run("transfer ally 50 --yes");
+        assert(!big.ok);
+        assert(big.out.includes("over your limit of $10 per transfer"), big.out);
+        assert((await run("set-transfer-limit per-transfer none")).ok);
+        assert((await run("set-transfer-limit daily 60")).ok);
+        assert(!(await run("transfer ally 20 --yes")).ok);
+        assert((await run("transfer ally 5 --yes")).ok);
+        assert(!(await run("set-transfer-limit daily lots")).ok);
+        assert((await run("set-transfer-limit daily 5000")).ok);
+
+        const log = await run_json("transfers");
+        assertEquals(log.map((e: { event: string }) => e.event), ["sent", "sent", "refused", "refused", "sent"]);
+        assert((await run("contact-remove ally")).ok);
+        assert(!(await run("contact-remove ally")).ok);
+    });
+
+    await t.step("snapshot and performance", async () => {
+        const first = await run_json("snapshot");
+        assertEquals([first.profile, first.flows], ["default", 0]);
+        const one = await run("performance");
+        assert(!one.ok);
+        assert(one.out.includes("take at least two"), one.out);
+
+        assert((await run("transfer @alice 10 --yes")).ok);
+        const second = await run_json("snapshot");
+        assertEquals(second.flows, -10);
+        assert(second.lastTransaction > first.lastTransaction);
+        const perf = await run_json("performance");
+        assertEquals([perf.snapshots, perf.netFlows, Math.round(perf.profit * 1000)], [2, -10, 0]);
+        assertEquals(Math.round(perf.timeWeightedReturn * 1000), 0);
+        assert((await run("performance --width 20 --height 4")).ok);
+        assert(!(await run("performance --from 2000-01-01 --to 2000-12-31")).ok);
+    });
+
+    await t.step("record and backtest", async () => {
+        assert(!(await run("record --dataset ../up --ticks 1")).ok);
+        const first = await run_json("record --dataset test --ticks 1");
+        assert(first.coins > 1);
+        const one = await run("backtest --dataset test");
+        assert(!one.ok);
+        assert(one.out.includes("save at least two"), one.out);
+
+        //? Moves a price so the second recording differs
+        assert((await run("buy-coin BTCR 200 --yes")).ok);
+        assert((await run("record --dataset test --ticks 2 --interval 0 --pages 1")).ok);
+        const report = await run_json("backtest --dataset test --top 2 --slippage 0");
+        assertEquals([report.strategy.strategy, report.benchmark.strategy, report.benchmark.trades], ["equal", "buy-and-hold", 2]);
+        assertEquals(report.strategy.curve.length, 3);
+        assert((await run("backtest --dataset test --strategy momentum --width 20 --height 4")).ok);
+
+        const module = path.join(home, "first_coin.ts");
+        await Deno.writeTextFile(module, `export default (ctx) => ctx.step == 0 ? [{ type: "BUY", symbol: ctx.frame.coins[0].symbol, amount: 100 }] : [];`);
+        const custom = await run_json(`backtest --dataset test --strategy ${module}`);
+        assertEquals([custom.strategy.trades, custom.strategy.cash], [1, 900]);
+        assert(!(await run("backtest --dataset test --strategy yolo")).ok);
+    });
+
+    await t.step("daemon", async () => {
+        assert(!(await run("daemon --once")).ok);
+        assert(!(await run(`daemon-add bad "every 0s" summary`)).ok);
+        assert(!(await run(`daemon-add loop "every 1h" daemon`)).ok);
+        for (const endless of ["dashboard", "serve", "watch", "watch --interval 5 --json", "record --dataset x", "notifications --follow --json"]) {
+            const refused = await run(`daemon-add endless "every 1h" -- ${endless}`);
+            assert(!refused.ok && /can't be run by the daemon|give it --ticks/.test(refused.out), refused.out);
+        }
+        assert((await run(`daemon-add orders "every 1h" -- watch --ticks 1`)).ok);
+        assert((await run("daemon-remove orders")).ok);
+        assert((await run(`daemon-add market "every 1h" -- record --dataset x --ticks 1`)).ok);
+        assert((await run("daemon-remove market")).ok);
+        assert(!(await run(`daemon-add typo "every 1h" sumary`)).ok);
+        assert((await run(`daemon-add cash "every 1h" summary`)).ok);
+        assert((await run("daemon-add reward reward daily-reward")).ok);
+        assert((await run(`daemon-add bio "0 9 * * 1-5" settings none none none "Trading, daily"`)).ok);
+        const tasks = await run_json("daemon-tasks");
+        assertEquals(tasks.map((t: { name: string }) => t.name), ["cash", "reward", "bio"]);
+        assertEquals(tasks[2].command, `settings none none none "Trading, daily"`);
+
+        //? Only the interval task is due right away, the reward was claimed earlier and the cron task waits for 9am
+        assert((await run("daemon --once")).ok);
+        const log = path.join(home, "rugplay_api", "daemon.log.ndjson");
+        const entries = (await Deno.readTextFile(log)).trim().split("\n").map((l) => JSON.parse(l));
+        assertEquals(entries.map((e) => `${e.event} ${e.task ?? ""}`.trim()), ["started", "ran cash", "stopped"]);
+        assert(entries[1].output.some((l: string) => l.includes("Balance")), entries[1].output);
+
+        //? A daemon that's alive keeps a second one off the profile, a stale lock is taken over
+        const lock = path.join(home, "rugplay_api", "daemon-default.lock");
+        const held = { pid: 1, profile: "default", started: new Date().toISOString(), heartbeat: new Date().toISOString() };
+        await Deno.writeTextFile(lock, JSON.stringify(held));
+        const locked = await run("daemon --once");
+        assert(!locked.ok);
+        assert(locked.out.includes("already running"), locked.out);
+        await Deno.writeTextFile(lock, JSON.stringify({ ...held, heartbeat: new Date(Date.now() - 3_600_000).toISOString() }));
+        assert((await run("daemon --once")).ok);
+        assert(!(await Deno.stat(lock).then(() => true, () => false)));
+
+        for (const name of ["cash", "reward", "bio"]) {
+            assert((await run(`daemon-remove ${name}`)).ok);
+        }
+        assert(!(await run("daemon-remove cash")).ok);
+    });
+
+    await t.step("serve", async () => {
+        Deno.env.set("RUGPLAY_SERVE_TOKEN", "serve-token");
+        const free = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+        const port = (free.addr as Deno.NetAddr).port;
+        free.close();
+        for (const unsafe of ["set-cookie", "set-spend-cap", "set-notification-hook", "daemon-add", "export-transactions", "watch", "record", "backtest"]) {
+            assert(!(await run(`serve --allow ${unsafe}`)).ok, unsafe);
+        }
+        //? The server is listening by the time run() returns, and stops by itself after the 10 requests below
+        const serving = run(`serve --port ${port} --allow summary,coin,buy-coin,notifications --max-requests 10`);
+        // deno-lint-ignore no-explicit-any
+        const call = async (path: string, body?: unknown, token = "serve-token"): Promise<{ status: number; json: any }> => {
+            const res = await fetch(`http://127.0.0.1:${port}${path}`, {
+                method: body == undefined ? "GET" : "POST",
+                headers: { Authorization: `Bearer ${token}` },
+                body: body == undefined ? undefined : JSON.stringify(body),
+            });
+            return { status: res.status, json: await res.json() };
+        };
+        assertEquals((await call("/commands", undefined, "wrong")).status, 401);
+        assertEquals((await call("/commands")).json.map((c: { name: string }) => c.name), ["summary", "notifications", "coin", "buy-coin"]);
+        const summary = await call("/commands/summary", {});
+        assertEquals(summary.status, 200);
+        assertEquals(typeof summary.json.result.baseCurrencyBalance, "number");
+        //? Nobody can confirm over HTTP, so bigger trades need --yes like in scripts
+        const unconfirmed = await call("/commands/buy-coin", { args: ["BTCR", 150] });
+        assertEquals(unconfirmed.status, 422);
+        assert(unconfirmed.json.result.message.includes("--yes"), unconfirmed.json.result.message);
+        const bought = await call("/rpc", { jsonrpc: "2.0", id: 1, method: "buy-coin", params: { args: ["BTCR", 5], options: { yes: true } } });
+        assert(bought.json.result.coinsBought > 0, JSON.stringify(bought.json));
+        const batch = await call("/rpc", [
+            { jsonrpc: "2.0", id: 2, method: "set-cookie", params: ["stolen"] },
+            { jsonrpc: "2.0", id: 3, method: "coin", params: ["BTCR", "--timeframe", "2y"] },
+        ]);
+        assertEquals(batch.json.map((a: { error: { code: number } }) => a.error.code), [-32601, -32602]);
+        assertEquals((await call("/commands/set-cookie", ["stolen"])).status, 404);
+        assertEquals((await call("/commands/set-spend-cap", ["buy-coin", "none"])).status, 404);
+        //? Options that reach other accounts, run commands or never finish are refused however they're passed
+        assertEquals((await call("/commands/summary", ["--profile", "default"])).status, 400);
+        assertEquals((await call("/commands/notifications", { options: { follow: true, exec: "touch hacked" } })).status, 400);
+        const { ok, out } = await serving;
+        assert(ok, out);
+        assert(out.includes(`on http://127.0.0.1:${port}`) && out.includes("POST /rpc 200"), out);
+
+        const log = (await Deno.readTextFile(path.join(home, "rugplay_api", "serve.log.ndjson"))).trim().split("\n").map((l) => JSON.parse(l));
+        assertEquals(log.map((e) => e.status), [401, 200, 200, 422, 200, 200, 404, 404, 400, 400]);
+        assertEquals(log[4].command, "buy-coin");
+        assertEquals((await run_json("journal 1"))[0].source, "buy-coin");
+        Deno.env.delete("RUGPLAY_SERVE_TOKEN");
+    });
+
+    await t.step("set-cookie", async () => {
+        const bad = await run("set-cookie nope");
+        assert(!bad.ok);
+        assert(bad.out.includes("Rugplay didn't accept that cookie"), bad.out);
+        assert((await run("summary")).ok);
+        assert((await run("set-cookie nope --no-verify")).ok);
+        const expired = await run("summary");
+        assert(!expired.ok);
+        assert(expired.out.includes("Your session expired"), expired.out);
+        assertEquals((await run_json(`set-cookie ${MOCK_COOKIE}`)).username, "mock");
+        assert((await run("summary")).ok);
+    });
+
+    await t.step("every command was exercised", () => {
+        assertEquals([...commands.keys()].filter((c) => !ran.has(c)), []);
+    });
+
+    await server.shutdown();
+});
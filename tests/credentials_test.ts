@@ -0,0 +1,22 @@
+import { assertEquals, assertNotEquals, assertThrows } from "@std/assert";
+import { derive_key, new_vault, redact, seal, unseal } from "../src/credentials.ts";
+import { WrongPassphraseError } from "../src/errors.ts";
+
+Deno.test("seal and unseal round trip with the right passphrase only", () => {
+    //? Fewer iterations than the real thing so the test stays quick
+    const vault = { ...new_vault(), iterations: 1000 };
+    const key = derive_key("correct horse battery", vault);
+    const sealed = seal(key, "session=abc123; theme=dark");
+    assertNotEquals(sealed.data, "session=abc123; theme=dark");
+    assertNotEquals(seal(key, "session=abc123; theme=dark").iv, sealed.iv);
+    assertEquals(unseal(derive_key("correct horse battery", vault), sealed), "session=abc123; theme=dark");
+    assertThrows(() => unseal(derive_key("wrong horse battery", vault), sealed), WrongPassphraseError);
+    assertThrows(() => unseal(derive_key("correct horse battery", { ...vault, salt: new_vault().salt }), sealed), WrongPassphraseError);
+});
+
+Deno.test("redact hides whole cookies and their long values", () => {
+    const cookie = "__Secure-better-auth.session_token=Zm9vYmFyYmF6.c2lnbmF0dXJl; theme=dark";
+    assertEquals(redact(`Cookie: ${cookie}`, [cookie]), "Cookie: [redacted]");
+    assertEquals(redact("bad token Zm9vYmFyYmF6.c2lnbmF0dXJl for dark mode", [cookie]), "bad token [redacted] for dark mode");
+    assertEquals(redact("nothing to see", ["unknown", ""]), "nothing to see");
+});
@@ -0,0 +1,191 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import {
+    acquire_lock,
+    type DaemonLogEntry,
+    type DaemonTask,
+    lock_path,
+    next_cron,
+    parse_cron,
+    parse_duration,
+    parse_schedule,
+    release_lock,
+    run_daemon,
+} from "../src/daemon.ts";
+
+const MINUTE = 60_000, HOUR = 60 * MINUTE;
+
+Deno.test("parse_duration", () => {
+    assertEquals(parse_duration("30s"), 30_000);
+    assertEquals(parse_duration("1h30m"), 90 * MINUTE);
+    assertEquals(parse_duration("1.5d"), 36 * HOUR);
+    assertThrows(() => parse_duration("10"), Error, "isn't a duration");
+    assertThrows(() => parse_duration("10 minutes"), Error, "isn't a duration");
+    assertThrows(() => parse_duration("0s"), Error, "too short");
+});
+
+Deno.test("next_cron", () => {
+    const at = (expr: string, from: Date) => next_cron(parse_cron(expr), from);
+    //? Local time, since that's what cron expressions mean
+    const from = new Date(2025, 0, 15, 10, 20, 30);
+    assertEquals(at("* * * * *", from), new Date(2025, 0, 15, 10, 21));
+    assertEquals(at("*/15 * * * *", from), new Date(2025, 0, 15, 10, 30));
+    assertEquals(at("@hourly", from), new Date(2025, 0, 15, 11, 0));
+    assertEquals(at("0 9 * * 1-5", new Date(2025, 0, 17, 12, 0)), new Date(2025, 0, 20, 9, 0));
+    assertEquals(at("0 0 1 3 *", from), new Date(2025, 2, 1, 0, 0));
+    assertEquals(at("30 8 * * 7", from), new Date(2025, 0, 19, 8, 30));
+    //? With both day fields restricted either one matching is enough
+    assertEquals(at("0 0 20 * 5", from), new Date(2025, 0, 17, 0, 0));
+    assertEquals(at("0 0 29 2 *", from), new Date(2028, 1, 29, 0, 0));
+
+    assertThrows(() => parse_cron("* * * *"), Error, "isn't a schedule");
+    assertThrows(() => parse_cron("60 * * * *"), Error, "out of range");
+    assertThrows(() => parse_cron("a * * * *"), Error, "Invalid minute");
+});
+
+Deno.test("parse_schedule", () => {
+    assertEquals(parse_schedule("every 10m"), { kind: "every", ms: 10 * MINUTE });
+    assertEquals(parse_schedule("Reward"), { kind: "reward" });
+    assertEquals(parse_schedule("@daily").kind, "cron");
+    assertThrows(() => parse_schedule("0 0 31 2 *"), Error, "never matches");
+    assertThrows(() => parse_schedule("sometimes"), Error, "isn't a schedule");
+});
+
+//? A fake clock where sleeping just moves time forward
+function harness(tasks: DaemonTask[], run: (task: DaemonTask, now: number) => boolean, reward_at = () => 0) {
+    let now = 0;
+    const runs: string[] = [];
+    const log: Omit<DaemonLogEntry, "time" | "profile">[] = [];
+    return {
+        runs,
+        log,
+        start: (until: number, once = false) => run_daemon({
+            tasks,
+            once,
+            run: async (task) => {
+                runs.push(`${task.name}@${now / MINUTE}`);
+                return await Promise.resolve({ ok: run(task, now), output: [`ran ${task.name}`] });
+            },
+            reward_at: async () => await Promise.resolve(reward_at()),
+            log: (entry) => log.push(entry),
+            now: () => now,
+            sleep: async (ms) => {
+                now += ms;
+                await Promise.resolve();
+            },
+            stop: () => now >= until,
+        }),
+    };
+}
+
+Deno.test("run_daemon", async (t) => {
+    await t.step("runs tasks on their schedules", async () => {
+        const h = harness([
+            { name: "cash", schedule: "every 30m", command: "summary" },
+            { name: "quarter", schedule: "*/15 * * * *", command: "notifications" },
+        ], () => true);
+        await h.start(HOUR);
+        assertEquals(h.runs.filter((r) => r.startsWith("cash")), ["cash@0", "cash@30"]);
+        assert(h.runs.filter((r) => r.startsWith("quarter")).length >= 3, h.runs.join());
+        assertEquals(h.log[0].event, "started");
+        assertEquals(h.log.at(-1)?.event, "stopped");
+    });
+
+    await t.step("retries failed tasks with backoff and recovers", async () => {
+        let calls = 0;
+        const h = harness([{ name: "flaky", schedule: "every 1h", command: "summary" }], () => ++calls > 3);
+        await h.start(2 * HOUR);
+        //? Retried after 1, 2 and 4 minutes, then back on the hourly schedule
+        assertEquals(h.runs, ["flaky@0", "flaky@1", "flaky@3", "flaky@7", "flaky@67"]);
+        assertEquals(h.log.filter((e) => e.event == "failed").length, 3);
+        assertEquals(h.log.find((e) => e.event == "failed")?.error, "ran flaky");
+    });
+
+    await t.step("a throwing task doesn't stop the others", async () => {
+        const h = harness([
+            { name: "boom", schedule: "every 10m", command: "x" },
+            { name: "fine", schedule: "every 10m", command: "y" },
+        ], (task) => {
+            if (task.name == "boom") {
+                throw new Error("network down");
+            }
+            return true;
+        });
+        await h.start(20 * MINUTE);
+        assertEquals(h.runs.filter((r) => r.startsWith("fine")), ["fine@0", "fine@10"]);
+        assertEquals(h.log.find((e) => e.event == "failed")?.error, "network down");
+    });
+
+    await t.step("claims the reward as soon as the cooldown is over", async () => {
+        let claimable = 90 * MINUTE;
+        const h = harness([{ name: "reward", schedule: "reward", command: "daily-reward" }], (_task, now) => {
+            claimable = now + 24 * HOUR;
+            return true;
+        }, () => claimable);
+        await h.start(26 * HOUR);
+        assertEquals(h.runs, ["reward@90", `reward@${90 + 24 * 60}`]);
+    });
+
+    await t.step("logs when a failed task really runs again", async () => {
+        let claimable = 90 * MINUTE;
+        const h = harness([{ name: "reward", schedule: "reward", command: "daily-reward" }], (_task, now) => {
+            //? Claimed after all, but the command failed afterwards
+            claimable = now + 24 * HOUR;
+            return false;
+        }, () => claimable);
+        await h.start(2 * HOUR);
+        assertEquals(h.log.find((e) => e.event == "failed")?.next, new Date((90 + 24 * 60) * MINUTE).toISOString());
+    });
+
+    await t.step("keeps the lock alive while a task runs", async () => {
+        let beats = 0;
+        await run_daemon({
+            tasks: [{ name: "slow", schedule: "every 1h", command: "watch --ticks 100" }],
+            once: true,
+            run: async () => {
+                await new Promise((resolve) => setTimeout(resolve, 100));
+                return { ok: true, output: [] };
+            },
+            reward_at: async () => await Promise.resolve(0),
+            log: () => {},
+            heartbeat: () => beats++,
+            heartbeat_ms: 20,
+        });
+        assert(beats >= 3, `${beats}`);
+    });
+
+    await t.step("once only runs what's due right away", async () => {
+        const h = harness([
+            { name: "now", schedule: "every 1h", command: "summary" },
+            { name: "later", schedule: "reward", command: "daily-reward" },
+        ], () => true, () => HOUR);
+        await h.start(Infinity, true);
+        assertEquals(h.runs, ["now@0"]);
+    });
+});
+
+Deno.test("daemon lock", async () => {
+    //? The lock lives in the data directory, so point HOME somewhere disposable for a moment
+    const previous = Deno.env.get("HOME");
+    const home = await Deno.makeTempDir();
+    Deno.env.set("HOME", home);
+    try {
+        const lock = acquire_lock("main");
+        assertThrows(() => acquire_lock("main"), Error, "already running");
+        //? Other profiles have their own lock
+        release_lock(acquire_lock("alt"));
+
+        //? A lock that hasn't been touched for a while is taken over, and the old daemon can't release the new one's
+        const later = acquire_lock("main", Date.now() + 10 * MINUTE);
+        release_lock(lock);
+        assert(await Deno.stat(lock_path("main")).then(() => true));
+        release_lock(later);
+        assert(!(await Deno.stat(lock_path("main")).then(() => true, () => false)));
+    } finally {
+        if (previous == undefined) {
+            Deno.env.delete("HOME");
+        } else {
+            Deno.env.set("HOME", previous);
+        }
+        await Deno.remove(home, { recursive: true });
+    }
+});
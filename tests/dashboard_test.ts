@@ -0,0 +1,77 @@
+import { assert, assertEquals } from "@std/assert";
+import chalk from "chalk";
+import { apply_data, type DashboardData, handle_key, market_query, new_dashboard, parse_keys, render_dashboard } from "../src/dashboard.ts";
+import type { MarketCoin } from "../src/types.ts";
+
+//? So the screen can be searched for text
+chalk.level = 0;
+
+function coin(symbol: string, currentPrice: number, marketCap: number): MarketCoin {
+    return { symbol, name: symbol, currentPrice, marketCap, change24h: 0, creatorName: "test" };
+}
+
+function data(price: number): DashboardData {
+    return {
+        market: [coin("AAA", price, price * 1000), coin("BBB", 1, 500)],
+        watchlist: [coin("BBB", 1, 500)],
+        gainers: [],
+        losers: [],
+        holdings: [{ symbol: "AAA", quantity: 5, currentPrice: price, value: 5 * price, change24h: 0, percentageChange: 0 }],
+        balance: 100,
+        updated: new Date(0),
+    };
+}
+
+Deno.test("parse_keys", () => {
+    assertEquals(parse_keys(new TextEncoder().encode("\x1b[A\x1b[Bq\r\t\x7f\x03\x1b")), ["up", "down", "q", "enter", "tab", "backspace", "ctrl-c", "esc"]);
+});
+
+Deno.test("navigation and sorting", () => {
+    const state = new_dashboard([], 5);
+    apply_data(state, data(2));
+    handle_key(state, "down");
+    handle_key(state, "down");
+    assertEquals(state.selected, 1);
+    handle_key(state, "tab");
+    assertEquals([state.section, state.selected], ["watchlist", 0]);
+    handle_key(state, "enter");
+    assertEquals(state.detail, "BBB");
+    assertEquals(handle_key(state, "w"), { type: "watch", symbol: "BBB" });
+    handle_key(state, "esc");
+    assertEquals(state.detail, undefined);
+    assertEquals(handle_key(state, "o"), { type: "refresh" });
+    handle_key(state, "f");
+    assertEquals(market_query(state), { sortBy: "currentPrice", sortOrder: "desc", priceFilter: "all", changeFilter: "gainers", limit: 5 });
+    assertEquals(handle_key(state, "q"), { type: "quit" });
+});
+
+Deno.test("trades need an amount and a confirmation", () => {
+    const state = new_dashboard([]);
+    apply_data(state, data(2));
+    handle_key(state, "b");
+    for (const k of "12x") {
+        handle_key(state, k);
+    }
+    handle_key(state, "backspace");
+    handle_key(state, "enter");
+    assertEquals(state.confirm, { side: "BUY", symbol: "AAA", amount: "12" });
+    assertEquals(handle_key(state, "y"), { type: "trade", side: "BUY", symbol: "AAA", amount: "12" });
+
+    for (const k of ["s", "a", "l", "l", "enter"]) {
+        handle_key(state, k);
+    }
+    assertEquals(state.confirm?.amount, "5");
+    assertEquals(handle_key(state, "n"), undefined);
+    assertEquals(state.message, ["Cancelled."]);
+});
+
+Deno.test("render_dashboard shows deltas between refreshes", () => {
+    const state = new_dashboard(["BBB"]);
+    apply_data(state, data(2));
+    apply_data(state, data(3));
+    const screen = render_dashboard(state, 40).join("\n");
+    assert(screen.includes("Δ +50%"), screen);
+    assert(screen.includes("Δ +1000"), screen);
+    assert(screen.includes("Holdings ($100 cash)"), screen);
+    assertEquals(render_dashboard(state, 5).length, 5);
+});
@@ -0,0 +1,80 @@
+import { assert, assertAlmostEquals, assertEquals } from "@std/assert";
+import {
+    type Bettor,
+    expected_return,
+    kelly_fraction,
+    make_strategy,
+    run_session,
+    type SessionOptions,
+    simulate,
+} from "../src/gambling.ts";
+
+/** A bettor that wins or loses by a fixed script, paying double on a win. */
+function scripted(outcomes: boolean[], start: number): Bettor {
+    let balance = start;
+    return (_game, _side, amount) => {
+        const won = outcomes.shift() ?? false;
+        const payout = won ? amount * 2 : 0;
+        balance += payout - amount;
+        return Promise.resolve({ won, payout, newBalance: balance });
+    };
+}
+
+function options(strategy: string, extra: Partial<SessionOptions> = {}): SessionOptions {
+    return {
+        game: "coinflip",
+        side: "heads",
+        strategy: make_strategy(strategy as "flat"),
+        base: 10,
+        maxRounds: 10,
+        ...extra,
+    };
+}
+
+Deno.test("expected return and kelly", () => {
+    assertEquals(expected_return("coinflip"), 1);
+    assertAlmostEquals(expected_return("slots"), 5 / 36 + 2 * 90 / 216);
+    assertEquals(kelly_fraction("coinflip"), 0);
+    assert(kelly_fraction("slots") < 0);
+});
+
+Deno.test("martingale doubles after losses", async () => {
+    const res = await run_session(options("martingale", { maxRounds: 4 }), scripted([false, false, true, false], 1000), 1000);
+    assertEquals(res.rounds.map((r) => r.bet), [10, 20, 40, 10]);
+    assertEquals(res.net, 0);
+    assertEquals(res.stopReason, "max rounds");
+    assertEquals(res.maxDrawdown, 30);
+});
+
+Deno.test("anti-martingale doubles after wins", async () => {
+    const res = await run_session(options("anti-martingale", { maxRounds: 4 }), scripted([true, true, false, true], 1000), 1000);
+    assertEquals(res.rounds.map((r) => r.bet), [10, 20, 40, 10]);
+});
+
+Deno.test("stop loss caps the bet and ends the session", async () => {
+    const res = await run_session(options("martingale", { stopLoss: 50 }), scripted([], 1000), 1000);
+    assertEquals(res.rounds.map((r) => r.bet), [10, 20, 20]);
+    assertEquals(res.endBalance, 950);
+    assertEquals(res.stopReason, "stop loss");
+});
+
+Deno.test("take profit and max bet", async () => {
+    const res = await run_session(options("anti-martingale", { takeProfit: 45, maxBet: 15 }), scripted([true, true, true, true], 1000), 1000);
+    assertEquals(res.rounds.map((r) => r.bet), [10, 15, 15, 15]);
+    assertEquals(res.stopReason, "take profit");
+});
+
+Deno.test("stops when the balance runs out", async () => {
+    const res = await run_session(options("flat"), scripted([], 25), 25);
+    assertEquals(res.rounds.length, 2);
+    assertEquals(res.stopReason, "insufficient balance");
+});
+
+Deno.test("simulations are reproducible", async () => {
+    const opts = options("kelly", { game: "slots", strategy: make_strategy("kelly", 0.05), maxRounds: 50 });
+    const a = await simulate(opts, 1000, 7, 100);
+    const b = await simulate(opts, 1000, 7, 100);
+    assertEquals(a, b);
+    assertEquals(a.runs, 100);
+    assert(a.meanNet < 0);
+});
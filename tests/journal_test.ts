@@ -0,0 +1,39 @@
+import { assertAlmostEquals, assertEquals } from "@std/assert";
+import { compute_pnl, type JournalEntry } from "../src/journal.ts";
+
+function entry(e: Partial<JournalEntry>): JournalEntry {
+    return { time: "2025-06-01T10:00:00.000Z", profile: "default", action: "BUY", source: "test", amount: 0, value: 0, balance: 0, ...e };
+}
+
+Deno.test("compute_pnl uses average cost for realized and unrealized P&L", () => {
+    const report = compute_pnl([
+        entry({ action: "BUY", symbol: "RUG", amount: 100, coins: 10, value: 100 }),
+        entry({ action: "BUY", symbol: "RUG", amount: 200, coins: 10, value: 200 }),
+        entry({ action: "SELL", symbol: "RUG", amount: 10, coins: 10, value: 250 }),
+    ], { RUG: 20 });
+    const rug = report.coins[0];
+    assertEquals(rug.held, 10);
+    assertAlmostEquals(rug.costBasis, 150);
+    assertAlmostEquals(rug.realized, 100);
+    assertAlmostEquals(rug.unrealized, 50);
+    assertEquals(report.tradeWinRate, 1);
+});
+
+Deno.test("compute_pnl treats coins held before the journal as free", () => {
+    const report = compute_pnl([entry({ action: "SELL", symbol: "MOON", amount: 5, coins: 5, value: 40 })], {});
+    assertAlmostEquals(report.realized, 40);
+    assertEquals(report.coins[0].held, 0);
+});
+
+Deno.test("compute_pnl groups gambling by game and day", () => {
+    const report = compute_pnl([
+        entry({ action: "COINFLIP", amount: 10, value: 20, won: true }),
+        entry({ action: "COINFLIP", amount: 10, value: 0, won: false, time: "2025-06-02T10:00:00.000Z" }),
+        entry({ action: "SLOTS", amount: 5, value: 0, won: false }),
+    ], {});
+    assertEquals(report.games.map((g) => [g.game, g.bets, g.net]), [["coinflip", 2, 0], ["slots", 1, -5]]);
+    assertEquals(report.days.map((d) => `${d.day} ${d.game}`), ["2025-06-01 coinflip", "2025-06-02 coinflip", "2025-06-01 slots"]);
+    assertAlmostEquals(report.gambling, -5);
+    assertAlmostEquals(report.betWinRate as number, 1 / 3);
+    assertEquals(report.tradeWinRate, undefined);
+});
@@ -0,0 +1,83 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import * as path from "@std/path";
+import { RugplayClient } from "../src/client.ts";
+import { all_notifications, check_webhook, filter_notifications, post_webhook, run_hook, shell_command } from "../src/notifications.ts";
+import type { Notification } from "../src/types.ts";
+import { start_mock_server } from "../mock/server.ts";
+import { MOCK_COOKIE } from "../mock/state.ts";
+
+const notification: Notification = { id: 7, type: "TRANSFER", title: "Money received", message: "bob sent you $5", isRead: false };
+
+Deno.test("all_notifications pages through every notification, markNotificationsRead marks them read", async () => {
+    const server = start_mock_server();
+    const client = new RugplayClient(MOCK_COOKIE, { baseUrl: server.url, rateLimit: 0 });
+    const before = server.state.requests;
+    assertEquals((await all_notifications(client, 1)).map((n) => n.id), [2, 1]);
+    //? A full page, another full page, then an empty one
+    assertEquals(server.state.requests - before, 3);
+    assertEquals((await client.notifications(1, 1)).notifications.map((n) => n.id), [1]);
+
+    await client.markNotificationsRead([2]);
+    assertEquals((await client.notifications()).unreadCount, 0);
+    server.state.notifications.push({ ...notification, id: 100, userId: 1, createdAt: server.state.clock });
+    server.state.notifications.push({ ...notification, id: 101, userId: 2, createdAt: server.state.clock });
+    assertEquals((await client.notifications()).unreadCount, 1);
+    await client.markNotificationsRead();
+    assertEquals((await client.notifications()).unreadCount, 0);
+    assert(!server.state.notifications.find((n) => n.id == 101)!.isRead);
+    await server.shutdown();
+});
+
+Deno.test("filter_notifications", () => {
+    const list: Notification[] = [
+        notification,
+        { ...notification, id: 6, isRead: true },
+        { ...notification, id: 5, type: "system" },
+    ];
+    assertEquals(filter_notifications(list, { types: [], unread: false }).map((n) => n.id), [7, 6, 5]);
+    assertEquals(filter_notifications(list, { types: ["TRANSFER"], unread: false }).map((n) => n.id), [7, 6]);
+    assertEquals(filter_notifications(list, { types: ["SYSTEM", "TRANSFER"], unread: true }).map((n) => n.id), [7, 5]);
+});
+
+Deno.test("check_webhook only takes local http URLs", () => {
+    assertEquals(check_webhook("http://localhost:8080/hook").port, "8080");
+    check_webhook("https://127.0.0.1/hook");
+    check_webhook("http://[::1]:9000");
+    assertThrows(() => check_webhook("http://example.com/hook"), Error, "on this machine");
+    assertThrows(() => check_webhook("ftp://localhost/hook"), Error, "http or https");
+    assertThrows(() => check_webhook("localhost"), Error, "isn't a URL");
+});
+
+Deno.test("post_webhook sends the notification as JSON", async () => {
+    const received: unknown[] = [];
+    let status = 204;
+    const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, async (req) => {
+        received.push(await req.json());
+        return new Response(null, { status });
+    });
+    const url = `http://127.0.0.1:${server.addr.port}/hook`;
+    await post_webhook(url, notification);
+    assertEquals(received, [notification]);
+    status = 500;
+    await assertRejects(() => post_webhook(url, notification), Error, "answered with 500");
+    await server.shutdown();
+});
+
+Deno.test("shell_command", () => {
+    assertEquals(shell_command("echo hi", "linux"), ["sh", ["-c", "echo hi"]]);
+    assertEquals(shell_command("echo hi", "darwin"), ["sh", ["-c", "echo hi"]]);
+    assertEquals(shell_command("echo hi", "windows"), ["cmd", ["/c", "echo hi"]]);
+});
+
+Deno.test("run_hook pipes the notification into a command", async () => {
+    const dir = await Deno.makeTempDir();
+    const out = path.join(dir, "out");
+    await run_hook(`cat > '${out}'; echo "$RUGPLAY_NOTIFICATION_ID $RUGPLAY_NOTIFICATION_TYPE" >> '${out}'`, notification);
+    const [json, env] = (await Deno.readTextFile(out)).trim().split("\n");
+    assertEquals(JSON.parse(json), notification);
+    assertEquals(env, "7 TRANSFER");
+    await assertRejects(() => run_hook("echo broken >&2; exit 3", notification), Error, "exited with 3: broken");
+    //? Hooks don't have to read what they're given
+    await run_hook("true", notification);
+    await Deno.remove(dir, { recursive: true });
+});
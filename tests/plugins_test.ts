@@ -0,0 +1,66 @@
+import { assert, assertEquals } from "@std/assert";
+import * as path from "@std/path";
+import { type Command, load_plugins } from "../src/plugins.ts";
+import { RugplayClient } from "../src/client.ts";
+import { defaultConfig } from "../src/config.ts";
+import { is_text, render } from "../src/output.ts";
+
+const context = {
+    client: new RugplayClient("unknown"),
+    config: defaultConfig(),
+    profile: () => "default",
+    save_config: () => {},
+    render,
+    is_text,
+};
+
+const builtin: Command = { desc: "built in", args: [], callback: async () => {} };
+
+Deno.test("load_plugins", async (t) => {
+    const dir = await Deno.makeTempDir();
+    const write = (name: string, text: string) => Deno.writeTextFile(path.join(dir, name), text);
+    await write("greet.ts", `
+        export default function (ctx) {
+            ctx.register("greet", { desc: "says hi", args: [{ name: "who" }], callback: async (args) => console.log("hi " + args.who + " from " + ctx.profile()) });
+            ctx.register("wave", { desc: "waves", args: [], callback: async () => {} });
+        }
+    `);
+    await write("async.js", `export default async (ctx) => { await Promise.resolve(); ctx.register("later", { desc: "", args: [], callback: async () => {} }); };`);
+    await write("broken.ts", "export default function (ctx { }");
+    await write("throws.ts", `export default () => { throw new Error("no config for me"); };`);
+    await write("partial.ts", `
+        export default (ctx) => {
+            ctx.register("partial-ok", { desc: "", args: [], callback: async () => {} });
+            ctx.register("summary", { desc: "", args: [], callback: async () => {} });
+        };
+    `);
+    await write("nodefault.ts", "export const x = 1;");
+    await write("notes.md", "not a plugin");
+
+    const commands = new Map<string, Command>([["summary", builtin]]);
+    const loaded = await load_plugins(dir, commands, context);
+
+    await t.step("registers the commands of working plugins", () => {
+        assertEquals(loaded.map((p) => p.name), ["async", "broken", "greet", "nodefault", "partial", "throws"]);
+        assertEquals(loaded.find((p) => p.name == "greet")?.commands, ["greet", "wave"]);
+        assertEquals(commands.get("greet")?.plugin, "greet");
+        assert(commands.has("later"));
+        assertEquals(commands.get("summary"), builtin);
+    });
+
+    await t.step("skips broken plugins as a whole", () => {
+        const errors = Object.fromEntries(loaded.map((p) => [p.name, p.error]));
+        assert(errors.broken != undefined);
+        assertEquals(errors.throws, "no config for me");
+        assertEquals(errors.nodefault, "it has no default export setting it up");
+        assertEquals(errors.partial, `the command "summary" already exists`);
+        assert(!commands.has("partial-ok"));
+        assertEquals([...commands.keys()].sort(), ["greet", "later", "summary", "wave"]);
+    });
+
+    await t.step("a missing directory means no plugins", async () => {
+        assertEquals(await load_plugins(path.join(dir, "nope"), commands, context), []);
+    });
+
+    await Deno.remove(dir, { recursive: true });
+});
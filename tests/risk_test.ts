@@ -0,0 +1,64 @@
+import { assert, assertEquals } from "@std/assert";
+import { risk_level, score_risk } from "../src/risk.ts";
+import type { CoinDetails, HoldersResponse, UserResponse } from "../src/types.ts";
+
+const now = Date.UTC(2025, 5, 10);
+
+function coin(extra: Partial<CoinDetails> = {}): CoinDetails {
+    return {
+        id: 2, symbol: "TEST", name: "Test", currentPrice: 1, marketCap: 1_000_000, change24h: 0,
+        creatorId: 7, creatorName: "Creator", creatorUsername: "creator",
+        poolCoinAmount: 100_000, poolBaseCurrencyAmount: 100_000, circulatingSupply: 1_000_000,
+        createdAt: new Date(now - 30 * 86_400_000).toISOString(),
+        ...extra,
+    };
+}
+
+function holders(...shares: [number, number][]): HoldersResponse {
+    return {
+        coinSymbol: "TEST",
+        totalHolders: shares.length,
+        circulatingSupply: 1_000_000,
+        poolInfo: { currentPrice: 1, baseCurrencyLiquidity: 100_000, coinLiquidity: 100_000 },
+        holders: shares.map(([userId, percentage], i) => ({
+            rank: i + 1, userId, username: `user${userId}`, name: `User ${userId}`,
+            quantity: percentage * 10_000, percentage, liquidationValue: 0,
+        })),
+    };
+}
+
+function creator(coinsCreated: number, dumps: number): UserResponse {
+    return {
+        profile: { id: 7, name: "Creator", username: "creator", bio: null, baseCurrencyBalance: 0, isAdmin: false },
+        stats: { totalPortfolioValue: 0, holdingsValue: 0, coinsCreated, totalBuyVolume: 0, totalSellVolume: 0 },
+        createdCoins: [{ symbol: "TEST", name: "Test", currentPrice: 1, marketCap: 1, change24h: 0 }],
+        recentTransactions: Array.from({ length: dumps }, () => ({ type: "SELL" as const, coinSymbol: "TEST", coinName: "Test", quantity: 1, totalBaseCurrencyAmount: 1 })),
+    };
+}
+
+Deno.test("a well spread, deep, old coin is low risk", () => {
+    const report = score_risk({ coin: coin(), holders: holders([1, 2], [2, 2], [3, 1]), creator: creator(1, 0), now });
+    assertEquals(report.factors.map((f) => f.score), [0, 0, 0, 0, 0]);
+    assertEquals(report.level, "low");
+});
+
+Deno.test("a creator sitting on the supply of a brand new coin is extreme risk", () => {
+    const report = score_risk({
+        coin: coin({ createdAt: new Date(now - 600_000).toISOString(), poolBaseCurrencyAmount: 100 }),
+        holders: holders([7, 60], [1, 20], [2, 10]),
+        creator: creator(5, 2),
+        now,
+    });
+    assertEquals(report.factors.map((f) => f.score), [100, 88, 100, 100, 100]);
+    assertEquals(report.level, "extreme");
+});
+
+Deno.test("an unknown creator counts as medium", () => {
+    const report = score_risk({ coin: coin(), holders: holders(), now });
+    assertEquals(report.factors[4].score, 50);
+    assert(report.factors[4].detail.includes("couldn't be loaded"));
+});
+
+Deno.test("risk_level", () => {
+    assertEquals([0, 25, 50, 75, 100].map(risk_level), ["low", "medium", "high", "extreme", "extreme"]);
+});
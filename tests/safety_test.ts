@@ -0,0 +1,67 @@
+import { assert, assertEquals } from "@std/assert";
+import type { JournalEntry } from "../src/journal.ts";
+import { check_spend, DEFAULT_SAFETY_SETTINGS, executed_price, quote_trade, slippage, spent_today } from "../src/safety.ts";
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.UTC(2025, 5, 1, 12);
+const round = (n: number) => Math.round(n * 1e6) / 1e6;
+const pool = { symbol: "btcr", poolCoinAmount: 1_000_000, poolBaseCurrencyAmount: 50_000 };
+
+function entry(action: JournalEntry["action"], amount: number, value: number, hoursAgo: number, profile = "default"): JournalEntry {
+    return { time: new Date(now - hoursAgo * HOUR).toISOString(), profile, action, source: "test", amount, value, balance: 0 };
+}
+
+Deno.test("quote_trade", () => {
+    const buy = quote_trade(pool, "BUY", 50_000);
+    assertEquals(buy.symbol, "BTCR");
+    assertEquals(buy.price, 0.05);
+    //? Doubling the dollars in the pool halves its coins, and the price goes up 4x
+    assertEquals(buy.coins, 500_000);
+    assertEquals(buy.avgPrice, 0.1);
+    assertEquals(buy.newPrice, 0.2);
+    assertEquals(round(buy.priceImpact), 300);
+
+    const sell = quote_trade(pool, "SELL", 1_000_000);
+    assertEquals(sell.value, 25_000);
+    assertEquals(sell.newPrice, 0.0125);
+    assertEquals(round(sell.priceImpact), -75);
+
+    //? Selling what was just bought gets the same dollars back
+    const small = quote_trade(pool, "BUY", 10);
+    const after = { symbol: "BTCR", poolCoinAmount: pool.poolCoinAmount - small.coins, poolBaseCurrencyAmount: pool.poolBaseCurrencyAmount + 10 };
+    assertEquals(round(quote_trade(after, "SELL", small.coins).value), 10);
+});
+
+Deno.test("slippage", () => {
+    const buy = quote_trade(pool, "BUY", 50_000);
+    assertEquals(round(slippage(buy, 0.11)), 10);
+    assert(slippage(buy, 0.09) < 0);
+    const sell = quote_trade(pool, "SELL", 1_000_000);
+    //? Selling for less is worse
+    assertEquals(round(slippage(sell, 0.0225)), 10);
+    assertEquals(executed_price({ success: true, type: "BUY", newPrice: 0.2, newBalance: 0, coinsBought: 500_000, totalCost: 50_000 }), 0.1);
+    assertEquals(executed_price({ success: true, type: "SELL", newPrice: 0.2, newBalance: 0 }), undefined);
+});
+
+Deno.test("spent_today", () => {
+    const journal = [
+        entry("BUY", 100, 100, 1),
+        entry("SELL", 50, 200, 1),
+        entry("COINFLIP", 20, 0, 2),
+        entry("SLOTS", 30, 90, 3),
+        entry("BUY", 500, 500, 25),
+        entry("BUY", 40, 40, 1, "alt"),
+    ];
+    assertEquals(spent_today(journal, "default", now), 150);
+    assertEquals(spent_today(journal, "alt", now), 40);
+});
+
+Deno.test("check_spend", () => {
+    assertEquals(check_spend(DEFAULT_SAFETY_SETTINGS, "buy-coin", 1e9, 0, 1e9), undefined);
+    const settings = { ...DEFAULT_SAFETY_SETTINGS, commandCaps: { invest: 100 }, dailyCap: 500 };
+    assertEquals(check_spend(settings, "invest", 60, 40, 0), undefined);
+    assert(check_spend(settings, "invest", 60, 41, 0)?.includes("invest may spend $100"));
+    assertEquals(check_spend(settings, "coinflip", 1000, 1000, 0)?.includes("daily cap"), true);
+    assertEquals(check_spend(settings, "coinflip", 100, 0, 400), undefined);
+    assert(check_spend(settings, "coinflip", 100.01, 0, 400)?.includes("daily cap is $500"));
+});
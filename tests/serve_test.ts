@@ -0,0 +1,145 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { check_token, type CommandRun, is_loopback, parse_output, type ServeLogEntry, start_api_server, to_argv } from "../src/serve.ts";
+
+const TOKEN = "secret";
+
+//? A server whose commands echo their arguments back, failing when the first one is "fail" or "usage"
+function echo_server(maxRequests?: number) {
+    const calls: string[] = [];
+    const logged: Omit<ServeLogEntry, "time" | "profile">[] = [];
+    let running = 0;
+    const server = start_api_server({
+        hostname: "127.0.0.1",
+        port: 0,
+        token: TOKEN,
+        commands: [
+            { name: "echo", desc: "echoes", usage: "echo <words...>", args: [{ name: "words", rest: true }], options: [{ name: "loud" }] },
+            { name: "slow", desc: "takes a while", usage: "slow", args: [], options: [] },
+        ],
+        run: async (name, args): Promise<CommandRun> => {
+            assertEquals(running++, 0, "commands ran at the same time");
+            calls.push(`${name} ${args.join(" ")}`.trim());
+            await new Promise((resolve) => setTimeout(resolve, name == "slow" ? 30 : 0));
+            running--;
+            if (args[0] == "fail" || args[0] == "usage") {
+                return { ok: false, result: { error: args[0] == "usage" ? "UsageError" : "Error", message: "it failed" }, warnings: ["careful"] };
+            }
+            return { ok: true, result: { args }, warnings: [] };
+        },
+        log: (entry) => logged.push(entry),
+        maxRequests,
+    });
+    const request = (path: string, body?: unknown, token: string | null = TOKEN) => fetch(server.url + path, {
+        method: body == undefined ? "GET" : "POST",
+        headers: token == null ? {} : { Authorization: `Bearer ${token}` },
+        body: body == undefined ? undefined : typeof body == "string" ? body : JSON.stringify(body),
+    });
+    return { server, calls, logged, request };
+}
+
+Deno.test("to_argv", () => {
+    assertEquals(to_argv(undefined), []);
+    assertEquals(to_argv(["BTCR", 10]), ["BTCR", "10"]);
+    assertEquals(to_argv({ args: ["BTCR", 10], options: { yes: true, force: false, limit: 5 } }), ["BTCR", "10", "--yes", "--limit", "5"]);
+    assertThrows(() => to_argv([{}]), Error, "Argument 1");
+    assertThrows(() => to_argv({ arguments: [] }), Error, "Unknown param arguments");
+    assertThrows(() => to_argv({ options: { limit: null } }), Error, "Option limit");
+    assertThrows(() => to_argv("BTCR"), Error, "array of arguments");
+
+    const coin = { name: "coin", desc: "", usage: "", args: [], options: [{ name: "timeframe" }, { name: "exec" }] };
+    assertEquals(to_argv(["BTCR", "--timeframe=1h", "--", "x"], coin), ["BTCR", "--timeframe=1h", "--", "x"]);
+    assertEquals(to_argv({ options: { timeframe: "1h" } }, coin), ["--timeframe", "1h"]);
+    assertThrows(() => to_argv({ options: { limit: 5 } }, coin), Error, "can't be given --limit");
+    assertThrows(() => to_argv(["BTCR", "--json"], coin), Error, "--json");
+    //? Not even when the command takes them
+    assertThrows(() => to_argv({ options: { exec: "rm -rf ~" } }, coin), Error, "--exec");
+    assertThrows(() => to_argv(["--", "--profile=alt"], coin), Error, "--profile");
+});
+
+Deno.test("parse_output", () => {
+    assertEquals(parse_output([]), null);
+    assertEquals(parse_output(["{", '  "a": 1', "}"]), { a: 1 });
+    assertEquals(parse_output(['{"a":1}', '{"a":2}']), [{ a: 1 }, { a: 2 }]);
+    assertEquals(parse_output(["Cash: 5"]), "Cash: 5");
+});
+
+Deno.test("check_token and is_loopback", () => {
+    assert(check_token("Bearer secret", TOKEN));
+    assert(check_token("bearer  secret ", TOKEN));
+    assert(!check_token("Bearer secrets", TOKEN));
+    assert(!check_token("secret", TOKEN));
+    assert(!check_token(null, TOKEN));
+    assert(is_loopback("127.0.0.1") && is_loopback("localhost") && is_loopback("::1"));
+    assert(!is_loopback("0.0.0.0") && !is_loopback("192.168.1.2"));
+});
+
+Deno.test("start_api_server serves commands over REST", async () => {
+    const { server, calls, logged, request } = echo_server();
+    const denied = await request("/commands", undefined, null);
+    assertEquals(denied.status, 401);
+    assertEquals(denied.headers.get("WWW-Authenticate"), "Bearer");
+    await denied.body?.cancel();
+    assertEquals((await request("/commands", undefined, "wrong")).status, 401);
+    assertEquals((await (await request("/commands")).json()).map((c: { name: string }) => c.name), ["echo", "slow"]);
+
+    const ok = await request("/commands/echo", { args: ["hi"], options: { loud: true } });
+    assertEquals(await ok.json(), { ok: true, result: { args: ["hi", "--loud"] }, warnings: [] });
+    assertEquals((await request("/commands/echo", "")).status, 200);
+    const failed = await request("/commands/echo", ["fail"]);
+    assertEquals(failed.status, 422);
+    assertEquals((await failed.json()).warnings, ["careful"]);
+    for (const [path, body, status] of [["/commands/echo", ["usage"], 400], ["/commands/nope", {}, 404], ["/commands/echo", "{", 400], ["/commands/echo", 5, 400], ["/elsewhere", {}, 404]] as const) {
+        const res = await request(path, body);
+        assertEquals(res.status, status, path);
+        await res.body?.cancel();
+    }
+    const get = await request("/commands/echo");
+    assertEquals(get.status, 405);
+    await get.body?.cancel();
+
+    //? Requests that come in together still run one after the other
+    await Promise.all([request("/commands/slow", {}), request("/commands/echo", ["after"])].map(async (r) => (await r).body?.cancel()));
+    assertEquals(calls.slice(-2), ["slow", "echo after"]);
+
+    assertEquals(logged[0], { method: "GET", path: "/commands", status: 401, ok: false, ms: logged[0].ms });
+    const echo = logged.find((e) => e.status == 422)!;
+    assertEquals([echo.command, echo.args, echo.ok, echo.error], ["echo", ["fail"], false, "it failed"]);
+    await server.shutdown();
+});
+
+Deno.test("start_api_server speaks JSON-RPC", async () => {
+    const { server, request } = echo_server();
+    const rpc = async (body: unknown) => {
+        const res = await request("/rpc", body);
+        return res.status == 204 ? (await res.body?.cancel(), undefined) : await res.json();
+    };
+    assertEquals(await rpc({ jsonrpc: "2.0", id: 1, method: "echo", params: ["hi"] }), { jsonrpc: "2.0", id: 1, result: { args: ["hi"] } });
+    assertEquals((await rpc({ jsonrpc: "2.0", id: 2, method: "echo", params: ["fail"] })).error, {
+        code: -32000,
+        message: "it failed",
+        data: { error: "Error", message: "it failed", warnings: ["careful"] },
+    });
+    assertEquals((await rpc({ jsonrpc: "2.0", id: 3, method: "echo", params: ["usage"] })).error.code, -32602);
+    assertEquals((await rpc({ jsonrpc: "2.0", id: 4, method: "echo", params: [null] })).error.code, -32602);
+    assertEquals((await rpc({ jsonrpc: "2.0", id: 5, method: "nope" })).error.code, -32601);
+    assertEquals((await rpc({ id: 6, method: "echo" })).error.code, -32600);
+    assertEquals((await rpc("{")).error.code, -32700);
+    assertEquals((await rpc([])).error.code, -32600);
+    //? Notifications get no answer, not even in a batch
+    assertEquals(await rpc({ jsonrpc: "2.0", method: "echo" }), undefined);
+    const batch = await rpc([
+        { jsonrpc: "2.0", id: 7, method: "echo", params: { args: ["a"] } },
+        { jsonrpc: "2.0", method: "echo" },
+        { jsonrpc: "2.0", id: 8, method: "nope" },
+    ]);
+    assertEquals(batch.map((a: { id: number }) => a.id), [7, 8]);
+    assertEquals(await rpc([{ jsonrpc: "2.0", method: "echo" }]), undefined);
+    await server.shutdown();
+});
+
+Deno.test("start_api_server stops after maxRequests", async () => {
+    const { server, request } = echo_server(2);
+    await (await request("/commands")).body?.cancel();
+    await (await request("/commands/echo", ["hi"])).body?.cancel();
+    await server.finished;
+});
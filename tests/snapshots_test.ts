@@ -0,0 +1,92 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { compute_performance, type Snapshot, take_snapshot, transfer_flows } from "../src/snapshots.ts";
+import type { PortfolioTotal, Transaction } from "../src/types.ts";
+
+const DAY = 24 * 60 * 60 * 1000;
+const start = Date.UTC(2025, 5, 1);
+
+function round(n: number): number {
+    return Math.round(n * 1e6) / 1e6;
+}
+
+function snapshot(day: number, cash: number, holdings: [string, number, number][], flows = 0): Snapshot {
+    const coinValue = holdings.reduce((sum, [, quantity, price]) => sum + quantity * price, 0);
+    return {
+        time: new Date(start + day * DAY).toISOString(),
+        profile: "default",
+        cash,
+        coinValue,
+        totalValue: cash + coinValue,
+        flows,
+        lastTransaction: 0,
+        holdings: holdings.map(([symbol, quantity, price]) => ({ symbol, quantity, price, value: quantity * price })),
+    };
+}
+
+function transfer(id: number, type: Transaction["type"], total: number): Transaction {
+    return { id, type, quantity: 0, pricePerCoin: 0, totalBaseCurrencyAmount: total, timestamp: new Date(start).toISOString(), coin: { id: 1, name: "Cash", symbol: "CASH", icon: null } } as Transaction;
+}
+
+Deno.test("transfer_flows counts transfers after the last snapshot", () => {
+    const transactions = [transfer(5, "TRANSFER_IN", 100), transfer(4, "TRANSFER_OUT", 30), transfer(3, "BUY", 50), transfer(2, "TRANSFER_IN", 1000)];
+    assertEquals(transfer_flows(transactions, 2), 70);
+    assertEquals(transfer_flows(transactions, 5), 0);
+});
+
+Deno.test("take_snapshot", () => {
+    const portfolio = {
+        baseCurrencyBalance: 100,
+        totalCoinValue: 50,
+        totalValue: 150,
+        coinHoldings: [{ symbol: "btcr", quantity: 5, currentPrice: 10, value: 50 }],
+    } as PortfolioTotal;
+    const first = take_snapshot(portfolio, "default", [transfer(9, "TRANSFER_IN", 100)], undefined, new Date(start));
+    //? Whatever came in before the first snapshot is part of where it starts
+    assertEquals([first.flows, first.lastTransaction, first.holdings[0].symbol], [0, 9, "BTCR"]);
+    const second = take_snapshot(portfolio, "default", [transfer(11, "TRANSFER_OUT", 20), transfer(9, "TRANSFER_IN", 100)], first);
+    assertEquals([second.flows, second.lastTransaction], [-20, 11]);
+    assertEquals(take_snapshot(portfolio, "default", [], second).lastTransaction, 11);
+});
+
+Deno.test("take_snapshot counts the first deposit of a fresh account", () => {
+    const portfolio = { baseCurrencyBalance: 0, totalCoinValue: 0, totalValue: 0, coinHoldings: [] } as PortfolioTotal;
+    const first = take_snapshot(portfolio, "default", [], undefined, new Date(start));
+    assertEquals(first.lastTransaction, 0);
+    const funded = { ...portfolio, baseCurrencyBalance: 100, totalValue: 100 };
+    const second = take_snapshot(funded, "default", [transfer(1, "TRANSFER_IN", 100)], first, new Date(start + DAY));
+    assertEquals([second.flows, second.lastTransaction], [100, 1]);
+    //? Money coming in isn't a return
+    assertEquals(compute_performance([first, second]).profit, 0);
+});
+
+Deno.test("compute_performance leaves transfers out of the return", () => {
+    const perf = compute_performance([
+        snapshot(0, 100, [["BTCR", 10, 10]]),
+        //? +10%, then a $100 deposit
+        snapshot(1, 200, [["BTCR", 10, 12]], 100),
+        //? -20%
+        snapshot(2, 200, [["BTCR", 10, 5.6]]),
+        snapshot(3, 200, [["BTCR", 10, 9], ["DOGE2", 100, 1]], 100),
+    ]);
+    assertEquals(perf.snapshots, 4);
+    assertEquals([perf.startValue, perf.endValue, perf.netFlows, perf.profit], [200, 390, 200, -10]);
+    assertEquals(round(perf.curve[1].index), 1.1);
+    assertEquals(round(perf.curve[2].index), 0.88);
+    assertEquals(round(perf.timeWeightedReturn), round(1.1 * 0.8 * 290 / 256 - 1));
+    assertEquals(round(perf.maxDrawdown), 0.2);
+    assertEquals([perf.drawdownPeak, perf.drawdownTrough], [perf.curve[1].time, perf.curve[2].time]);
+});
+
+Deno.test("compute_performance ranks holdings and measures drift", () => {
+    const perf = compute_performance([
+        snapshot(0, 50, [["BTCR", 5, 10]]),
+        snapshot(1, 0, [["BTCR", 5, 8], ["DOGE2", 50, 1]]),
+        snapshot(2, 0, [["DOGE2", 50, 3]]),
+    ]);
+    assertEquals(perf.holdings.map((h) => [h.symbol, round(h.return)]), [["DOGE2", 2], ["BTCR", -0.2]]);
+    assertEquals([perf.holdings[1].startValue, perf.holdings[1].endValue], [50, 0]);
+    assertEquals(perf.drift.map((d) => [d.symbol, d.drift]), [["DOGE2", 1], ["CASH", -0.5], ["BTCR", -0.5]]);
+    assertEquals(perf.totalDrift, 1);
+    assert(perf.maxDrawdown > 0);
+    assertThrows(() => compute_performance([snapshot(0, 1, [])]), Error, "at least two");
+});
@@ -0,0 +1,78 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { current_user, page_data, unflatten } from "../src/sveltekit.ts";
+import { UnexpectedResponseError } from "../src/errors.ts";
+import { devalue } from "../mock/state.ts";
+import type { SvelteDataResponse } from "../src/types.ts";
+
+function response(...nodes: unknown[]): SvelteDataResponse {
+    return {
+        type: "data",
+        nodes: nodes.map((data) => data == undefined ? { type: "skip" } : { type: "data", data: devalue(data), uid: null }),
+    } as SvelteDataResponse;
+}
+
+const session = {
+    id: "7",
+    name: "Jane",
+    username: "jane",
+    email: "jane@example.com",
+    bio: null,
+    image: "avatars/7.png",
+    baseCurrencyBalance: "1234.5",
+    isAdmin: false,
+    isBanned: false,
+    banReason: null,
+    loginStreak: 3,
+    createdAt: new Date("2025-06-01T12:00:00Z"),
+};
+
+Deno.test("unflatten", () => {
+    assertEquals(unflatten([{ a: 1, b: 2 }, "x", [3, -1], 4]), { a: "x", b: [4, undefined] });
+    assertEquals(unflatten([[1, -2, 2], 5, 6]), [5, , 6]);
+    assertEquals(unflatten(-3), NaN);
+    assertEquals(unflatten([[-4, -5, -6]]), [Infinity, -Infinity, -0]);
+    assertEquals(unflatten([["Date", "2025-01-02T03:04:05.000Z"]]), new Date("2025-01-02T03:04:05.000Z"));
+    assertEquals(unflatten([["Map", 1, 2], "a", 1]), new Map([["a", 1]]));
+    assertEquals(unflatten([["Set", 1, 1], "a"]), new Set(["a"]));
+    assertEquals(unflatten([["BigInt", "12345678901234567890"]]), 12345678901234567890n);
+
+    //? Repeated and circular references point at the same object
+    const shared = unflatten([{ a: 1, b: 1 }, { x: 2 }, 3]) as Record<string, unknown>;
+    assert(shared.a === shared.b);
+    const circular = unflatten([{ self: 0 }]) as Record<string, unknown>;
+    assert(circular.self === circular);
+
+    assertThrows(() => unflatten([]), UnexpectedResponseError);
+    assertThrows(() => unflatten([{ a: 5 }]), UnexpectedResponseError, "out of range");
+    assertThrows(() => unflatten([["Weird", 1]]), UnexpectedResponseError, "Unknown devalue type");
+});
+
+Deno.test("page_data", () => {
+    assertEquals(page_data(response({ a: 1 }, undefined)), [{ a: 1 }, undefined]);
+    assertThrows(() => page_data({ type: "redirect", nodes: [] } as unknown as SvelteDataResponse), UnexpectedResponseError);
+});
+
+Deno.test("current_user", () => {
+    assertEquals(current_user(response({ userSession: session }, undefined)), {
+        id: 7,
+        name: "Jane",
+        username: "jane",
+        email: "jane@example.com",
+        bio: null,
+        image: "avatars/7.png",
+        baseCurrencyBalance: 1234.5,
+        isAdmin: false,
+        isBanned: false,
+        banReason: null,
+        loginStreak: 3,
+        createdAt: "2025-06-01T12:00:00.000Z",
+    });
+    //? Fields are found by name, wherever the encoder put them
+    assertEquals(current_user(response({ theme: "dark", userSession: { ...session, extra: [1, 2] } }))?.username, "jane");
+    assertEquals(current_user(response({ userSession: null })), null);
+
+    assertThrows(() => current_user(response({ user: session })), UnexpectedResponseError, "no userSession");
+    assertThrows(() => current_user(response({ userSession: { ...session, username: 5 } })), UnexpectedResponseError, "userSession.username");
+    assertThrows(() => current_user(response({ userSession: { ...session, baseCurrencyBalance: "lots" } })), UnexpectedResponseError, "baseCurrencyBalance");
+    assertThrows(() => current_user(response({ userSession: { ...session, createdAt: "yesterday" } })), UnexpectedResponseError, "createdAt");
+});
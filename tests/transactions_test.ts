@@ -0,0 +1,34 @@
+import { assertEquals } from "@std/assert";
+import { RugplayClient } from "../src/client.ts";
+import { all_transactions, filter_transactions, normalize_transaction, parse_date } from "../src/transactions.ts";
+import { start_mock_server } from "../mock/server.ts";
+import { MOCK_COOKIE } from "../mock/state.ts";
+
+Deno.test("all_transactions pages through the whole history", async () => {
+    const server = start_mock_server();
+    const client = new RugplayClient(MOCK_COOKIE, { baseUrl: server.url, rateLimit: 0 });
+    const before = server.state.requests;
+    const all = await all_transactions(client, 2);
+    assertEquals(all.map((t) => t.id), [5, 3, 2, 1]);
+    assertEquals(server.state.requests - before, 2);
+    await server.shutdown();
+});
+
+Deno.test("normalize_transaction signs flows from our side", async () => {
+    const server = start_mock_server();
+    const client = new RugplayClient(MOCK_COOKIE, { baseUrl: server.url, rateLimit: 0 });
+    const rows = (await all_transactions(client)).map(normalize_transaction);
+    assertEquals(rows.map((r) => [r.type, r.asset, r.cashFlow, r.coinFlow]), [
+        ["TRANSFER_IN", "CASH", 250, 0],
+        ["TRANSFER_OUT", "MOON", 0, -10],
+        ["BUY", "MOON", -1200, 60],
+        ["BUY", "BTCR", -4000, 100],
+    ]);
+    assertEquals(filter_transactions(rows, { symbols: ["moon"], to: parse_date("2025-05-25T00:00:02.500Z") }).map((r) => r.id), [2]);
+    await server.shutdown();
+});
+
+Deno.test("parse_date", () => {
+    assertEquals(parse_date("2025-06-01").toISOString(), "2025-06-01T00:00:00.000Z");
+    assertEquals(parse_date("2025-06-01", true).toISOString(), "2025-06-01T23:59:59.999Z");
+});
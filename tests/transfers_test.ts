@@ -0,0 +1,39 @@
+import { assert, assertEquals } from "@std/assert";
+import { check_limits, resolve_recipient, sent_today, type TransferLogEntry } from "../src/transfers.ts";
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.UTC(2025, 5, 1, 12);
+
+function entry(event: TransferLogEntry["event"], value: number, hoursAgo: number, profile = "default"): TransferLogEntry {
+    return { time: new Date(now - hoursAgo * HOUR).toISOString(), profile, event, recipient: "alice", type: "CASH", amount: value, value };
+}
+
+Deno.test("resolve_recipient", () => {
+    const book = { ally: "alice", bob: "robert" };
+    assertEquals(resolve_recipient(book, "ally"), { username: "alice", alias: "ally" });
+    assertEquals(resolve_recipient(book, "carol"), { username: "carol" });
+    //? @ always means a username, even when an alias has the same name
+    assertEquals(resolve_recipient(book, "@bob"), { username: "bob" });
+    assertEquals(resolve_recipient(book, "toString"), { username: "toString" });
+});
+
+Deno.test("sent_today", () => {
+    const log = [
+        entry("sent", 100, 1),
+        entry("failed", 50, 2),
+        entry("refused", 1000, 1),
+        entry("cancelled", 1000, 1),
+        entry("sent", 200, 25),
+        entry("sent", 300, 1, "alt"),
+    ];
+    assertEquals(sent_today(log, "default", now), 150);
+    assertEquals(sent_today(log, "alt", now), 300);
+});
+
+Deno.test("check_limits", () => {
+    const limits = { perTransfer: 100, daily: 250 };
+    assertEquals(check_limits(limits, 100, 150), undefined);
+    assert(check_limits(limits, 100.5, 0)?.includes("per transfer"));
+    assert(check_limits(limits, 100, 151)?.includes("daily limit of $250"));
+    assertEquals(check_limits({ perTransfer: null, daily: null }, 1e9, 1e9), undefined);
+});